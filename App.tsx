@@ -1,71 +1,105 @@
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import { MessageType, ReplyTone, SavedReply, Student, AppSettings, IntegrationPlatform, Sentiment, GenerationProgress, Reminder } from './types';
-import { MESSAGE_TYPE_OPTIONS, TONE_OPTIONS, QUICK_REPLY_TEMPLATES, SMART_TIPS, PLATFORM_OPTIONS } from './constants';
-import { analyzeContext, generateBilingualReply, BilingualReplySentence } from './services/geminiService';
+import { MessageType, ReplyTone, SavedReply, Student, AppSettings, IntegrationPlatform, Sentiment, GenerationProgress, Reminder, ReplyLayout, ConversationTurn, CustomTone, QuickReplyTemplate, ToneId, AppDataSnapshot, ReplyRating, LanguageCode, MessageAnalysis, ReplyComparison, PendingGeneration } from './types';
+import { MESSAGE_TYPE_OPTIONS, SMART_TIPS, PLATFORM_OPTIONS, LAYOUT_OPTIONS, DEFAULT_THREAD_WINDOW, DEFAULT_REPLY_LANGUAGE, MAX_REPLY_VARIANTS, MIN_REPLY_VARIANTS, AUTO_VOICE_LANGUAGE, VOICE_LANGUAGE_OPTIONS } from './constants';
+import { PreparedReply, draftReply, draftReplyVariants } from './services/replyPipeline';
 import { CopyIcon, RegenerateIcon, SettingsIcon, SaveIcon, MicrophoneIcon, ExportIcon, HistoryIcon, BackIcon, CloseIcon, TrashIcon, SearchIcon, UserGroupIcon, SunIcon, MoonIcon, BellIcon, ThumbUpIcon, ThumbDownIcon, SparklesIcon } from './components/icons';
-
-type View = 'main' | 'history' | 'students' | 'reminders';
+import StudentsView from './components/StudentsView';
+import RemindersView from './components/RemindersView';
+import HistoryView from './components/HistoryView';
+import SettingsModal from './components/SettingsModal';
+import ProgressTracker from './components/ProgressTracker';
+import { formatReply, buildMailtoLink, buildEmlFile } from './services/replyFormatter';
+import { downloadTextFile } from './services/download';
+import { appendTurn, buildConversationContext, getStudentThread } from './services/conversationService';
+import ConversationThread from './components/ConversationThread';
+import TemplatesView from './components/TemplatesView';
+import ReplyEditor from './components/ReplyEditor';
+import ReschedulePanel from './components/ReschedulePanel';
+import PaymentPanel from './components/PaymentPanel';
+import BackupPanel from './components/BackupPanel';
+import BatchInboxView from './components/BatchInboxView';
+import InsightsView from './components/InsightsView';
+import VariantComparison from './components/VariantComparison';
+import { CompareMode, ReplyVariant, SentencePick, buildComparison, mergeVariants, planVariants } from './services/compareService';
+import { recordAnalysis } from './services/insightsService';
+import { BatchDraft } from './services/batchService';
+import { buildExampleBank } from './services/feedbackService';
+import { usePersistentCollection, usePersistentSettings } from './hooks/usePersistentState';
+import { useDictation } from './hooks/useDictation';
+import { EditableSentence } from './services/replyEditingService';
+import { getToneOptions, resolveTone, sortTemplates, fillTemplate, buildTemplateVariables } from './services/templateService';
+import { configureModelProvider, getProviderConfig } from './services/modelProvider';
+import { RequestStatus, getRequestStatus, subscribeToRequestStatus } from './services/requestLayer';
+import { setResponseCacheEnabled } from './services/responseCache';
+import { pendingGenerationRepository } from './services/repository';
+import { MODEL_ERROR_TITLES, ModelError, ModelErrorKind } from './services/modelErrors';
+import { getLanguage } from './services/languageService';
+import { ReschedulePlan } from './services/scheduleService';
+import { PaymentIntent } from './services/ledgerService';
+import { describeArabicStyle, getArabicVoice, resolveArabicStyle } from './services/arabicStyleService';
+import { ReplyRecipient, describeGuardian, getRecipientName, getRecipientPlatform, resolveRecipientLanguage } from './services/guardianService';
+import { appendTranscript, resolveVoiceLanguage, transcribeAudioFile } from './services/voiceService';
+import { REMINDER_CHECK_INTERVAL_MS, getDueReminders, notifyDueReminders, buildFollowUpReminder } from './services/reminderService';
+
+type View = 'main' | 'history' | 'students' | 'reminders' | 'templates' | 'batch' | 'insights';
 type CopyStatus = 'idle' | 'copied';
-declare global {
-  interface Window {
-    SpeechRecognition: any;
-    webkitSpeechRecognition: any;
-  }
-}
-
-// Custom Hook for LocalStorage
-const useLocalStorage = <T,>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] => {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(error);
-      return initialValue;
-    }
-  });
-
-  const setValue: React.Dispatch<React.SetStateAction<T>> = (value) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
-    } catch (error) {
-      console.error(error);
-    }
-  };
-
-  return [storedValue, setValue];
-};
+// The reply being drafted; `stored` is set once it has been saved while waiting for the connection.
+type ActiveGeneration = { item: PendingGeneration; stored?: Promise<void> };
 
 const App: React.FC = () => {
   // === STATE MANAGEMENT ===
   const [view, setView] = useState<View>('main');
-  const [settings, setSettings] = useLocalStorage<AppSettings>('appSettings_v3', { teacherName: 'Teacher', signature: '', platform: IntegrationPlatform.WHATSAPP, theme: 'dark' });
-  const [students, setStudents] = useLocalStorage<Student[]>('students_v3', []);
-  const [savedReplies, setSavedReplies] = useLocalStorage<SavedReply[]>('savedReplies_v3', []);
-  const [reminders, setReminders] = useLocalStorage<Reminder[]>('reminders_v3', []);
+  const [settings, setSettings, settingsLoaded] = usePersistentSettings();
+  const [students, setStudents, studentsLoaded] = usePersistentCollection<Student>('students');
+  const [savedReplies, setSavedReplies, savedRepliesLoaded] = usePersistentCollection<SavedReply>('savedReplies');
+  const [reminders, setReminders, remindersLoaded] = usePersistentCollection<Reminder>('reminders');
+  const [conversations, setConversations, conversationsLoaded] = usePersistentCollection<ConversationTurn>('conversations');
+  const [customTones, setCustomTones, customTonesLoaded] = usePersistentCollection<CustomTone>('customTones');
+  const [templates, setTemplates, templatesLoaded] = usePersistentCollection<QuickReplyTemplate>('quickReplyTemplates');
+  const [analyses, setAnalyses, analysesLoaded] = usePersistentCollection<MessageAnalysis>('analyses');
+  const isDataLoaded = settingsLoaded && studentsLoaded && savedRepliesLoaded && remindersLoaded && conversationsLoaded && customTonesLoaded && templatesLoaded && analysesLoaded;
 
   // Form & Generation State
   const [studentMessage, setStudentMessage] = useState('');
   const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
   const [messageType, setMessageType] = useState<MessageType>(MessageType.NEW_STUDENT);
-  const [replyTone, setReplyTone] = useState<ReplyTone>(ReplyTone.FRIENDLY);
+  const [replyTone, setReplyTone] = useState<ToneId>(ReplyTone.FRIENDLY);
+  const [compareMode, setCompareMode] = useState<CompareMode | 'off'>('off');
+  const [compareTones, setCompareTones] = useState<ToneId[]>([]);
+  const [variantCount, setVariantCount] = useState(3);
   
   // AI & Reply State
   const [detectedContext, setDetectedContext] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState<GenerationProgress>({});
-  const [error, setError] = useState<string | null>(null);
-  const [replySentences, setReplySentences] = useState<BilingualReplySentence[]>([]);
+  const [error, setErrorState] = useState<{ message: string; kind?: ModelErrorKind } | null>(null);
+  const [requestStatus, setRequestStatus] = useState<RequestStatus>(getRequestStatus);
+  // Replies still waiting for a connection when the app was last closed, oldest first.
+  const [restoredGenerations, setRestoredGenerations] = useState<PendingGeneration[]>([]);
+  const [resumingGeneration, setResumingGeneration] = useState<PendingGeneration | null>(null);
+  const activeGenerationRef = useRef<ActiveGeneration | null>(null);
+  const setError = (message: string | null, kind?: ModelErrorKind) => setErrorState(message ? { message, kind } : null);
+  const [replySentences, setReplySentences] = useState<EditableSentence[]>([]);
+  const [replyLanguage, setReplyLanguage] = useState<LanguageCode>(DEFAULT_REPLY_LANGUAGE);
+  const [replyRecipient, setReplyRecipient] = useState<ReplyRecipient>({ audience: 'student' });
   const [toneDescription, setToneDescription] = useState('');
+  const [followUpSuggestion, setFollowUpSuggestion] = useState<Reminder | null>(null);
+  const [reschedulePlan, setReschedulePlan] = useState<ReschedulePlan | undefined>(undefined);
+  const [reminderDraft, setReminderDraft] = useState<Reminder | null>(null);
+  const [savedReplyId, setSavedReplyId] = useState<string | null>(null);
+  const [replyLoggedToThread, setReplyLoggedToThread] = useState(false);
+  const [batchDrafts, setBatchDrafts] = useState<BatchDraft[]>([]);
+  const [variants, setVariants] = useState<ReplyVariant[]>([]);
+  const [variantRun, setVariantRun] = useState(0);
+  const [replyComparison, setReplyComparison] = useState<ReplyComparison | undefined>(undefined);
   
   // UI State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [threadStudentId, setThreadStudentId] = useState<string | null>(null);
   const [currentTip, setCurrentTip] = useState('');
-  const [copyStatus, setCopyStatus] = useState<{ id: string, lang: 'ar' | 'en' } | null>(null);
-  const [isRecording, setIsRecording] = useState(false);
-  const recognitionRef = useRef<any>(null);
+  const [copyStatus, setCopyStatus] = useState<{ id: string, lang: 'ar' | 'student' } | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // === EFFECTS ===
 
@@ -78,6 +112,37 @@ const App: React.FC = () => {
     }
   }, [settings.theme]);
 
+  // Model provider selection
+  useEffect(() => {
+    configureModelProvider(getProviderConfig(settings));
+  }, [settings.provider, settings.model, settings.localEndpoint, settings.localApiKey, settings.requestsPerMinute]);
+
+  useEffect(() => {
+    setResponseCacheEnabled(settings.cacheResponses !== false);
+  }, [settings.cacheResponses]);
+
+  // Offline queue and rate limit banner
+  useEffect(() => subscribeToRequestStatus(setRequestStatus), []);
+
+  useEffect(() => {
+    pendingGenerationRepository.getAll().then(setRestoredGenerations).catch(error => console.error("Could not load queued replies:", error));
+  }, []);
+
+  // A reply waiting for the connection is stored, so closing or reloading the app doesn't lose it.
+  useEffect(() => {
+    const active = activeGenerationRef.current;
+    if (requestStatus.queued === 0 || !active || active.stored) return;
+    active.stored = pendingGenerationRepository.put(active.item).catch(error => console.error("Could not store the queued reply:", error));
+  }, [requestStatus.queued]);
+
+  // Batch inbox drafts are only queued in memory, so ask before the page is closed on them.
+  useEffect(() => {
+    if (requestStatus.queued === 0) return;
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [requestStatus.queued]);
+
   // Set initial tip
   useEffect(() => {
     setCurrentTip(SMART_TIPS[Math.floor(Math.random() * SMART_TIPS.length)]);
@@ -90,76 +155,396 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Reminder scheduler: runs immediately on load to catch up on reminders missed
+  // while the app was closed, then polls for newly due ones.
+  useEffect(() => {
+    const checkReminders = () => {
+      const due = getDueReminders(reminders);
+      if (due.length === 0) return;
+      notifyDueReminders(due);
+      const dueIds = new Set(due.map(r => r.id));
+      setReminders(prev => prev.map(r => dueIds.has(r.id) ? { ...r, notified: true } : r));
+    };
+    checkReminders();
+    const intervalId = window.setInterval(checkReminders, REMINDER_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [reminders, setReminders]);
+
   // === CORE LOGIC ===
 
-  const handleGenerateReply = useCallback(async (message?: string) => {
+  const activeStudents = useMemo(() => students.filter(s => !s.archived), [students]);
+  const currentStudent = useMemo(() => students.find(s => s.id === selectedStudentId), [students, selectedStudentId]);
+  const arabicStyle = useMemo(() => resolveArabicStyle(settings, currentStudent), [settings, currentStudent]);
+  const toneOptions = useMemo(() => getToneOptions(customTones), [customTones]);
+  const sortedTemplates = useMemo(() => sortTemplates(templates), [templates]);
+  const exampleBank = useMemo(() => settings.learnFromRatings === false ? undefined : buildExampleBank(savedReplies), [settings.learnFromRatings, savedReplies]);
+
+  const handleSelectStudent = useCallback((studentId: string | null) => {
+    setSelectedStudentId(studentId);
+    const student = students.find(s => s.id === studentId);
+    if (student) {
+      setReplyTone(student.preferredTone); // Apply the student's default tone
+    }
+  }, [students]);
+
+  const handleUseStudent = (studentId: string) => {
+    handleSelectStudent(studentId);
+    setView('main');
+  };
+
+  // Everything recorded about the student goes with them. Saved replies stay in
+  // the history, and as examples to learn from, but no longer name the student.
+  const handleDeleteStudent = (studentId: string) => {
+    setStudents(prev => prev.filter(s => s.id !== studentId));
+    setReminders(prev => prev.filter(r => r.studentId !== studentId));
+    setConversations(prev => prev.filter(t => t.studentId !== studentId));
+    setAnalyses(prev => prev.filter(a => a.studentId !== studentId));
+    setSavedReplies(prev => prev.map(r => r.studentId === studentId ? { ...r, studentId: undefined } : r));
+    setSettings(prev => prev.bookedLessons?.some(l => l.studentId === studentId)
+      ? { ...prev, bookedLessons: prev.bookedLessons.filter(l => l.studentId !== studentId) }
+      : prev);
+    if (selectedStudentId === studentId) setSelectedStudentId(null);
+    if (threadStudentId === studentId) setThreadStudentId(null);
+  };
+
+  const handleGenerateReply = useCallback(async (message?: string, paymentIntent?: PaymentIntent, mode: CompareMode | 'off' = compareMode) => {
     const finalMessage = message || studentMessage;
     if (!finalMessage.trim()) {
       setError("Please enter a student message.");
       return;
     }
+    const plans = mode === 'off' ? [] : planVariants(mode, replyTone, compareTones, variantCount);
+    if (mode !== 'off' && plans.length === 0) {
+      setError(`Choose at least ${MIN_REPLY_VARIANTS} tones to compare.`);
+      return;
+    }
     setIsLoading(true);
     setError(null);
     setReplySentences([]);
     setToneDescription('');
+    setFollowUpSuggestion(null);
+    setReschedulePlan(undefined);
+    setSavedReplyId(null);
+    setReplyLoggedToThread(false);
+    setReplyComparison(undefined);
+    setVariants(plans.map(plan => ({ ...plan, sentences: [], toneDescription: '', done: false })));
+    setVariantRun(run => run + 1);
     setProgress({ reading: true });
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const generation: ActiveGeneration = {
+      item: { id: crypto.randomUUID(), message: finalMessage, studentId: selectedStudentId || undefined, queuedAt: new Date().toISOString() },
+    };
+    activeGenerationRef.current = generation;
+
     try {
       setProgress(p => ({ ...p, reading: false, detecting: true }));
-      const context = await analyzeContext(finalMessage);
-      setDetectedContext(context);
-      setMessageType(context.messageType); // Auto-update message type
-
-      setProgress(p => ({ ...p, detecting: false, drafting: true }));
       const selectedStudent = students.find(s => s.id === selectedStudentId);
-      const result = await generateBilingualReply(finalMessage, context, replyTone, settings.platform, settings.teacherName, selectedStudent);
-      
-      setProgress(p => ({ ...p, drafting: false, done: true }));
-      setReplySentences(result.sentences);
-      setToneDescription(result.toneDescription);
+      // Earlier turns give the model memory; the new message is then recorded in the thread.
+      const conversation = buildConversationContext(conversations, selectedStudent, settings.threadWindow ?? DEFAULT_THREAD_WINDOW);
+
+      const request = {
+        message: finalMessage,
+        settings,
+        student: selectedStudent,
+        conversation,
+        exampleBank,
+        paymentIntent,
+        signal: controller.signal,
+        onContext: ({ context, recipient, language, schedule }: PreparedReply) => {
+          setDetectedContext(context);
+          setReplyRecipient(recipient);
+          // Paired replies may go to a child and a parent who read different languages.
+          setVariants(prev => prev.map(v => v.audience
+            ? { ...v, language: resolveRecipientLanguage(settings, selectedStudent, { ...recipient, audience: v.audience }, context) }
+            : v));
+          setAnalyses(prev => recordAnalysis(prev, context, finalMessage, selectedStudent?.id));
+          setReplyLanguage(language);
+          setMessageType(context.messageType); // Auto-update message type
+          setFollowUpSuggestion(buildFollowUpReminder(context.messageType, selectedStudent));
+          setReschedulePlan(schedule);
+          if (selectedStudent) {
+            setConversations(prev => appendTurn(prev, { studentId: selectedStudent.id, role: 'student', text: finalMessage }));
+          }
+          setProgress(p => ({ ...p, detecting: false, drafting: true }));
+        },
+      };
+
+      if (plans.length > 0) {
+        // Compare mode: the variants stream side by side and the teacher picks or merges them.
+        const { results } = await draftReplyVariants({
+          ...request,
+          variants: plans.map(plan => ({ tone: resolveTone(plan.tone, customTones), temperature: plan.temperature, audience: plan.audience })),
+          onVariantUpdate: (index, partial) => setVariants(prev => prev.map((v, i) => i === index
+            ? { ...v, sentences: partial.sentences, toneDescription: partial.toneDescription || v.toneDescription }
+            : v)),
+        });
+        setVariants(prev => prev.map((v, i) => {
+          const result = results[i];
+          return result.status === 'fulfilled'
+            ? { ...v, sentences: result.value.sentences, toneDescription: result.value.toneDescription, done: true }
+            : { ...v, done: true, error: controller.signal.aborted ? "Cancelled." : result.reason?.message || "This variant failed." };
+        }));
+        const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+        if (failed && results.every(r => r.status === 'rejected')) throw failed.reason;
+      } else {
+        const { reply: result } = await draftReply({
+          ...request,
+          tone: resolveTone(replyTone, customTones),
+          onUpdate: partial => {
+            setReplySentences(partial.sentences);
+            if (partial.toneDescription) setToneDescription(partial.toneDescription);
+            if (partial.stage) {
+              setProgress(p => ({ ...p, drafting: partial.stage === 'drafting', translating: partial.stage === 'translating' }));
+            }
+          },
+        });
+        setReplySentences(result.sentences);
+        setToneDescription(result.toneDescription);
+      }
+
+      setProgress(p => ({ ...p, drafting: false, translating: false, done: true }));
+      if (selectedStudent) {
+        setStudents(prev => prev.map(s => s.id === selectedStudent.id
+          ? { ...s, lastContactedAt: new Date().toISOString(), totalMessages: s.totalMessages + 1 }
+          : s));
+      }
       setCurrentTip(SMART_TIPS[Math.floor(Math.random() * SMART_TIPS.length)]);
 
     } catch (e: any) {
-      setError(e.message || "An unexpected error occurred.");
+      if (controller.signal.aborted) {
+        setProgress({});
+        return;
+      }
+      setError(e.message || "An unexpected error occurred.", e instanceof ModelError ? e.kind : undefined);
       setProgress({ error: e.message });
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      if (activeGenerationRef.current === generation) activeGenerationRef.current = null;
+      generation.stored?.then(() => pendingGenerationRepository.remove(generation.item.id)).catch(error => console.error("Could not clear the queued reply:", error));
       setIsLoading(false);
     }
-  }, [studentMessage, students, selectedStudentId, replyTone, settings.platform, settings.teacherName]);
+  }, [studentMessage, students, selectedStudentId, replyTone, compareMode, compareTones, variantCount, settings, setStudents, conversations, setConversations, customTones, exampleBank, setAnalyses]);
+
+  // Drafts a reply restored from the last session. Every tab sees the same stored
+  // replies, so one is claimed first and a tab that loses the race leaves it alone.
+  const handleResumeGeneration = useCallback(async (item: PendingGeneration) => {
+    setRestoredGenerations(prev => prev.filter(g => g.id !== item.id));
+    const claimed = await pendingGenerationRepository.claim(item.id).catch(error => {
+      console.error("Could not claim the queued reply:", error);
+      return undefined;
+    });
+    if (!claimed) return;
+    setStudentMessage(claimed.message);
+    handleSelectStudent(students.some(s => s.id === claimed.studentId) ? claimed.studentId! : null);
+    setResumingGeneration(claimed);
+  }, [students, handleSelectStudent]);
+
+  // Generates once the restored message and student are in place.
+  useEffect(() => {
+    if (!resumingGeneration || studentMessage !== resumingGeneration.message) return;
+    setResumingGeneration(null);
+    handleGenerateReply(resumingGeneration.message);
+  }, [resumingGeneration, studentMessage, handleGenerateReply]);
+
+  // At startup, or when the connection comes back, the oldest restored reply is drafted
+  // if the main view is free; the teacher drafts the others from the banner.
+  useEffect(() => {
+    if (!isDataLoaded || requestStatus.offline || isLoading || resumingGeneration) return;
+    if (studentMessage.trim() || replySentences.length > 0 || variants.length > 0) return;
+    if (restoredGenerations.length > 0) handleResumeGeneration(restoredGenerations[0]);
+  }, [isDataLoaded, requestStatus.offline, isLoading, resumingGeneration, studentMessage, replySentences, variants, restoredGenerations, handleResumeGeneration]);
+
+  // Loads a compared variant, or sentences merged from several, as the reply to edit and send.
+  const applyVariantChoice = (sentences: EditableSentence[], sources: number[]) => {
+    const used = [...new Set(sources)];
+    setReplySentences(sentences);
+    setToneDescription(used.map(i => variants[i].toneDescription).filter(Boolean).join(' + '));
+    // The reply is filed under the tone most of its sentences came from.
+    const main = used.reduce((a, b) => sources.filter(s => s === b).length > sources.filter(s => s === a).length ? b : a);
+    const chosen = variants[main];
+    setReplyTone(chosen.tone);
+    if (chosen.language) setReplyLanguage(chosen.language);
+    if (chosen.audience) setReplyRecipient(r => ({ ...r, audience: chosen.audience! }));
+    setReplyComparison(buildComparison(variants, sources));
+    setSavedReplyId(null);
+    setReplyLoggedToThread(false);
+  };
+
+  const handlePickVariant = (index: number) =>
+    applyVariantChoice(variants[index].sentences, variants[index].sentences.map(() => index));
+
+  const handleMergeVariants = (picks: SentencePick[]) =>
+    applyVariantChoice(mergeVariants(variants, picks), picks.map(p => p.variant));
 
-  const handleVoiceInput = () => {
-    if (isRecording) {
-      recognitionRef.current?.stop();
-      setIsRecording(false);
+  // Comparing tones starts from the tone already chosen.
+  const handleCompareModeChange = (mode: CompareMode | 'off') => {
+    setCompareMode(mode);
+    if (mode === 'tones' && compareTones.length === 0) setCompareTones([replyTone]);
+  };
+
+  const toggleCompareTone = (tone: ToneId) => setCompareTones(prev => prev.includes(tone)
+    ? prev.filter(t => t !== tone)
+    : prev.length < MAX_REPLY_VARIANTS ? [...prev, tone] : prev);
+
+  const handleRecordPayment = (amount: number) => {
+    if (!selectedStudentId) return;
+    const entry = { id: crypto.randomUUID(), kind: 'payment' as const, date: new Date().toISOString().slice(0, 10), amount };
+    setStudents(prev => prev.map(s => s.id === selectedStudentId ? { ...s, ledger: [...(s.ledger || []), entry] } : s));
+  };
+
+  const handleTemplateChip = (template: QuickReplyTemplate) => {
+    const selectedStudent = students.find(s => s.id === selectedStudentId);
+    const message = fillTemplate(template.message, buildTemplateVariables(selectedStudent, settings.teacherName));
+    setStudentMessage(message);
+    handleGenerateReply(message);
+  };
+
+  // Manual edits make any earlier save or thread entry out of date.
+  const handleEditSentences: React.Dispatch<React.SetStateAction<EditableSentence[]>> = (update) => {
+    setReplySentences(update);
+    setSavedReplyId(null);
+    setReplyLoggedToThread(false);
+  };
+
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleSaveReply = (rating?: ReplyRating) => {
+    if (isLoading || replySentences.length === 0 || savedReplyId) return;
+    const student = students.find(s => s.id === selectedStudentId);
+    const saved: SavedReply = {
+      id: crypto.randomUUID(),
+      studentId: student?.id,
+      studentName: student?.name,
+      studentReply: fullStudentReply,
+      arabicReply: fullArabicReply,
+      language: replyLanguage,
+      sentences: replySentences,
+      toneDescription,
+      messageType,
+      tone: replyTone,
+      date: new Date().toISOString(),
+      studentMessage,
+      sentiment: detectedContext?.sentiment,
+      rating,
+      comparison: replyComparison,
+      audience: replyRecipient.audience === 'guardian' ? 'guardian' : undefined,
+    };
+    setSavedReplies(prev => [saved, ...prev]);
+    setSavedReplyId(saved.id);
+  };
+
+  // Rating a reply saves it first; ratings feed the example bank for future replies.
+  const handleRateReply = (rating: ReplyRating) => {
+    if (!savedReplyId) {
+      handleSaveReply(rating);
       return;
     }
+    setSavedReplies(prev => prev.map(r => r.id === savedReplyId ? { ...r, rating: r.rating === rating ? undefined : rating } : r));
+  };
 
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    if (!SpeechRecognition) {
-      setError("Speech recognition is not supported in this browser.");
-      return;
+  // An approved batch draft is treated like a reply that was saved and sent.
+  const handleApproveBatchDraft = (draft: BatchDraft) => {
+    const student = students.find(s => s.id === draft.studentId);
+    const studentReply = draft.sentences.map(s => s.studentSentence).join(' ');
+    const arabicReply = draft.sentences.map(s => s.arabicSentence).join(' ');
+    setSavedReplies(prev => [{
+      id: crypto.randomUUID(),
+      studentId: student?.id,
+      studentName: student?.name || draft.sender || undefined,
+      studentReply,
+      arabicReply,
+      language: draft.language,
+      sentences: draft.sentences,
+      toneDescription: draft.toneDescription,
+      messageType: draft.context?.messageType || MessageType.CURRENT_STUDENT,
+      tone: draft.tone,
+      date: new Date().toISOString(),
+      studentMessage: draft.message,
+      sentiment: draft.context?.sentiment,
+    }, ...prev]);
+    if (draft.context) {
+      const context = draft.context;
+      setAnalyses(prev => recordAnalysis(prev, context, draft.message, student?.id, draft.receivedAt || undefined));
+    }
+    if (student) {
+      setConversations(prev => appendTurn(
+        appendTurn(prev, { studentId: student.id, role: 'student', text: draft.message, receivedAt: draft.receivedAt || undefined }),
+        { studentId: student.id, role: 'teacher', text: studentReply, arabicText: arabicReply }
+      ));
+      setStudents(prev => prev.map(s => s.id === student.id
+        ? { ...s, lastContactedAt: new Date().toISOString(), totalMessages: s.totalMessages + 1 }
+        : s));
     }
+  };
 
-    recognitionRef.current = new SpeechRecognition();
-    recognitionRef.current.continuous = false;
-    recognitionRef.current.interimResults = false;
-    recognitionRef.current.lang = 'en-US'; // Or detect based on UI
-
-    recognitionRef.current.onstart = () => setIsRecording(true);
-    recognitionRef.current.onend = () => setIsRecording(false);
-    recognitionRef.current.onerror = (event: any) => setError(`Speech recognition error: ${event.error}`);
-    recognitionRef.current.onresult = (event: any) => {
-      const transcript = event.results[0][0].transcript;
-      setStudentMessage(transcript);
-    };
-    
-    recognitionRef.current.start();
+  const handleDiscardGeneration = (item: PendingGeneration) => {
+    setRestoredGenerations(prev => prev.filter(g => g.id !== item.id));
+    pendingGenerationRepository.remove(item.id).catch(error => console.error("Could not clear the queued reply:", error));
   };
-  
-  const handleReadAloud = (text: string, langCode: 'en-US' | 'ar-SA') => {
+
+  // Loads a saved reply back into the main view as a starting draft.
+  const handleReuseReply = (reply: SavedReply) => {
+    setStudentMessage(reply.studentMessage);
+    setSelectedStudentId(students.some(s => s.id === reply.studentId) ? reply.studentId! : null);
+    setMessageType(reply.messageType);
+    setReplyTone(reply.tone);
+    setReplySentences(reply.sentences || [{ studentSentence: reply.studentReply, arabicSentence: reply.arabicReply }]);
+    setReplyLanguage(reply.language || DEFAULT_REPLY_LANGUAGE);
+    setReplyRecipient({ audience: reply.audience || 'student' });
+    setToneDescription(reply.toneDescription || '');
+    setDetectedContext(null);
+    setFollowUpSuggestion(null);
+    setReschedulePlan(undefined);
+    setVariants([]);
+    setReplyComparison(undefined);
+    setSavedReplyId(null);
+    setReplyLoggedToThread(false);
+    setError(null);
+    setView('main');
+  };
+
+  const handleAcceptFollowUp = () => {
+    setReminderDraft(followUpSuggestion);
+    setFollowUpSuggestion(null);
+    setView('reminders');
+  };
+
+  const handleReminderDraftConsumed = useCallback(() => setReminderDraft(null), []);
+
+  const dictation = useDictation({
+    onFinal: text => setStudentMessage(prev => appendTranscript(prev, text)),
+    onError: message => setError(message),
+  });
+  const voiceLanguage = resolveVoiceLanguage(settings.voiceLanguage, settings, currentStudent, detectedContext?.detectedLanguage);
+
+  // Dictation continues across pauses until the microphone is pressed again.
+  const handleVoiceInput = () => dictation.isRecording ? dictation.stop() : dictation.start(voiceLanguage);
+
+  // Voice notes are transcribed by the model provider and added to the message box.
+  const handleTranscribeFile = async (file: File) => {
+    setIsTranscribing(true);
+    setError(null);
+    try {
+      const { transcript } = await transcribeAudioFile(file, voiceLanguage, settings);
+      setStudentMessage(prev => appendTranscript(prev, transcript));
+    } catch (e: any) {
+      setError(e.message || "Failed to transcribe the recording.", e instanceof ModelError ? e.kind : undefined);
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const handleReadAloud = (text: string, language: LanguageCode) => {
     if ('speechSynthesis' in window) {
       const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = langCode;
+      // Arabic is read in the accent of the chosen variety.
+      utterance.lang = language === 'ar' ? getArabicVoice(arabicStyle) : getLanguage(language).voice;
       window.speechSynthesis.cancel();
       window.speechSynthesis.speak(utterance);
     } else {
@@ -167,16 +552,61 @@ const App: React.FC = () => {
     }
   };
 
-  const handleCopyToClipboard = (text: string, id: string, lang: 'ar' | 'en') => {
+  // Records the current reply in the student's thread; copying it counts as sending.
+  const handleLogReplySent = () => {
+    if (!selectedStudentId || replyLoggedToThread || isLoading || replySentences.length === 0) return;
+    setConversations(prev => appendTurn(prev, { studentId: selectedStudentId, role: 'teacher', text: fullStudentReply, arabicText: fullArabicReply }));
+    setReplyLoggedToThread(true);
+  };
+
+  const handleCopyToClipboard = (text: string, id: string, lang: 'ar' | 'student') => {
     navigator.clipboard.writeText(text).then(() => {
       setCopyStatus({ id, lang });
       setTimeout(() => setCopyStatus(null), 2000);
+      handleLogReplySent();
     });
   };
 
-  const fullEnglishReply = useMemo(() => replySentences.map(s => s.englishSentence).join(' '), [replySentences]);
+  const fullStudentReply = useMemo(() => replySentences.map(s => s.studentSentence).join(' '), [replySentences]);
   const fullArabicReply = useMemo(() => replySentences.map(s => s.arabicSentence).join(' '), [replySentences]);
 
+  const replyLayout: ReplyLayout = settings.replyLayout || 'arabic-student';
+  const replyLanguageInfo = getLanguage(replyLanguage);
+  const replyPlatform = getRecipientPlatform(settings, replyRecipient);
+  const formatForLayout = useCallback((layout: ReplyLayout) => formatReply(replySentences, {
+    platform: replyPlatform,
+    layout,
+    messageType,
+    teacherName: settings.teacherName,
+    signature: settings.signature,
+    studentName: getRecipientName(currentStudent, replyRecipient),
+    language: replyLanguage,
+  }), [replySentences, replyPlatform, settings.teacherName, settings.signature, messageType, currentStudent, replyRecipient, replyLanguage]);
+  const formattedReply = useMemo(() => formatForLayout(replyLayout), [formatForLayout, replyLayout]);
+
+  const currentRating = savedReplies.find(r => r.id === savedReplyId)?.rating;
+
+  const handleDownloadEml = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`reply-${date}.eml`, buildEmlFile(formattedReply, settings.teacherName, settings.teacherEmail), 'message/rfc822');
+  };
+
+  const dataSnapshot: AppDataSnapshot = useMemo(() => ({
+    settings, students, savedReplies, reminders, conversations, customTones, quickReplyTemplates: templates, analyses,
+  }), [settings, students, savedReplies, reminders, conversations, customTones, templates, analyses]);
+
+  const handleRestoreData = (data: AppDataSnapshot) => {
+    setSettings(data.settings);
+    setStudents(data.students);
+    setSavedReplies(data.savedReplies);
+    setReminders(data.reminders);
+    setConversations(data.conversations);
+    setCustomTones(data.customTones);
+    setTemplates(data.quickReplyTemplates);
+    setAnalyses(data.analyses);
+    if (selectedStudentId && !data.students.some(s => s.id === selectedStudentId)) setSelectedStudentId(null);
+  };
+
 
   // === UI COMPONENTS === (Defined inside App for simplicity)
 
@@ -203,6 +633,9 @@ const App: React.FC = () => {
             <IconButton onClick={() => setView('history')} label="Reply History" active={view === 'history'}><HistoryIcon /></IconButton>
             <IconButton onClick={() => setView('students')} label="My Students" active={view === 'students'}><UserGroupIcon /></IconButton>
             <IconButton onClick={() => setView('reminders')} label="Reminders" active={view === 'reminders'}><BellIcon /></IconButton>
+            <IconButton onClick={() => setView('templates')} label="Tones & Templates" active={view === 'templates'}><span className="text-lg leading-6">🗂️</span></IconButton>
+            <IconButton onClick={() => setView('batch')} label="Batch Inbox" active={view === 'batch'}><span className="text-lg leading-6">📥</span></IconButton>
+            <IconButton onClick={() => setView('insights')} label="Insights" active={view === 'insights'}><span className="text-lg leading-6">📊</span></IconButton>
             <span className="w-px h-6 bg-white/20"></span>
             <IconButton onClick={() => setIsSettingsOpen(true)} label="Settings"><SettingsIcon /></IconButton>
             <IconButton onClick={() => setSettings(s => ({...s, theme: s.theme === 'dark' ? 'light' : 'dark'}))} label="Toggle Theme">
@@ -211,12 +644,6 @@ const App: React.FC = () => {
         </div>
     </header>
   );
-  
-  // Dummy components for other views to keep App.tsx from getting too large in this example
-  const StudentsView = () => (<div className="text-white p-8 bg-black/20 rounded-lg">Student Management View - To be implemented</div>)
-  const RemindersView = () => (<div className="text-white p-8 bg-black/20 rounded-lg">Reminders View - To be implemented</div>)
-  const HistoryView = () => (<div className="text-white p-8 bg-black/20 rounded-lg">History View - To be implemented</div>)
-
 
   const MainView = () => (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -224,10 +651,15 @@ const App: React.FC = () => {
         <div className="flex flex-col gap-4">
             <div className="bg-secondary-dark/50 p-4 rounded-lg">
                 <label className="text-sm font-semibold text-gray-300">Student</label>
-                <select value={selectedStudentId || ''} onChange={e => setSelectedStudentId(e.target.value || null)} className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                <select value={selectedStudentId || ''} onChange={e => handleSelectStudent(e.target.value || null)} className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
                     <option value="">Select a student (optional)</option>
-                    {students.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    {activeStudents.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
                 </select>
+                {selectedStudentId && (
+                    <button onClick={() => setThreadStudentId(selectedStudentId)} className="text-xs text-gray-400 hover:text-white mt-1">
+                        🧵 View conversation ({getStudentThread(conversations, selectedStudentId).length} messages)
+                    </button>
+                )}
             </div>
 
             <div className="bg-secondary-dark/50 p-4 rounded-lg">
@@ -237,12 +669,38 @@ const App: React.FC = () => {
                         value={studentMessage}
                         onChange={(e) => setStudentMessage(e.target.value)}
                         placeholder="Paste student's message here or use voice input..."
+                        dir="auto"
                         className="w-full h-36 p-3 bg-primary-dark border border-gray-600 rounded-md text-gray-200 resize-none"
                     />
-                    <IconButton onClick={handleVoiceInput} label="Voice Input" disabled={isLoading}><MicrophoneIcon isRecording={isRecording} /></IconButton>
+                    <IconButton onClick={handleVoiceInput} label={dictation.isRecording ? "Stop dictation" : "Voice Input"} disabled={isLoading}><MicrophoneIcon isRecording={dictation.isRecording} /></IconButton>
+                 </div>
+                 {dictation.interim && <p dir="auto" className="mt-1 text-sm text-gray-400 italic">{dictation.interim}…</p>}
+                 <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+                    <label className="text-gray-400">🎙️ Speak in</label>
+                    <select value={settings.voiceLanguage || AUTO_VOICE_LANGUAGE} onChange={e => setSettings(s => ({ ...s, voiceLanguage: e.target.value }))} disabled={dictation.isRecording} aria-label="Voice input language" className="p-1 bg-primary-dark border border-gray-600 rounded-md text-white">
+                        {VOICE_LANGUAGE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.value === AUTO_VOICE_LANGUAGE ? `${o.label} (${voiceLanguage})` : o.label}</option>)}
+                    </select>
+                    <label className={`ml-auto px-2 py-1 rounded bg-white/10 text-gray-200 ${isTranscribing || isLoading ? 'opacity-50' : 'cursor-pointer hover:bg-white/20'}`}>
+                        {isTranscribing ? 'Transcribing…' : '📎 Transcribe voice note'}
+                        <input type="file" accept="audio/*,.opus,.ogg,.m4a" className="hidden" disabled={isTranscribing || isLoading} onChange={e => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) handleTranscribeFile(file);
+                        }} />
+                    </label>
                  </div>
             </div>
 
+            {sortedTemplates.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {sortedTemplates.map(t => (
+                        <button key={t.id} onClick={() => handleTemplateChip(t)} disabled={isLoading} title={t.message} className="px-3 py-1 rounded-full text-sm bg-white/10 text-gray-200 hover:bg-accent-teal/30 disabled:opacity-50">
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
              <div className="bg-secondary-dark/50 p-4 rounded-lg grid grid-cols-2 gap-4">
                 <div>
                     <label className="text-sm font-semibold text-gray-300">Message Type</label>
@@ -252,69 +710,217 @@ const App: React.FC = () => {
                 </div>
                  <div>
                     <label className="text-sm font-semibold text-gray-300">Reply Tone</label>
-                    <select value={replyTone} onChange={e => setReplyTone(e.target.value as ReplyTone)} className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
-                        {TONE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    <select value={replyTone} onChange={e => setReplyTone(e.target.value)} className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                        {toneOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
                     </select>
                 </div>
+                <div className="col-span-2 flex flex-wrap items-center gap-2">
+                    <label className="text-sm font-semibold text-gray-300">⚖️ Compare</label>
+                    <select value={compareMode} onChange={e => handleCompareModeChange(e.target.value as CompareMode | 'off')} className="p-1 text-sm bg-primary-dark border border-gray-600 rounded-md text-white">
+                        <option value="off">Off — one reply</option>
+                        <option value="tones">Different tones</option>
+                        <option value="temperature">Same tone, varied wording</option>
+                        <option value="paired">Child & parent versions</option>
+                    </select>
+                    {compareMode === 'temperature' && (
+                        <select value={variantCount} onChange={e => setVariantCount(Number(e.target.value))} aria-label="Number of variants" className="p-1 text-sm bg-primary-dark border border-gray-600 rounded-md text-white">
+                            {Array.from({ length: MAX_REPLY_VARIANTS - MIN_REPLY_VARIANTS + 1 }, (_, i) => MIN_REPLY_VARIANTS + i).map(n => <option key={n} value={n}>{n} variants</option>)}
+                        </select>
+                    )}
+                </div>
+                {compareMode === 'tones' && (
+                    <div className="col-span-2 flex flex-wrap gap-2">
+                        {toneOptions.map(o => (
+                            <button key={o.value} onClick={() => toggleCompareTone(o.value)} aria-pressed={compareTones.includes(o.value)} className={`px-3 py-1 rounded-full text-sm ${compareTones.includes(o.value) ? 'bg-accent-teal/40 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}>
+                                {o.label}
+                            </button>
+                        ))}
+                        <span className="text-xs text-gray-400 self-center">Pick {MIN_REPLY_VARIANTS}–{MAX_REPLY_VARIANTS}</span>
+                    </div>
+                )}
             </div>
 
             {detectedContext && (
                  <div className="text-center text-sm text-cyan-200">
                     🔍 Detected: {detectedContext.messageType} — Sentiment: {detectedContext.sentiment}
+                    {detectedContext.detectedLanguage !== 'unknown' && ` — Language: ${getLanguage(detectedContext.detectedLanguage).name}`}
+                    {detectedContext.sender === 'guardian' && ` — From: ${replyRecipient.guardian ? describeGuardian(replyRecipient.guardian) : 'a parent or guardian'}`}
+                    <span className="block text-xs opacity-80">Replying in Arabic ({describeArabicStyle(arabicStyle)}) & {replyLanguageInfo.name}</span>
+                </div>
+            )}
+
+            {detectedContext?.sender === 'guardian' && compareMode !== 'paired' && !isLoading && (
+                <div className="flex items-center justify-between gap-3 bg-accent-teal/10 border border-accent-teal/30 p-3 rounded-lg text-sm text-gray-200">
+                    <span>👪 A parent wrote this message. Also draft a kid-friendly reply for {currentStudent?.name || 'the child'}?</span>
+                    <button onClick={() => { handleCompareModeChange('paired'); handleGenerateReply(undefined, undefined, 'paired'); }} className="shrink-0 px-2 py-1 rounded bg-accent-teal/30 hover:bg-accent-teal/50 font-semibold">Draft both</button>
+                </div>
+            )}
+
+            {reschedulePlan && (
+                <ReschedulePanel plan={reschedulePlan} teacherName={settings.teacherName} studentName={currentStudent?.name} />
+            )}
+
+            {detectedContext?.messageType === MessageType.PAYMENT && currentStudent && (
+                <PaymentPanel student={currentStudent} settings={settings} disabled={isLoading} onRecordPayment={handleRecordPayment} onRegenerate={intent => handleGenerateReply(undefined, intent)} />
+            )}
+
+            {followUpSuggestion && (
+                <div className="flex items-center justify-between gap-3 bg-purple-900/40 border border-purple-400/30 p-3 rounded-lg text-sm text-purple-100">
+                    <span>⏰ {followUpSuggestion.message} <span className="opacity-70">({new Date(followUpSuggestion.remindAt).toLocaleDateString()})</span></span>
+                    <div className="flex gap-2 shrink-0">
+                        <button onClick={handleAcceptFollowUp} className="px-2 py-1 rounded bg-purple-500/40 hover:bg-purple-500/60 font-semibold">Set reminder</button>
+                        <IconButton onClick={() => setFollowUpSuggestion(null)} label="Dismiss follow-up"><CloseIcon className="w-4 h-4" /></IconButton>
+                    </div>
                 </div>
             )}
             
-            <button onClick={() => handleGenerateReply()} disabled={isLoading} className="flex items-center justify-center w-full p-3 bg-accent-teal hover:bg-accent-teal-dark rounded-lg text-white font-bold text-lg transition-transform duration-200 hover:scale-105 disabled:bg-gray-500 disabled:scale-100">
-                {isLoading ? 'Thinking...' : '✨ Generate Bilingual Reply'}
-            </button>
+            {(requestStatus.offline || requestStatus.throttled > 0) && (
+                <div role="status" className="bg-amber-900/40 border border-amber-400/30 p-3 rounded-lg text-sm text-amber-100">
+                    {requestStatus.offline
+                        ? `📴 You're offline.${requestStatus.queued > 0 ? ` ${requestStatus.queued} request${requestStatus.queued === 1 ? ' is' : 's are'} queued and will be sent when you reconnect.` : ' Replies will be drafted once you reconnect.'}`
+                        : "⏳ Waiting a moment to stay within the AI provider's rate limit…"}
+                    {requestStatus.offline && requestStatus.queued > 0 && <span className="block text-xs opacity-70 mt-1">A reply queued here is kept if you close the app; queued batch inbox drafts are not.</span>}
+                </div>
+            )}
+
+            {restoredGenerations.length > 0 && (
+                <div className="flex flex-col gap-2 bg-amber-900/40 border border-amber-400/30 p-3 rounded-lg text-sm text-amber-100">
+                    <span>📥 {restoredGenerations.length === 1 ? 'A reply was' : `${restoredGenerations.length} replies were`} still waiting for a connection when the app was closed.{requestStatus.offline ? ' Drafting resumes once you are back online.' : ''}</span>
+                    <ul className="flex flex-col gap-1">
+                        {restoredGenerations.map(item => {
+                            const studentName = students.find(s => s.id === item.studentId)?.name;
+                            return (
+                                <li key={item.id} className="flex items-center justify-between gap-2">
+                                    <span className="truncate">{studentName && <strong>{studentName}: </strong>}{item.message}</span>
+                                    <div className="flex gap-2 shrink-0">
+                                        <button onClick={() => handleResumeGeneration(item)} disabled={isLoading || requestStatus.offline} className="px-2 py-1 rounded bg-amber-500/30 hover:bg-amber-500/50 font-semibold disabled:opacity-50 disabled:cursor-not-allowed">Draft now</button>
+                                        <button onClick={() => handleDiscardGeneration(item)} className="px-2 py-1 rounded hover:bg-white/10">Discard</button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
+
+            {error && (
+                <div role="alert" className="flex items-center justify-between gap-3 bg-red-900/40 border border-red-400/30 p-3 rounded-lg text-sm text-red-100">
+                    <span>
+                        ⚠️ {error.kind && <strong>{MODEL_ERROR_TITLES[error.kind]}: </strong>}{error.message}
+                        {error.kind === 'quota' && <button onClick={() => setIsSettingsOpen(true)} className="ml-2 underline hover:text-white">Open Settings</button>}
+                    </span>
+                    <IconButton onClick={() => setError(null)} label="Dismiss error"><CloseIcon className="w-4 h-4" /></IconButton>
+                </div>
+            )}
+
+            {isLoading ? (
+                <button onClick={handleCancelGeneration} className="flex items-center justify-center w-full p-3 bg-red-700 hover:bg-red-800 rounded-lg text-white font-bold text-lg">
+                    ✕ Cancel
+                </button>
+            ) : (
+                <button onClick={() => handleGenerateReply()} className="flex items-center justify-center w-full p-3 bg-accent-teal hover:bg-accent-teal-dark rounded-lg text-white font-bold text-lg transition-transform duration-200 hover:scale-105">
+                    {compareMode === 'off' ? '✨ Generate Bilingual Reply' : compareMode === 'paired' ? '👪 Generate Child & Parent Replies' : '⚖️ Generate Variants to Compare'}
+                </button>
+            )}
         </div>
 
         {/* Right Column: Outputs */}
         <div className="flex flex-col gap-4">
             {(isLoading || replySentences.length > 0) ? (
             <div className="bg-secondary-dark/50 p-4 rounded-lg min-h-[500px]">
-                {isLoading && !replySentences.length && <div>Loading...</div>}
+                {isLoading && <div className="mb-4"><ProgressTracker progress={progress} /></div>}
                 {replySentences.length > 0 && (
                     <>
                         <div className="flex justify-between items-center mb-4">
                             <h3 className="text-lg font-bold text-white">AI Generated Reply</h3>
-                             <span className="text-sm font-semibold bg-green-900 text-green-200 px-3 py-1 rounded-full">{toneDescription}</span>
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm font-semibold bg-green-900 text-green-200 px-3 py-1 rounded-full">{toneDescription}</span>
+                                <IconButton onClick={() => handleSaveReply()} label={savedReplyId ? "Saved" : "Save Reply"} disabled={isLoading || !!savedReplyId} active={!!savedReplyId}><SaveIcon /></IconButton>
+                                <IconButton onClick={() => handleRateReply('up')} label="Good reply" disabled={isLoading} active={currentRating === 'up'}><ThumbUpIcon /></IconButton>
+                                <IconButton onClick={() => handleRateReply('down')} label="Poor reply" disabled={isLoading} active={currentRating === 'down'}><ThumbDownIcon /></IconButton>
+                            </div>
                         </div>
+                        <ReplyEditor
+                            sentences={replySentences}
+                            setSentences={handleEditSentences}
+                            readOnly={isLoading}
+                            tone={resolveTone(replyTone, customTones)}
+                            platform={replyPlatform}
+                            language={replyLanguage}
+                            arabicStyle={arabicStyle}
+                            onError={setError}
+                        />
                         <div className="grid grid-cols-2 gap-4">
-                            <div>
-                                <h4 className="font-semibold text-white mb-2">English 🇬🇧</h4>
-                                <div className="p-2 bg-primary-dark rounded-md border border-gray-600 space-y-1">
-                                    {replySentences.map((s, i) => <p key={i} className="text-gray-300">{s.englishSentence}</p>)}
-                                </div>
-                                <button onClick={() => handleCopyToClipboard(fullEnglishReply, 'full-en', 'en')} className="text-xs text-gray-400 mt-1">Copy All</button>
+                            <div dir={replyLanguageInfo.rtl ? 'rtl' : 'ltr'} className="flex gap-3 text-xs text-gray-400 mt-1">
+                                <button onClick={() => handleCopyToClipboard(formatForLayout('student').body, 'full-student', 'student')}>{copyStatus?.id === 'full-student' ? 'Copied!' : `Copy All (${replyLanguageInfo.name})`}</button>
+                                <button onClick={() => handleReadAloud(fullStudentReply, replyLanguage)} aria-label={`Read the ${replyLanguageInfo.name} reply aloud`}>🔊</button>
                             </div>
-                            <div dir="rtl">
-                                 <h4 className="font-semibold text-white mb-2">Arabic 🇸🇦</h4>
-                                <div className="p-2 bg-primary-dark rounded-md border border-gray-600 space-y-1 font-arabic">
-                                    {replySentences.map((s, i) => <p key={i} className="text-gray-300">{s.arabicSentence}</p>)}
-                                </div>
-                                <button onClick={() => handleCopyToClipboard(fullArabicReply, 'full-ar', 'ar')} className="text-xs text-gray-400 mt-1">Copy All</button>
+                            <div dir="rtl" className="flex gap-3 text-xs text-gray-400 mt-1">
+                                <button onClick={() => handleCopyToClipboard(formatForLayout('arabic').body, 'full-ar', 'ar')}>{copyStatus?.id === 'full-ar' ? 'تم النسخ!' : 'نسخ الكل'}</button>
+                                <button onClick={() => handleReadAloud(fullArabicReply, 'ar')} aria-label="Read the Arabic reply aloud">🔊</button>
                             </div>
                         </div>
+                        {!isLoading && (
+                            <div className="mt-6">
+                                <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                                    <h4 className="font-semibold text-white">Formatted for {replyPlatform}</h4>
+                                    <select value={replyLayout} onChange={e => setSettings(s => ({ ...s, replyLayout: e.target.value as ReplyLayout }))} className="p-1 text-sm bg-primary-dark border border-gray-600 rounded-md text-white">
+                                        {LAYOUT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                    </select>
+                                </div>
+                                {formattedReply.subject && <p className="text-sm text-gray-400 mb-1"><strong>Subject:</strong> {formattedReply.subject}</p>}
+                                <pre className="p-3 bg-primary-dark rounded-md border border-gray-600 text-gray-300 text-sm whitespace-pre-wrap font-sans max-h-72 overflow-y-auto">{formattedReply.body}</pre>
+                                {formattedReply.warnings.map(w => <p key={w} className="text-xs text-yellow-300 mt-1">⚠️ {w}</p>)}
+                                <div className="flex flex-wrap gap-2 mt-2 text-sm">
+                                    <button onClick={() => handleCopyToClipboard(formattedReply.body, 'formatted', 'student')} className="flex items-center gap-1 px-3 py-1 rounded bg-accent-teal/20 text-accent-teal hover:bg-accent-teal/30">
+                                        <CopyIcon className="w-4 h-4" /> {copyStatus?.id === 'formatted' ? 'Copied!' : 'Copy All'}
+                                    </button>
+                                    {selectedStudentId && (
+                                        <button onClick={handleLogReplySent} disabled={replyLoggedToThread} className="px-3 py-1 rounded text-gray-300 hover:bg-white/10 disabled:opacity-60">
+                                            {replyLoggedToThread ? '🧵 Logged to thread' : '🧵 Mark as sent'}
+                                        </button>
+                                    )}
+                                    {replyPlatform === IntegrationPlatform.EMAIL && (
+                                        <>
+                                            <a href={buildMailtoLink(formattedReply)} className="px-3 py-1 rounded text-gray-300 hover:bg-white/10">✉️ Open in Mail</a>
+                                            <button onClick={handleDownloadEml} className="flex items-center gap-1 px-3 py-1 rounded text-gray-300 hover:bg-white/10"><ExportIcon className="w-4 h-4" /> Download .eml</button>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        )}
                     </>
                 )}
             </div>
             ) : (
                  <div className="flex items-center justify-center bg-secondary-dark/50 p-4 rounded-lg min-h-[500px] text-gray-400">
-                    Your generated reply will appear here.
+                    {variants.length > 0 ? 'Use one of the variants below, or merge sentences from several.' : 'Your generated reply will appear here.'}
                  </div>
             )}
         </div>
+
+        {variants.length > 0 && (
+            <div className="lg:col-span-2">
+                <VariantComparison key={variantRun} variants={variants} toneOptions={toneOptions} language={replyLanguage} disabled={isLoading} onPick={handlePickVariant} onMerge={handleMergeVariants} />
+            </div>
+        )}
     </div>
   )
 
+  const threadStudent = students.find(s => s.id === threadStudentId);
+
   const renderView = () => {
       switch(view) {
-          case 'main': return <MainView />;
-          case 'history': return <HistoryView />;
-          case 'students': return <StudentsView />;
-          case 'reminders': return <RemindersView />;
-          default: return <MainView />;
+          // Called directly rather than as <MainView />: it is redefined on every render,
+          // and remounting it would drop focus from the message box and sentence editor.
+          case 'main': return MainView();
+          case 'history': return <HistoryView savedReplies={savedReplies} setSavedReplies={setSavedReplies} students={students} onReuse={handleReuseReply} toneOptions={toneOptions} />;
+          case 'students': return <StudentsView students={students} setStudents={setStudents} onUseStudent={handleUseStudent} onDeleteStudent={handleDeleteStudent} onOpenThread={setThreadStudentId} toneOptions={toneOptions} settings={settings} />;
+          case 'templates': return <TemplatesView customTones={customTones} setCustomTones={setCustomTones} templates={templates} setTemplates={setTemplates} />;
+          case 'batch': return <BatchInboxView drafts={batchDrafts} setDrafts={setBatchDrafts} students={students} conversations={conversations} customTones={customTones} settings={settings} exampleBank={exampleBank} onApprove={handleApproveBatchDraft} />;
+          case 'insights': return <InsightsView analyses={analyses} students={students} conversations={conversations} onUseStudent={handleUseStudent} onOpenThread={setThreadStudentId} />;
+          case 'reminders': return <RemindersView reminders={reminders} setReminders={setReminders} students={students} draft={reminderDraft} onDraftConsumed={handleReminderDraftConsumed} />;
+          default: return MainView();
       }
   }
 
@@ -323,8 +929,24 @@ const App: React.FC = () => {
       <div className="max-w-7xl mx-auto">
         <Header />
         <main>
-            {renderView()}
+            {isDataLoaded ? renderView() : (
+                <div className="flex items-center justify-center min-h-[300px] text-gray-400 animate-pulse">Loading your data…</div>
+            )}
         </main>
+        {threadStudent && (
+            <ConversationThread
+                student={threadStudent}
+                conversations={conversations}
+                setConversations={setConversations}
+                windowSize={settings.threadWindow ?? DEFAULT_THREAD_WINDOW}
+                onClose={() => setThreadStudentId(null)}
+            />
+        )}
+        {isSettingsOpen && (
+          <SettingsModal settings={settings} onSave={setSettings} onClose={() => setIsSettingsOpen(false)}>
+            <BackupPanel snapshot={dataSnapshot} onRestore={handleRestoreData} />
+          </SettingsModal>
+        )}
         <footer className="text-center mt-8">
             <div className="bg-black/20 p-3 rounded-lg inline-block shadow-md border border-white/10">
                 <p className="text-gray-400 text-sm">💡 <strong>Smart Tip:</strong> {currentTip}</p>
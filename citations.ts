@@ -0,0 +1,204 @@
+import { Citation } from './types';
+
+/**
+ * Verified quotations the AI may cite by id. The Arabic is the standard
+ * vocalised text; translations follow Sahih International for the Qur'an.
+ * Add entries only after checking the wording and reference against a
+ * printed mushaf or hadith collection.
+ */
+export const CITATIONS: Citation[] = [
+    // === Qur'an ===
+    {
+        id: 'quran-94-5',
+        kind: 'quran',
+        arabic: 'فَإِنَّ مَعَ الْعُسْرِ يُسْرًا إِنَّ مَعَ الْعُسْرِ يُسْرًا',
+        translation: 'For indeed, with hardship [will be] ease. Indeed, with hardship [will be] ease.',
+        reference: "Qur'an 94:5-6",
+        referenceArabic: 'الشرح: 5-6',
+        themes: ['hardship', 'ease', 'encouragement', 'illness'],
+    },
+    {
+        id: 'quran-2-286',
+        kind: 'quran',
+        arabic: 'لَا يُكَلِّفُ اللَّهُ نَفْسًا إِلَّا وُسْعَهَا',
+        translation: 'Allah does not charge a soul except [with that within] its capacity.',
+        reference: "Qur'an 2:286 (part)",
+        referenceArabic: 'البقرة: 286',
+        themes: ['hardship', 'ease', 'encouragement'],
+    },
+    {
+        id: 'quran-20-114',
+        kind: 'quran',
+        arabic: 'وَقُل رَّبِّ زِدْنِي عِلْمًا',
+        translation: 'And say, "My Lord, increase me in knowledge."',
+        reference: "Qur'an 20:114 (part)",
+        referenceArabic: 'طه: 114',
+        themes: ['learning', 'dua', 'beginning'],
+    },
+    {
+        id: 'quran-54-17',
+        kind: 'quran',
+        arabic: 'وَلَقَدْ يَسَّرْنَا الْقُرْآنَ لِلذِّكْرِ فَهَلْ مِن مُّدَّكِرٍ',
+        translation: 'And We have certainly made the Qur\'an easy for remembrance, so is there any who will remember?',
+        reference: "Qur'an 54:17",
+        referenceArabic: 'القمر: 17',
+        themes: ['quran', 'learning', 'encouragement', 'beginning'],
+    },
+    {
+        id: 'quran-73-4',
+        kind: 'quran',
+        arabic: 'وَرَتِّلِ الْقُرْآنَ تَرْتِيلًا',
+        translation: 'And recite the Qur\'an with measured recitation.',
+        reference: "Qur'an 73:4 (part)",
+        referenceArabic: 'المزمل: 4',
+        themes: ['quran', 'learning', 'progress'],
+    },
+    {
+        id: 'quran-96-1',
+        kind: 'quran',
+        arabic: 'اقْرَأْ بِاسْمِ رَبِّكَ الَّذِي خَلَقَ',
+        translation: 'Recite in the name of your Lord who created.',
+        reference: "Qur'an 96:1",
+        referenceArabic: 'العلق: 1',
+        themes: ['quran', 'beginning', 'learning'],
+    },
+    {
+        id: 'quran-13-28',
+        kind: 'quran',
+        arabic: 'أَلَا بِذِكْرِ اللَّهِ تَطْمَئِنُّ الْقُلُوبُ',
+        translation: 'Unquestionably, by the remembrance of Allah hearts are assured.',
+        reference: "Qur'an 13:28 (part)",
+        referenceArabic: 'الرعد: 28',
+        themes: ['hardship', 'comfort'],
+    },
+    {
+        id: 'quran-2-153',
+        kind: 'quran',
+        arabic: 'إِنَّ اللَّهَ مَعَ الصَّابِرِينَ',
+        translation: 'Indeed, Allah is with the patient.',
+        reference: "Qur'an 2:153 (part)",
+        referenceArabic: 'البقرة: 153',
+        themes: ['patience', 'hardship', 'rescheduling'],
+    },
+    {
+        id: 'quran-65-3',
+        kind: 'quran',
+        arabic: 'وَمَن يَتَوَكَّلْ عَلَى اللَّهِ فَهُوَ حَسْبُهُ',
+        translation: 'And whoever relies upon Allah - then He is sufficient for him.',
+        reference: "Qur'an 65:3 (part)",
+        referenceArabic: 'الطلاق: 3',
+        themes: ['hardship', 'provision', 'comfort'],
+    },
+    {
+        id: 'quran-14-7',
+        kind: 'quran',
+        arabic: 'لَئِن شَكَرْتُمْ لَأَزِيدَنَّكُمْ',
+        translation: 'If you are grateful, I will surely increase you [in favor].',
+        reference: "Qur'an 14:7 (part)",
+        referenceArabic: 'إبراهيم: 7',
+        themes: ['gratitude', 'provision'],
+    },
+    {
+        id: 'quran-39-53',
+        kind: 'quran',
+        arabic: 'لَا تَقْنَطُوا مِن رَّحْمَةِ اللَّهِ',
+        translation: 'Do not despair of the mercy of Allah.',
+        reference: "Qur'an 39:53 (part)",
+        referenceArabic: 'الزمر: 53',
+        themes: ['hardship', 'encouragement', 'comfort'],
+    },
+    {
+        id: 'quran-2-201',
+        kind: 'quran',
+        arabic: 'رَبَّنَا آتِنَا فِي الدُّنْيَا حَسَنَةً وَفِي الْآخِرَةِ حَسَنَةً وَقِنَا عَذَابَ النَّارِ',
+        translation: 'Our Lord, give us in this world [that which is] good and in the Hereafter [that which is] good and protect us from the punishment of the Fire.',
+        reference: "Qur'an 2:201",
+        referenceArabic: 'البقرة: 201',
+        themes: ['dua', 'provision', 'farewell'],
+    },
+    {
+        id: 'quran-20-25',
+        kind: 'quran',
+        arabic: 'رَبِّ اشْرَحْ لِي صَدْرِي وَيَسِّرْ لِي أَمْرِي وَاحْلُلْ عُقْدَةً مِّن لِّسَانِي يَفْقَهُوا قَوْلِي',
+        translation: 'My Lord, expand for me my breast [with assurance] and ease for me my task and untie the knot from my tongue that they may understand my speech.',
+        reference: "Qur'an 20:25-28",
+        referenceArabic: 'طه: 25-28',
+        themes: ['dua', 'learning', 'recitation', 'beginning'],
+    },
+
+    // === Hadith ===
+    {
+        id: 'hadith-bukhari-5027',
+        kind: 'hadith',
+        arabic: 'خَيْرُكُمْ مَنْ تَعَلَّمَ الْقُرْآنَ وَعَلَّمَهُ',
+        translation: 'The best of you are those who learn the Qur\'an and teach it.',
+        reference: 'Sahih al-Bukhari 5027',
+        referenceArabic: 'رواه البخاري',
+        themes: ['quran', 'learning', 'beginning', 'encouragement'],
+    },
+    {
+        id: 'hadith-bukhari-1',
+        kind: 'hadith',
+        arabic: 'إِنَّمَا الْأَعْمَالُ بِالنِّيَّاتِ',
+        translation: 'Actions are only by intentions.',
+        reference: 'Sahih al-Bukhari 1 (part)',
+        referenceArabic: 'رواه البخاري',
+        themes: ['beginning', 'intention'],
+    },
+    {
+        id: 'hadith-muslim-2699',
+        kind: 'hadith',
+        arabic: 'مَنْ سَلَكَ طَرِيقًا يَلْتَمِسُ فِيهِ عِلْمًا سَهَّلَ اللَّهُ لَهُ بِهِ طَرِيقًا إِلَى الْجَنَّةِ',
+        translation: 'Whoever takes a path seeking knowledge, Allah will make easy for him a path to Paradise.',
+        reference: 'Sahih Muslim 2699 (part)',
+        referenceArabic: 'رواه مسلم',
+        themes: ['learning', 'encouragement', 'beginning'],
+    },
+    {
+        id: 'hadith-muslim-798',
+        kind: 'hadith',
+        arabic: 'الْمَاهِرُ بِالْقُرْآنِ مَعَ السَّفَرَةِ الْكِرَامِ الْبَرَرَةِ وَالَّذِي يَقْرَأُ الْقُرْآنَ وَيَتَتَعْتَعُ فِيهِ وَهُوَ عَلَيْهِ شَاقٌّ لَهُ أَجْرَانِ',
+        translation: 'The one who is proficient in the Qur\'an is with the noble and righteous scribes, and the one who recites the Qur\'an and stumbles over it, finding it difficult, will have a double reward.',
+        reference: 'Sahih Muslim 798',
+        referenceArabic: 'رواه مسلم',
+        themes: ['quran', 'recitation', 'encouragement', 'progress', 'hardship'],
+    },
+    {
+        id: 'hadith-muslim-783',
+        kind: 'hadith',
+        arabic: 'أَحَبُّ الْأَعْمَالِ إِلَى اللَّهِ تَعَالَى أَدْوَمُهَا وَإِنْ قَلَّ',
+        translation: 'The most beloved of deeds to Allah are those done consistently, even if they are few.',
+        reference: 'Sahih Muslim 783 (part)',
+        referenceArabic: 'رواه مسلم',
+        themes: ['consistency', 'progress', 'encouragement', 'absence'],
+    },
+    {
+        id: 'hadith-muslim-804',
+        kind: 'hadith',
+        arabic: 'اقْرَءُوا الْقُرْآنَ فَإِنَّهُ يَأْتِي يَوْمَ الْقِيَامَةِ شَفِيعًا لِأَصْحَابِهِ',
+        translation: 'Recite the Qur\'an, for on the Day of Resurrection it will come as an intercessor for its companions.',
+        reference: 'Sahih Muslim 804 (part)',
+        referenceArabic: 'رواه مسلم',
+        themes: ['quran', 'recitation', 'encouragement'],
+    },
+
+    // === Du'as ===
+    {
+        id: 'dua-ibn-majah-925',
+        kind: 'dua',
+        arabic: 'اللَّهُمَّ إِنِّي أَسْأَلُكَ عِلْمًا نَافِعًا وَرِزْقًا طَيِّبًا وَعَمَلًا مُتَقَبَّلًا',
+        translation: 'O Allah, I ask You for beneficial knowledge, good provision and accepted deeds.',
+        reference: 'Sunan Ibn Majah 925',
+        referenceArabic: 'رواه ابن ماجه',
+        themes: ['dua', 'learning', 'provision'],
+    },
+    {
+        id: 'dua-bukhari-5743',
+        kind: 'dua',
+        arabic: 'اللَّهُمَّ رَبَّ النَّاسِ أَذْهِبِ الْبَاسَ اشْفِهِ وَأَنْتَ الشَّافِي لَا شِفَاءَ إِلَّا شِفَاؤُكَ شِفَاءً لَا يُغَادِرُ سَقَمًا',
+        translation: 'O Allah, Lord of mankind, remove the harm and heal him, for You are the Healer. There is no healing except Your healing, a healing that leaves no illness behind.',
+        reference: 'Sahih al-Bukhari 5743',
+        referenceArabic: 'رواه البخاري',
+        themes: ['illness', 'dua', 'absence'],
+    },
+];
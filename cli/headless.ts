@@ -0,0 +1,154 @@
+import { readFile } from 'node:fs/promises';
+import { AppDataSnapshot, CustomTone, IntegrationPlatform, LanguageCode, MessageSender, MessageType, ReplyLayout, ReplyTone, Sentiment } from '../types';
+import { DEFAULT_SETTINGS, DEFAULT_THREAD_WINDOW, LAYOUT_OPTIONS } from '../constants';
+import { parseBackup } from '../services/backupService';
+import { buildConversationContext } from '../services/conversationService';
+import { buildExampleBank } from '../services/feedbackService';
+import { formatReply } from '../services/replyFormatter';
+import { draftReply } from '../services/replyPipeline';
+import { BilingualReplySentence } from '../services/geminiService';
+import { getRecipientName, getRecipientPlatform } from '../services/guardianService';
+
+export type OutputFormat = 'json' | 'text';
+
+/** One message to draft a reply for, as given on the command line or posted to the server. */
+export interface HeadlessRequest {
+    message: string;
+    tone?: string;
+    platform?: string;
+    // A student's id or name from the loaded data.
+    student?: string;
+    language?: LanguageCode;
+    layout?: string;
+}
+
+export interface HeadlessResult {
+    messageType: MessageType;
+    sentiment: Sentiment;
+    detectedLanguage: string;
+    // 'guardian' when a parent wrote; the reply is then addressed to them.
+    sender: MessageSender;
+    language: LanguageCode;
+    tone: string;
+    platform: IntegrationPlatform;
+    studentId?: string;
+    subject?: string;
+    body: string;
+    sentences: BilingualReplySentence[];
+    warnings: string[];
+}
+
+/** A request that names an unknown tone, platform, student or layout. */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+export const EMPTY_DATA: AppDataSnapshot = {
+    settings: DEFAULT_SETTINGS,
+    students: [],
+    savedReplies: [],
+    reminders: [],
+    conversations: [],
+    customTones: [],
+    quickReplyTemplates: [],
+    analyses: [],
+};
+
+/** Settings, students and custom tones from a backup file exported in the app. */
+export const loadData = async (path?: string): Promise<AppDataSnapshot> => {
+    if (!path) return EMPTY_DATA;
+    return parseBackup(await readFile(path, 'utf8'));
+};
+
+// "Warm & Motivational", "WARM_MOTIVATIONAL" and "warm-motivational" all name the same tone.
+const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const matchEnum = <T extends string>(values: Record<string, T>, name: string): T | undefined => {
+    const key = normalize(name);
+    const entry = Object.entries(values).find(([k, v]) => normalize(k) === key || normalize(v) === key);
+    return entry?.[1];
+};
+
+export const resolveToneName = (name: string | undefined, customTones: CustomTone[]): ReplyTone | CustomTone => {
+    if (!name) return ReplyTone.FRIENDLY;
+    const tone = matchEnum(ReplyTone, name) || customTones.find(t => t.id === name || normalize(t.name) === normalize(name));
+    if (!tone) {
+        const known = [...Object.values(ReplyTone), ...customTones.map(t => t.name)].join(', ');
+        throw new UsageError(`Unknown tone "${name}". Use one of: ${known}.`);
+    }
+    return tone;
+};
+
+const resolvePlatform = (name: string | undefined, fallback: IntegrationPlatform): IntegrationPlatform => {
+    if (!name) return fallback;
+    const platform = matchEnum(IntegrationPlatform, name);
+    if (!platform) throw new UsageError(`Unknown platform "${name}". Use one of: ${Object.values(IntegrationPlatform).join(', ')}.`);
+    return platform;
+};
+
+const resolveLayout = (name: string | undefined, fallback: ReplyLayout): ReplyLayout => {
+    if (!name) return fallback;
+    const layout = LAYOUT_OPTIONS.find(o => o.value === name)?.value;
+    if (!layout) throw new UsageError(`Unknown layout "${name}". Use one of: ${LAYOUT_OPTIONS.map(o => o.value).join(', ')}.`);
+    return layout;
+};
+
+/**
+ * Drafts a reply the same way the app does, using the thread, notes, ledger
+ * and rated replies from `data` when the message is from a known student.
+ */
+export const runHeadlessReply = async (request: HeadlessRequest, data: AppDataSnapshot, signal?: AbortSignal): Promise<HeadlessResult> => {
+    const message = request.message?.trim();
+    if (!message) throw new UsageError("The message is empty.");
+
+    const tone = resolveToneName(request.tone, data.customTones);
+    const settings = { ...data.settings, platform: resolvePlatform(request.platform, data.settings.platform) };
+    const layout = resolveLayout(request.layout, settings.replyLayout || 'arabic-student');
+    const student = request.student
+        ? data.students.find(s => s.id === request.student || s.name.toLowerCase() === request.student!.toLowerCase())
+        : undefined;
+    if (request.student && !student) throw new UsageError(`No student named "${request.student}" in the loaded data.`);
+    if (request.language === 'ar') throw new UsageError("Arabic is always one side of the reply; choose the language to pair it with.");
+
+    const { context, recipient, language, reply } = await draftReply({
+        message,
+        tone,
+        settings,
+        student,
+        conversation: buildConversationContext(data.conversations, student, settings.threadWindow ?? DEFAULT_THREAD_WINDOW),
+        language: request.language,
+        exampleBank: settings.learnFromRatings === false ? undefined : buildExampleBank(data.savedReplies),
+        signal,
+    });
+    const platform = getRecipientPlatform(settings, recipient);
+    const formatted = formatReply(reply.sentences, {
+        platform,
+        layout,
+        messageType: context.messageType,
+        teacherName: settings.teacherName,
+        signature: settings.signature,
+        studentName: getRecipientName(student, recipient),
+        language,
+    });
+    return {
+        messageType: context.messageType,
+        sentiment: context.sentiment,
+        detectedLanguage: context.detectedLanguage,
+        sender: context.sender,
+        language,
+        tone: typeof tone === 'string' ? tone : tone.name,
+        platform,
+        studentId: student?.id,
+        subject: formatted.subject,
+        body: formatted.body,
+        sentences: reply.sentences,
+        warnings: formatted.warnings,
+    };
+};
+
+/** The reply ready to paste, with the subject line first for email. */
+export const renderText = (result: HeadlessResult): string =>
+    result.subject ? `Subject: ${result.subject}\n\n${result.body}` : result.body;
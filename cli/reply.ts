@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { ModelProviderId } from '../types';
+import { configureModelProvider, getProviderConfig } from '../services/modelProvider';
+import { setResponseCacheEnabled } from '../services/responseCache';
+import { ModelError } from '../services/modelErrors';
+import { OutputFormat, UsageError, loadData, renderText, runHeadlessReply } from './headless';
+import { createReplyServer } from './server';
+
+const DEFAULT_PORT = 8787;
+
+const USAGE = `Drafts a bilingual reply to a student message read from stdin.
+
+Usage:
+  reply [options] < message.txt
+  reply --serve [--port ${DEFAULT_PORT}] [options]
+
+Options:
+  --tone <name>        Friendly (default), Professional, "Warm & Motivational", "Brief & Direct",
+                       "Islamic (Spiritual)", "For Kids", or a custom tone from --data
+  --platform <name>    WhatsApp, Email or "Generic Chat" (default: from --data, else WhatsApp)
+  --student <name|id>  Use this student's thread, notes, language and ledger (needs --data)
+  --language <code>    Pair Arabic with this language instead of detecting it, e.g. en, fr, ur
+  --layout <layout>    student, arabic, arabic-student (default) or interleaved
+  --format <format>    text (default) or json
+  --data <file>        A backup exported from Settings → Backup for settings, students and tones
+  --provider <id>      ${Object.values(ModelProviderId).join(', ')}
+  --model <name>       Model to use with the provider
+  --endpoint <url>     Base URL of an OpenAI-compatible server
+  --api-key <key>      API key for the OpenAI-compatible server
+  --serve              Start the local HTTP API instead of reading stdin
+  --host <host>        Address to listen on (default: 127.0.0.1)
+  --port <port>        Port to listen on (default: ${DEFAULT_PORT})
+  --help               Show this help
+
+The Gemini provider reads GEMINI_API_KEY (or API_KEY) from the environment.`;
+
+const readStdin = async (): Promise<string> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+const main = async () => {
+    const { values } = parseArgs({
+        options: {
+            tone: { type: 'string' },
+            platform: { type: 'string' },
+            student: { type: 'string' },
+            language: { type: 'string' },
+            layout: { type: 'string' },
+            format: { type: 'string', default: 'text' },
+            data: { type: 'string' },
+            provider: { type: 'string' },
+            model: { type: 'string' },
+            endpoint: { type: 'string' },
+            'api-key': { type: 'string' },
+            serve: { type: 'boolean', default: false },
+            host: { type: 'string', default: '127.0.0.1' },
+            port: { type: 'string', default: String(DEFAULT_PORT) },
+            help: { type: 'boolean', default: false },
+        },
+    });
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+    if (values.format !== 'text' && values.format !== 'json') throw new UsageError(`Unknown format "${values.format}". Use text or json.`);
+    if (values.provider && !(Object.values(ModelProviderId) as string[]).includes(values.provider)) {
+        throw new UsageError(`Unknown provider "${values.provider}". Use one of: ${Object.values(ModelProviderId).join(', ')}.`);
+    }
+
+    process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+    const data = await loadData(values.data);
+    configureModelProvider(getProviderConfig({
+        ...data.settings,
+        provider: (values.provider as ModelProviderId | undefined) || data.settings.provider,
+        model: values.model || data.settings.model,
+        localEndpoint: values.endpoint || data.settings.localEndpoint,
+        localApiKey: values['api-key'] || data.settings.localApiKey,
+    }));
+    setResponseCacheEnabled(data.settings.cacheResponses !== false);
+
+    if (values.serve) {
+        const port = Number(values.port);
+        if (!Number.isInteger(port) || port <= 0 || port > 65535) throw new UsageError(`Invalid port "${values.port}".`);
+        const server = createReplyServer(data);
+        server.listen(port, values.host, () => console.error(`Reply API listening on http://${values.host}:${port}/reply`));
+        process.once('SIGINT', () => server.close());
+        process.once('SIGTERM', () => server.close());
+        return;
+    }
+
+    if (process.stdin.isTTY) throw new UsageError("Pipe the student's message on stdin, e.g. reply --tone Friendly < message.txt");
+    const result = await runHeadlessReply({
+        message: await readStdin(),
+        tone: values.tone,
+        platform: values.platform,
+        student: values.student,
+        language: values.language,
+        layout: values.layout,
+    }, data);
+    result.warnings.forEach(warning => console.error(`Warning: ${warning}`));
+    const format: OutputFormat = values.format;
+    console.log(format === 'json' ? JSON.stringify(result, null, 2) : renderText(result));
+};
+
+main().catch((error: unknown) => {
+    if (error instanceof UsageError || (error instanceof TypeError && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS'))) {
+        console.error(`${error.message}\n\nRun reply --help for usage.`);
+        process.exitCode = 2;
+    } else {
+        console.error(error instanceof ModelError ? `${error.kind}: ${error.message}` : error);
+        process.exitCode = 1;
+    }
+});
@@ -0,0 +1,128 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AppDataSnapshot } from '../types';
+import { BATCH_CONCURRENCY } from '../constants';
+import { ModelError } from '../services/modelErrors';
+import { runWithConcurrency } from '../services/taskQueue';
+import { HeadlessRequest, HeadlessResult, OutputFormat, UsageError, renderText, runHeadlessReply } from './headless';
+
+// Far more than any student message; stops a stray upload from filling memory.
+const MAX_BODY_BYTES = 1_000_000;
+
+type ReplyPayload = HeadlessRequest & { format?: OutputFormat };
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new UsageError("The request body is too large."));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body, null, 2));
+};
+
+const describeError = (error: unknown): { status: number; body: { error: string; kind?: string } } => {
+    if (error instanceof UsageError) return { status: 400, body: { error: error.message } };
+    if (error instanceof ModelError) return { status: 502, body: { error: error.message, kind: error.kind } };
+    return { status: 500, body: { error: error instanceof Error ? error.message : String(error) } };
+};
+
+const STRING_FIELDS = ['message', 'tone', 'platform', 'student', 'language', 'layout', 'format'] as const;
+
+// JSON can hold anything, so every field is checked before runHeadlessReply trusts its type.
+const toReplyPayload = (value: unknown, where: string): ReplyPayload => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new UsageError(`${where} must be a JSON object like {"message": "..."}.`);
+    const payload = value as Record<string, unknown>;
+    const wrongType = STRING_FIELDS.find(field => payload[field] !== undefined && typeof payload[field] !== 'string');
+    if (wrongType) throw new UsageError(`"${wrongType}" in ${where.toLowerCase()} must be a string.`);
+    if (payload.format !== undefined && payload.format !== 'json' && payload.format !== 'text') {
+        throw new UsageError(`Unknown format "${payload.format}" in ${where.toLowerCase()}. Use json or text.`);
+    }
+    return payload as unknown as ReplyPayload;
+};
+
+const parsePayload = (text: string): ReplyPayload | ReplyPayload[] => {
+    let payload: unknown;
+    try {
+        payload = JSON.parse(text);
+    } catch {
+        // Reported below.
+    }
+    if (!payload || typeof payload !== 'object') {
+        throw new UsageError('The body must be a JSON object like {"message": "...", "tone": "Friendly"}, or an array of them.');
+    }
+    if (Array.isArray(payload)) return payload.map((item, index) => toReplyPayload(item, `Item ${index + 1}`));
+    return toReplyPayload(payload, 'The body');
+};
+
+/**
+ * Drafts every message in a bulk request, a few at a time. Each item gets
+ * its own result or error, so one bad message doesn't sink the rest.
+ */
+const draftAll = async (payloads: ReplyPayload[], data: AppDataSnapshot, signal: AbortSignal) => {
+    const results: (HeadlessResult | { error: string; kind?: string })[] = [];
+    await runWithConcurrency(payloads, BATCH_CONCURRENCY, async (payload, index) => {
+        try {
+            results[index] = await runHeadlessReply(payload, data, signal);
+        } catch (error) {
+            results[index] = describeError(error).body;
+        }
+    }, signal);
+    return results;
+};
+
+/**
+ * A local HTTP API for helpdesk scripts:
+ *   GET  /health  → {"ok": true}
+ *   POST /reply   → one reply for {"message", "tone", "platform", "student", "language", "layout", "format"},
+ *                   or an array of results when the body is an array of such objects.
+ * `"format": "text"` on a single request returns the reply as plain text.
+ */
+export const createReplyServer = (data: AppDataSnapshot): Server => createServer(async (req, res) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (req.method === 'GET' && path === '/health') {
+        sendJson(res, 200, { ok: true });
+        return;
+    }
+    if (path !== '/reply') {
+        sendJson(res, 404, { error: "Not found. POST a message to /reply." });
+        return;
+    }
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        sendJson(res, 405, { error: "Use POST." });
+        return;
+    }
+
+    // Stop drafting if the caller gives up on the request.
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+    try {
+        const payload = parsePayload(await readBody(req));
+        if (Array.isArray(payload)) {
+            sendJson(res, 200, await draftAll(payload, data, controller.signal));
+            return;
+        }
+        const result = await runHeadlessReply(payload, data, controller.signal);
+        if (payload.format === 'text') {
+            res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+            res.end(renderText(result));
+        } else {
+            sendJson(res, 200, result);
+        }
+    } catch (error) {
+        if (res.headersSent || controller.signal.aborted) return;
+        const { status, body } = describeError(error);
+        sendJson(res, status, body);
+    }
+});
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { AppDataSnapshot, ImportMode } from '../types';
+import {
+    backupFilename, combineSnapshots, createBackup, parseBackup, savedRepliesToCsv, studentsToCsv, summarizeSnapshot,
+} from '../services/backupService';
+import { downloadTextFile } from '../services/download';
+import { ExportIcon } from './icons';
+
+interface BackupPanelProps {
+    snapshot: AppDataSnapshot;
+    onRestore: (snapshot: AppDataSnapshot) => void;
+}
+
+const BackupPanel: React.FC<BackupPanelProps> = ({ snapshot, onRestore }) => {
+    const [pendingImport, setPendingImport] = useState<AppDataSnapshot | null>(null);
+    const [mode, setMode] = useState<ImportMode>('merge');
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const date = new Date().toISOString().slice(0, 10);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setPendingImport(parseBackup(await file.text()));
+            setMessage(null);
+        } catch (error: any) {
+            setPendingImport(null);
+            setMessage({ text: error.message || "Could not read the backup.", isError: true });
+        }
+    };
+
+    const handleConfirmImport = () => {
+        if (!pendingImport) return;
+        if (mode === 'replace' && !window.confirm("Replace ALL current data with this backup? This cannot be undone.")) return;
+        const result = combineSnapshots(snapshot, pendingImport, mode);
+        onRestore(result);
+        setPendingImport(null);
+        setMessage({ text: `Import complete: ${summarizeSnapshot(result)}.`, isError: false });
+    };
+
+    const buttonClass = "flex items-center gap-1 px-3 py-1 rounded text-sm text-gray-300 bg-white/5 hover:bg-white/10";
+
+    return (
+        <section className="flex flex-col gap-3">
+            <h3 className="text-sm font-bold uppercase tracking-wide text-gray-400">Backup & Restore</h3>
+            <p className="text-xs text-gray-400">{summarizeSnapshot(snapshot)}</p>
+            <div className="flex flex-wrap gap-2">
+                <button type="button" onClick={() => downloadTextFile(backupFilename(), JSON.stringify(createBackup(snapshot), null, 2), 'application/json')} className={buttonClass}>
+                    <ExportIcon className="w-4 h-4" /> Full backup (.json)
+                </button>
+                <button type="button" onClick={() => downloadTextFile(`students-${date}.csv`, studentsToCsv(snapshot.students), 'text/csv;charset=utf-8')} className={buttonClass}>
+                    <ExportIcon className="w-4 h-4" /> Students (.csv)
+                </button>
+                <button type="button" onClick={() => downloadTextFile(`saved-replies-${date}.csv`, savedRepliesToCsv(snapshot.savedReplies), 'text/csv;charset=utf-8')} className={buttonClass}>
+                    <ExportIcon className="w-4 h-4" /> Saved replies (.csv)
+                </button>
+            </div>
+
+            <label className={`${buttonClass} w-fit cursor-pointer`}>
+                📂 Import backup…
+                <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+            </label>
+
+            {pendingImport && (
+                <div className="p-3 rounded-md bg-primary-dark border border-gray-600 flex flex-col gap-2 text-sm">
+                    <p>Backup contains {summarizeSnapshot(pendingImport)}.</p>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="import-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                        Merge — keep my current data and add anything new
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="radio" name="import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                        Replace — discard current data and use the backup
+                    </label>
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setPendingImport(null)} className="px-3 py-1 rounded text-gray-300 hover:bg-white/10">Cancel</button>
+                        <button type="button" onClick={handleConfirmImport} className="px-3 py-1 rounded bg-accent-teal hover:bg-accent-teal-dark font-bold">Import</button>
+                    </div>
+                </div>
+            )}
+
+            {message && <p className={`text-sm ${message.isError ? 'text-red-300' : 'text-green-300'}`}>{message.text}</p>}
+        </section>
+    );
+};
+
+export default BackupPanel;
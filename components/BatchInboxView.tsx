@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AppSettings, ConversationTurn, CustomTone, MessageType, Student } from '../types';
+import { BATCH_CONCURRENCY, DEFAULT_REPLY_LANGUAGE, DEFAULT_THREAD_WINDOW } from '../constants';
+import {
+    BatchDraft, BatchDraftStatus, ChatMessage, createBatchDraft, draftBatchReply, findUnansweredThreads, guessTeacherSender, listSenders, matchStudent, parseChatExport,
+} from '../services/batchService';
+import { buildConversationContext } from '../services/conversationService';
+import { EditableSentence } from '../services/replyEditingService';
+import { ExampleBank } from '../services/feedbackService';
+import { formatReply } from '../services/replyFormatter';
+import { resolveTone } from '../services/templateService';
+import { runWithConcurrency } from '../services/taskQueue';
+import { MODEL_ERROR_TITLES, toModelError } from '../services/modelErrors';
+import { resolveArabicStyle } from '../services/arabicStyleService';
+import { describeGuardian, getRecipientName, getRecipientPlatform } from '../services/guardianService';
+import ReplyEditor from './ReplyEditor';
+import { CopyIcon } from './icons';
+
+interface BatchInboxViewProps {
+    drafts: BatchDraft[];
+    setDrafts: React.Dispatch<React.SetStateAction<BatchDraft[]>>;
+    students: Student[];
+    conversations: ConversationTurn[];
+    customTones: CustomTone[];
+    settings: AppSettings;
+    exampleBank?: ExampleBank;
+    onApprove: (draft: BatchDraft) => void;
+}
+
+const STATUS_LABELS: Record<BatchDraftStatus, { label: string; className: string }> = {
+    queued: { label: 'Queued', className: 'bg-gray-600/50 text-gray-300' },
+    drafting: { label: 'Drafting…', className: 'bg-blue-700/50 text-blue-200 animate-pulse' },
+    ready: { label: 'Ready to review', className: 'bg-yellow-700/50 text-yellow-200' },
+    approved: { label: 'Approved', className: 'bg-green-700/50 text-green-200' },
+    skipped: { label: 'Skipped', className: 'bg-gray-700/50 text-gray-400' },
+    failed: { label: 'Failed', className: 'bg-red-800/50 text-red-200' },
+};
+
+const BatchInboxView: React.FC<BatchInboxViewProps> = ({ drafts, setDrafts, students, conversations, customTones, settings, exampleBank, onApprove }) => {
+    const [input, setInput] = useState('');
+    const [messages, setMessages] = useState<ChatMessage[] | null>(null);
+    const [teacherSender, setTeacherSender] = useState('');
+    // Manual student choices per sender, overriding the automatic match.
+    const [studentOverrides, setStudentOverrides] = useState<Record<string, string>>({});
+    const [reviewId, setReviewId] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Set from the start of a run until its last draft settles, so a second run can't start alongside it.
+    const [isRunning, setIsRunning] = useState(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Leaving the view stops the queue; unfinished drafts go back to "queued" and can be resumed.
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const senders = useMemo(() => messages ? listSenders(messages) : [], [messages]);
+    const threads = useMemo(() => messages ? findUnansweredThreads(messages, teacherSender) : [], [messages, teacherSender]);
+    const activeStudents = useMemo(() => students.filter(s => !s.archived), [students]);
+
+    const studentForSender = (sender: string): Student | undefined => {
+        if (sender in studentOverrides) return students.find(s => s.id === studentOverrides[sender]);
+        return matchStudent(sender, students);
+    };
+
+    const queuedCount = drafts.filter(d => d.status === 'queued').length;
+    const reviewDraft = drafts.find(d => d.id === reviewId) || drafts.find(d => d.status === 'ready');
+
+    const updateDraft = (id: string, update: Partial<BatchDraft>) =>
+        setDrafts(prev => prev.map(d => d.id === id ? { ...d, ...update } : d));
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) setInput(await file.text());
+    };
+
+    const handleParse = () => {
+        const parsed = parseChatExport(input);
+        if (parsed.length === 0) {
+            setError("No messages found. Paste a WhatsApp chat export or the messages themselves.");
+            return;
+        }
+        setError(null);
+        setMessages(parsed);
+        setStudentOverrides({});
+        setTeacherSender(guessTeacherSender(listSenders(parsed), settings.teacherName));
+    };
+
+    const runQueue = async (queue: BatchDraft[]) => {
+        // One run at a time: Pause only reaches the run in abortControllerRef.
+        if (abortControllerRef.current) return;
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsRunning(true);
+        await runWithConcurrency(queue, BATCH_CONCURRENCY, async draft => {
+            const student = students.find(s => s.id === draft.studentId);
+            updateDraft(draft.id, { status: 'drafting', error: undefined });
+            try {
+                const conversation = buildConversationContext(conversations, student, settings.threadWindow ?? DEFAULT_THREAD_WINDOW);
+                const result = await draftBatchReply(draft, resolveTone(draft.tone, customTones), settings, student, conversation, exampleBank, controller.signal);
+                updateDraft(draft.id, { ...result, status: 'ready' });
+            } catch (error) {
+                if (controller.signal.aborted) {
+                    updateDraft(draft.id, { status: 'queued' });
+                    return;
+                }
+                const failure = toModelError(error, "An unexpected error occurred.");
+                updateDraft(draft.id, { status: 'failed', error: `${MODEL_ERROR_TITLES[failure.kind]}: ${failure.message}` });
+            }
+        }, controller.signal);
+        if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const handleDraftAll = () => {
+        const created = threads.map(t => createBatchDraft(t, studentForSender(t.sender)));
+        setDrafts(prev => [...prev, ...created]);
+        setMessages(null);
+        setInput('');
+        runQueue(created);
+    };
+
+    const handleNextReady = (afterId: string) => {
+        const next = drafts.find(d => d.id !== afterId && d.status === 'ready');
+        setReviewId(next ? next.id : null);
+    };
+
+    const handleApprove = (draft: BatchDraft) => {
+        onApprove(draft);
+        updateDraft(draft.id, { status: 'approved' });
+        handleNextReady(draft.id);
+    };
+
+    const handleSkip = (draft: BatchDraft) => {
+        updateDraft(draft.id, { status: 'skipped' });
+        handleNextReady(draft.id);
+    };
+
+    const handleClear = () => {
+        if (drafts.some(d => d.status === 'ready') && !window.confirm("Some drafts have not been reviewed yet. Clear the batch anyway?")) return;
+        abortControllerRef.current?.abort();
+        setDrafts([]);
+        setReviewId(null);
+    };
+
+    const setReviewSentences = (id: string): React.Dispatch<React.SetStateAction<EditableSentence[]>> => update =>
+        setDrafts(prev => prev.map(d => d.id === id ? { ...d, sentences: typeof update === 'function' ? update(d.sentences) : update } : d));
+
+    const formatDraft = (draft: BatchDraft) => formatReply(draft.sentences, {
+        platform: getRecipientPlatform(settings, draft.recipient),
+        layout: settings.replyLayout || 'arabic-student',
+        messageType: draft.context?.messageType || MessageType.CURRENT_STUDENT,
+        teacherName: settings.teacherName,
+        signature: settings.signature,
+        studentName: getRecipientName(students.find(s => s.id === draft.studentId), draft.recipient),
+        language: draft.language,
+    });
+
+    const handleCopy = (draft: BatchDraft) => {
+        navigator.clipboard.writeText(formatDraft(draft).body).then(() => {
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        });
+    };
+
+    const inputClass = "p-2 bg-primary-dark border border-gray-600 rounded-md text-white";
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-[22rem_1fr] gap-6 text-white">
+            <div className="flex flex-col gap-4">
+                <section className="bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3">
+                    <h3 className="text-lg font-bold">📥 Batch Inbox</h3>
+                    <textarea value={input} onChange={e => setInput(e.target.value)} placeholder="Paste a WhatsApp chat export, or several messages separated by blank lines…" className={`${inputClass} h-40 resize-none text-sm`} />
+                    <div className="flex gap-2">
+                        <label className="flex-1 p-2 text-center rounded-lg bg-white/5 hover:bg-white/10 cursor-pointer text-sm">
+                            📂 Open .txt export
+                            <input type="file" accept=".txt,text/plain" onChange={handleFile} className="hidden" />
+                        </label>
+                        <button onClick={handleParse} disabled={!input.trim()} className="flex-1 p-2 bg-accent-teal hover:bg-accent-teal-dark rounded-lg font-bold disabled:opacity-50">Find messages</button>
+                    </div>
+                    {error && <p className="text-sm text-red-300">{error}</p>}
+                </section>
+
+                {messages && (
+                    <section className="bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3">
+                        <p className="text-sm text-gray-400">{messages.length} messages from {senders.length || 'an unknown'} sender{senders.length === 1 ? '' : 's'}.</p>
+                        {senders.length > 0 && (
+                            <label className="text-sm font-semibold text-gray-300">Which sender is you?
+                                <select value={teacherSender} onChange={e => setTeacherSender(e.target.value)} className={`${inputClass} w-full mt-1`}>
+                                    <option value="">None of them</option>
+                                    {senders.map(s => <option key={s} value={s}>{s}</option>)}
+                                </select>
+                            </label>
+                        )}
+                        <h4 className="font-semibold">{threads.length} unanswered</h4>
+                        <ul className="flex flex-col gap-2 max-h-80 overflow-y-auto">
+                            {threads.map((t, i) => (
+                                <li key={`${t.sender}-${i}`} className="p-2 rounded-md bg-primary-dark text-sm flex flex-col gap-1">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="font-semibold truncate">{t.sender || 'Unknown sender'}</span>
+                                        <select value={studentForSender(t.sender)?.id || ''} onChange={e => setStudentOverrides(o => ({ ...o, [t.sender]: e.target.value }))} aria-label={`Student for ${t.sender || 'message'}`} className="p-1 text-xs bg-secondary-dark border border-gray-600 rounded">
+                                            <option value="">No student</option>
+                                            {activeStudents.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                        </select>
+                                    </div>
+                                    <p className="text-gray-400 line-clamp-2">{t.messages.map(m => m.text).join(' ')}</p>
+                                </li>
+                            ))}
+                        </ul>
+                        <button onClick={handleDraftAll} disabled={threads.length === 0 || isRunning} className="p-2 bg-accent-teal hover:bg-accent-teal-dark rounded-lg font-bold disabled:opacity-50">
+                            Draft {threads.length} {threads.length === 1 ? 'reply' : 'replies'}
+                        </button>
+                        {isRunning && <p className="text-xs text-gray-400">Wait for the current drafts to finish, or pause them, before adding more.</p>}
+                    </section>
+                )}
+
+                {drafts.length > 0 && (
+                    <section className="bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-2">
+                        <div className="flex items-center justify-between">
+                            <h4 className="font-semibold">Drafts</h4>
+                            <div className="flex gap-2 text-xs">
+                                {isRunning && <button onClick={() => abortControllerRef.current?.abort()} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20">Pause</button>}
+                                {!isRunning && queuedCount > 0 && <button onClick={() => runQueue(drafts.filter(d => d.status === 'queued'))} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20">Resume ({queuedCount})</button>}
+                                <button onClick={handleClear} className="px-2 py-1 rounded text-gray-400 hover:bg-white/10">Clear</button>
+                            </div>
+                        </div>
+                        <ul className="flex flex-col gap-1">
+                            {drafts.map(d => (
+                                <li key={d.id}>
+                                    <button onClick={() => setReviewId(d.id)} className={`w-full text-left p-2 rounded-md text-sm flex items-center justify-between gap-2 ${reviewDraft?.id === d.id ? 'bg-accent-teal/20' : 'hover:bg-white/5'}`}>
+                                        <span className="truncate">{students.find(s => s.id === d.studentId)?.name || d.sender || 'Unknown sender'}</span>
+                                        <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs ${STATUS_LABELS[d.status].className}`}>{STATUS_LABELS[d.status].label}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </section>
+                )}
+            </div>
+
+            <section className="bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-4 min-h-[400px]">
+                {!reviewDraft ? (
+                    <div className="flex-1 flex items-center justify-center text-gray-400 text-center">
+                        {drafts.length === 0 ? "Import messages to draft replies for all of them at once." : "Nothing left to review."}
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex flex-col gap-1">
+                            <div className="flex items-center justify-between gap-2">
+                                <h3 className="text-lg font-bold">{students.find(s => s.id === reviewDraft.studentId)?.name || reviewDraft.sender || 'Unknown sender'}</h3>
+                                {reviewDraft.receivedAt && <span className="text-xs text-gray-400">{new Date(reviewDraft.receivedAt).toLocaleString()}</span>}
+                            </div>
+                            <p className="p-3 rounded-md bg-primary-dark text-gray-300 text-sm whitespace-pre-wrap">{reviewDraft.message}</p>
+                            {reviewDraft.context && (
+                                <p className="text-xs text-gray-400">Detected: {reviewDraft.context.messageType} · {reviewDraft.context.sentiment}{reviewDraft.context.sender === 'guardian' && ` · from ${reviewDraft.recipient?.guardian ? describeGuardian(reviewDraft.recipient.guardian) : 'a parent'}`}</p>
+                            )}
+                        </div>
+
+                        {reviewDraft.status === 'failed' && (
+                            <div className="p-3 rounded-md bg-red-900/40 text-red-200 text-sm flex items-center justify-between gap-2">
+                                <span>{reviewDraft.error}</span>
+                                <button onClick={() => runQueue([reviewDraft])} disabled={isRunning} className="px-3 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-50">Retry</button>
+                            </div>
+                        )}
+
+                        {reviewDraft.sentences.length > 0 && (
+                            <ReplyEditor
+                                sentences={reviewDraft.sentences}
+                                setSentences={setReviewSentences(reviewDraft.id)}
+                                readOnly={reviewDraft.status !== 'ready'}
+                                tone={resolveTone(reviewDraft.tone, customTones)}
+                                platform={getRecipientPlatform(settings, reviewDraft.recipient)}
+                                language={reviewDraft.language || DEFAULT_REPLY_LANGUAGE}
+                                arabicStyle={resolveArabicStyle(settings, students.find(s => s.id === reviewDraft.studentId))}
+                                onError={setError}
+                            />
+                        )}
+
+                        {reviewDraft.status === 'ready' && (
+                            <div className="flex flex-wrap justify-end gap-2 mt-auto">
+                                <button onClick={() => handleCopy(reviewDraft)} className="flex items-center gap-1 px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20">
+                                    <CopyIcon className="w-4 h-4" /> {copied ? 'Copied!' : 'Copy'}
+                                </button>
+                                <button onClick={() => handleSkip(reviewDraft)} className="px-3 py-2 rounded-lg text-gray-300 hover:bg-white/10">Skip</button>
+                                <button onClick={() => handleApprove(reviewDraft)} className="px-4 py-2 bg-accent-teal hover:bg-accent-teal-dark rounded-lg font-bold">✓ Approve &amp; next</button>
+                            </div>
+                        )}
+                    </>
+                )}
+            </section>
+        </div>
+    );
+};
+
+export default BatchInboxView;
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { ConversationTurn, Student } from '../types';
+import { getStudentThread, getTurnTime } from '../services/conversationService';
+import { CloseIcon, TrashIcon } from './icons';
+
+interface ConversationThreadProps {
+    student: Student;
+    conversations: ConversationTurn[];
+    setConversations: React.Dispatch<React.SetStateAction<ConversationTurn[]>>;
+    windowSize: number;
+    onClose: () => void;
+}
+
+const ConversationThread: React.FC<ConversationThreadProps> = ({ student, conversations, setConversations, windowSize, onClose }) => {
+    const thread = useMemo(() => getStudentThread(conversations, student.id), [conversations, student.id]);
+    const includedFrom = Math.max(thread.length - windowSize, 0);
+
+    const handleDelete = (id: string) => setConversations(prev => prev.filter(t => t.id !== id));
+
+    const handleKeepRecent = () => {
+        const keep = new Set(thread.slice(includedFrom).map(t => t.id));
+        setConversations(prev => prev.filter(t => t.studentId !== student.id || keep.has(t.id)));
+    };
+
+    const handleClear = () => {
+        if (!window.confirm(`Clear the whole conversation with ${student.name}?`)) return;
+        setConversations(prev => prev.filter(t => t.studentId !== student.id));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+            <div onClick={e => e.stopPropagation()} className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-secondary-dark p-6 rounded-lg text-white shadow-xl gap-4">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-bold">🧵 Conversation with {student.name}</h2>
+                    <button onClick={onClose} aria-label="Close conversation" className="p-1 text-gray-400 hover:text-white"><CloseIcon /></button>
+                </div>
+                <p className="text-xs text-gray-400">
+                    The last {windowSize} messages (highlighted) and your notes are included when generating replies for {student.name}.
+                </p>
+
+                <ul className="flex-1 overflow-y-auto flex flex-col gap-2">
+                    {thread.length === 0 && <li className="text-gray-400 text-center py-8">No messages recorded yet.</li>}
+                    {thread.map((t, i) => (
+                        <li key={t.id} className={`flex gap-2 items-start ${t.role === 'teacher' ? 'flex-row-reverse' : ''} ${i < includedFrom ? 'opacity-50' : ''}`}>
+                            <div className={`max-w-[80%] p-2 rounded-lg text-sm ${t.role === 'teacher' ? 'bg-accent-teal/20' : 'bg-primary-dark'}`}>
+                                <p className="whitespace-pre-wrap">{t.text}</p>
+                                {t.arabicText && <p dir="rtl" className="font-arabic text-gray-300 mt-1">{t.arabicText}</p>}
+                                <p className="text-[10px] text-gray-400 mt-1">{new Date(getTurnTime(t)).toLocaleString()}</p>
+                            </div>
+                            <button onClick={() => handleDelete(t.id)} aria-label="Delete message" className="p-1 text-gray-500 hover:text-red-300"><TrashIcon className="w-4 h-4" /></button>
+                        </li>
+                    ))}
+                </ul>
+
+                {thread.length > 0 && (
+                    <div className="flex justify-end gap-2 text-sm">
+                        {includedFrom > 0 && (
+                            <button onClick={handleKeepRecent} className="px-3 py-1 rounded text-gray-300 hover:bg-white/10">Keep only last {windowSize}</button>
+                        )}
+                        <button onClick={handleClear} className="px-3 py-1 rounded text-red-300 hover:bg-red-900/40">Clear all</button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ConversationThread;
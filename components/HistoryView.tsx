@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryFilters, MessageType, ReplyRating, SavedReply, Student } from '../types';
+import { DEFAULT_REPLY_LANGUAGE, MESSAGE_TYPE_OPTIONS } from '../constants';
+import { EMPTY_HISTORY_FILTERS, filterSavedReplies } from '../services/historyService';
+import { getLanguage } from '../services/languageService';
+import { ToneOption } from '../services/templateService';
+import { describeComparison } from '../services/compareService';
+import { CopyIcon, SearchIcon, ThumbDownIcon, ThumbUpIcon, TrashIcon } from './icons';
+
+interface HistoryViewProps {
+    savedReplies: SavedReply[];
+    setSavedReplies: React.Dispatch<React.SetStateAction<SavedReply[]>>;
+    students: Student[];
+    onReuse: (reply: SavedReply) => void;
+    toneOptions: ToneOption[];
+}
+
+const replyLanguageOf = (reply: SavedReply) => getLanguage(reply.language || DEFAULT_REPLY_LANGUAGE);
+
+const HistoryView: React.FC<HistoryViewProps> = ({ savedReplies, setSavedReplies, students, onReuse, toneOptions }) => {
+    const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+    const [copiedKey, setCopiedKey] = useState<string | null>(null);
+
+    const results = useMemo(() => filterSavedReplies(savedReplies, filters), [savedReplies, filters]);
+
+    const setFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) =>
+        setFilters(f => ({ ...f, [key]: value }));
+
+    const handleCopy = (text: string, key: string) => {
+        navigator.clipboard.writeText(text).then(() => {
+            setCopiedKey(key);
+            setTimeout(() => setCopiedKey(null), 2000);
+        });
+    };
+
+    const handleRate = (id: string, rating: ReplyRating) =>
+        setSavedReplies(prev => prev.map(r => r.id === id ? { ...r, rating: r.rating === rating ? undefined : rating } : r));
+
+    const handleDelete = (id: string) => {
+        if (!window.confirm("Delete this saved reply?")) return;
+        setSavedReplies(prev => prev.filter(r => r.id !== id));
+    };
+
+    const hasFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_HISTORY_FILTERS);
+    const inputClass = "p-2 bg-primary-dark border border-gray-600 rounded-md text-white";
+
+    return (
+        <div className="flex flex-col gap-4 text-white">
+            <div className="bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3">
+                <div className="relative">
+                    <span className="absolute left-2 top-2 text-gray-400"><SearchIcon className="w-5 h-5" /></span>
+                    <input value={filters.query} onChange={e => setFilter('query', e.target.value)} placeholder="Search replies in any language... / ابحث في الردود" className={`w-full pl-9 ${inputClass}`} />
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+                    <select value={filters.studentId} onChange={e => setFilter('studentId', e.target.value)} className={inputClass}>
+                        <option value="">All students</option>
+                        {students.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                    <select value={filters.messageType} onChange={e => setFilter('messageType', e.target.value as MessageType | '')} className={inputClass}>
+                        <option value="">All message types</option>
+                        {MESSAGE_TYPE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                    <select value={filters.tone} onChange={e => setFilter('tone', e.target.value)} className={inputClass}>
+                        <option value="">All tones</option>
+                        {toneOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                    <input type="date" value={filters.from} onChange={e => setFilter('from', e.target.value)} aria-label="From date" className={inputClass} />
+                    <input type="date" value={filters.to} onChange={e => setFilter('to', e.target.value)} aria-label="To date" className={inputClass} />
+                </div>
+                <div className="flex justify-between text-xs text-gray-400">
+                    <span>{results.length} of {savedReplies.length} saved replies</span>
+                    {hasFilters && <button onClick={() => setFilters(EMPTY_HISTORY_FILTERS)} className="hover:text-white">Clear filters</button>}
+                </div>
+            </div>
+
+            {results.length === 0 ? (
+                <div className="bg-secondary-dark/50 p-8 rounded-lg text-center text-gray-400">
+                    {savedReplies.length === 0 ? 'No saved replies yet. Use 💾 Save on a generated reply to keep it here.' : 'No replies match your filters.'}
+                </div>
+            ) : results.map(r => (
+                <div key={r.id} className="bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3">
+                    <div className="flex flex-wrap justify-between items-center gap-2 text-xs text-gray-400">
+                        <span>
+                            <strong className="text-white text-sm">{r.studentName || 'Unassigned'}</strong> · {new Date(r.date).toLocaleString()} · {r.messageType} · {toneOptions.find(o => o.value === r.tone)?.label || r.tone}
+                            {r.audience === 'guardian' && <span className="ml-1 px-2 py-0.5 rounded-full bg-white/10 text-gray-300">👪 To parent</span>}
+                            {r.comparison && <span className="ml-1 px-2 py-0.5 rounded-full bg-white/10 text-gray-300">⚖️ {describeComparison(r.comparison, toneOptions)}</span>}
+                        </span>
+                        <div className="flex items-center gap-1">
+                            <button onClick={() => handleRate(r.id, 'up')} aria-label="Thumbs up" className={`p-1 rounded hover:bg-white/10 ${r.rating === 'up' ? 'text-green-300' : ''}`}><ThumbUpIcon className="w-5 h-5" /></button>
+                            <button onClick={() => handleRate(r.id, 'down')} aria-label="Thumbs down" className={`p-1 rounded hover:bg-white/10 ${r.rating === 'down' ? 'text-red-300' : ''}`}><ThumbDownIcon className="w-5 h-5" /></button>
+                            <button onClick={() => onReuse(r)} className="px-2 py-1 rounded bg-accent-teal/20 text-accent-teal hover:bg-accent-teal/30">Reuse</button>
+                            <button onClick={() => handleDelete(r.id)} aria-label="Delete saved reply" className="p-1 rounded hover:text-red-300"><TrashIcon className="w-5 h-5" /></button>
+                        </div>
+                    </div>
+                    <p className="text-sm text-gray-400 italic">“{r.studentMessage}”</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div dir={replyLanguageOf(r).rtl ? 'rtl' : 'ltr'} className={`p-2 bg-primary-dark rounded-md border border-gray-600 ${replyLanguageOf(r).rtl ? 'font-arabic' : ''}`}>
+                            <p className="text-xs text-gray-500 mb-1">{replyLanguageOf(r).flag} {replyLanguageOf(r).name}</p>
+                            <p className="text-gray-300 text-sm">{r.studentReply}</p>
+                            <button onClick={() => handleCopy(r.studentReply, `${r.id}-student`)} className="flex items-center gap-1 text-xs text-gray-400 mt-1 hover:text-white">
+                                <CopyIcon className="w-4 h-4" /> {copiedKey === `${r.id}-student` ? 'Copied!' : 'Copy'}
+                            </button>
+                        </div>
+                        <div dir="rtl" className="p-2 bg-primary-dark rounded-md border border-gray-600 font-arabic">
+                            <p className="text-gray-300 text-sm">{r.arabicReply}</p>
+                            <button onClick={() => handleCopy(r.arabicReply, `${r.id}-ar`)} className="flex items-center gap-1 text-xs text-gray-400 mt-1 hover:text-white">
+                                <CopyIcon className="w-4 h-4" /> {copiedKey === `${r.id}-ar` ? 'تم النسخ!' : 'نسخ'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default HistoryView;
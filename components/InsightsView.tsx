@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { ConversationTurn, MessageAnalysis, MessageType, Sentiment, Student } from '../types';
+import { MESSAGE_TYPE_OPTIONS, SILENT_AFTER_DAYS } from '../constants';
+import { SENTIMENT_SCORES, TrendPoint, analysesSince, countByValue, findSilentStudents, findTurningNegative, formatDuration, sentimentTrend, summarizeReplyTimes } from '../services/insightsService';
+
+interface InsightsViewProps {
+    analyses: MessageAnalysis[];
+    students: Student[];
+    conversations: ConversationTurn[];
+    onUseStudent: (studentId: string) => void;
+    onOpenThread: (studentId: string) => void;
+}
+
+const RANGE_OPTIONS: { value: number; label: string }[] = [
+    { value: 7, label: "Last 7 days" },
+    { value: 30, label: "Last 30 days" },
+    { value: 90, label: "Last 90 days" },
+    { value: 0, label: "All time" },
+];
+
+const SENTIMENT_COLORS: Record<Sentiment, string> = {
+    [Sentiment.ENTHUSIASTIC]: 'bg-green-400',
+    [Sentiment.POSITIVE]: 'bg-green-600',
+    [Sentiment.NEUTRAL]: 'bg-gray-400',
+    [Sentiment.INQUIRY]: 'bg-cyan-500',
+    [Sentiment.APOLOGETIC]: 'bg-yellow-500',
+    [Sentiment.NEGATIVE]: 'bg-red-500',
+};
+
+const BarList: React.FC<{ rows: { label: string; count: number; color?: string }[] }> = ({ rows }) => {
+    const max = Math.max(1, ...rows.map(r => r.count));
+    return (
+        <ul className="flex flex-col gap-2">
+            {rows.map(row => (
+                <li key={row.label} className="text-sm">
+                    <div className="flex justify-between text-gray-300"><span>{row.label}</span><span>{row.count}</span></div>
+                    <div className="h-2 mt-1 bg-black/30 rounded">
+                        <div className={`h-2 rounded ${row.color || 'bg-accent-teal'}`} style={{ width: `${(row.count / max) * 100}%` }} />
+                    </div>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+// Weekly average sentiment as a line between the most negative and most positive scores.
+const TrendChart: React.FC<{ points: TrendPoint[] }> = ({ points }) => {
+    if (points.length === 0) return <p className="text-sm text-gray-400 py-6 text-center">No messages analysed yet.</p>;
+    const scores = Object.values(SENTIMENT_SCORES);
+    const [min, max] = [Math.min(...scores), Math.max(...scores)];
+    const width = 300, height = 100;
+    const x = (i: number) => points.length === 1 ? width / 2 : (i / (points.length - 1)) * width;
+    const y = (score: number) => height - ((score - min) / (max - min)) * height;
+    return (
+        <div>
+            <svg viewBox={`-4 -4 ${width + 8} ${height + 8}`} className="w-full h-32" role="img" aria-label="Weekly sentiment trend">
+                <line x1={0} x2={width} y1={y(0)} y2={y(0)} className="stroke-gray-600" strokeDasharray="4 4" />
+                <polyline points={points.map((p, i) => `${x(i)},${y(p.average)}`).join(' ')} fill="none" className="stroke-accent-teal" strokeWidth={2} />
+                {points.map((p, i) => (
+                    <circle key={p.week} cx={x(i)} cy={y(p.average)} r={3} className={p.average < 0 ? 'fill-red-400' : 'fill-accent-teal'}>
+                        <title>{`Week of ${p.week}: ${p.average.toFixed(1)} across ${p.count} message${p.count === 1 ? '' : 's'}`}</title>
+                    </circle>
+                ))}
+            </svg>
+            <div className="flex justify-between text-xs text-gray-500">
+                <span>{points[0].week}</span>
+                {points.length > 1 && <span>{points[points.length - 1].week}</span>}
+            </div>
+        </div>
+    );
+};
+
+// Message volume, sentiment and response times, all computed from data stored in the browser.
+const InsightsView: React.FC<InsightsViewProps> = ({ analyses, students, conversations, onUseStudent, onOpenThread }) => {
+    const [rangeDays, setRangeDays] = useState(30);
+    const [trendStudentId, setTrendStudentId] = useState('');
+
+    const inRange = useMemo(() => analysesSince(analyses, rangeDays || undefined), [analyses, rangeDays]);
+    const replyTimes = useMemo(() => summarizeReplyTimes(conversations, rangeDays || undefined), [conversations, rangeDays]);
+    const turningNegative = useMemo(() => findTurningNegative(analyses, students), [analyses, students]);
+    const silent = useMemo(() => findSilentStudents(students, analyses), [students, analyses]);
+    const trend = useMemo(() => sentimentTrend(inRange, trendStudentId || undefined), [inRange, trendStudentId]);
+
+    const typeRows = countByValue(inRange, a => a.messageType, Object.values(MessageType))
+        .map(({ value, count }) => ({ label: MESSAGE_TYPE_OPTIONS.find(o => o.value === value)?.label || value, count }));
+    const sentimentRows = countByValue(inRange, a => a.sentiment, Object.values(Sentiment))
+        .map(({ value, count }) => ({ label: value, count, color: SENTIMENT_COLORS[value] }));
+    const studentsWithAnalyses = students.filter(s => analyses.some(a => a.studentId === s.id));
+
+    const panelClass = "bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3";
+    const selectClass = "p-2 bg-primary-dark border border-gray-600 rounded-md text-white text-sm";
+
+    const studentActions = (student: Student) => (
+        <span className="flex gap-1 shrink-0">
+            {!student.archived && <button onClick={() => onUseStudent(student.id)} className="px-2 py-1 rounded bg-accent-teal/20 text-accent-teal hover:bg-accent-teal/30">Reply</button>}
+            <button onClick={() => onOpenThread(student.id)} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10">🧵 Thread</button>
+        </span>
+    );
+
+    return (
+        <div className="flex flex-col gap-6 text-white">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-xl font-bold">📊 Insights</h2>
+                <select value={rangeDays} onChange={e => setRangeDays(Number(e.target.value))} className={selectClass}>
+                    {RANGE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className={panelClass}>
+                    <span className="text-sm text-gray-400">Messages analysed</span>
+                    <span className="text-3xl font-bold">{inRange.length}</span>
+                </div>
+                <div className={panelClass}>
+                    <span className="text-sm text-gray-400">Average time to reply</span>
+                    <span className="text-3xl font-bold">{replyTimes ? formatDuration(replyTimes.averageMs) : '—'}</span>
+                    {replyTimes && <span className="text-xs text-gray-400">across {replyTimes.count} replies logged to threads</span>}
+                </div>
+                <div className={panelClass}>
+                    <span className="text-sm text-gray-400">Students needing attention</span>
+                    <span className="text-3xl font-bold">{new Set([...turningNegative, ...silent].map(f => f.student.id)).size}</span>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <section className={panelClass}>
+                    <h3 className="font-bold">Volume by message type</h3>
+                    <BarList rows={typeRows} />
+                </section>
+                <section className={panelClass}>
+                    <h3 className="font-bold">Sentiment</h3>
+                    <BarList rows={sentimentRows} />
+                </section>
+            </div>
+
+            <section className={panelClass}>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="font-bold">Sentiment trend by week</h3>
+                    <select value={trendStudentId} onChange={e => setTrendStudentId(e.target.value)} className={selectClass}>
+                        <option value="">All students</option>
+                        {studentsWithAnalyses.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                </div>
+                <TrendChart points={trend} />
+            </section>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <section className={panelClass}>
+                    <h3 className="font-bold">📉 Turning negative</h3>
+                    {turningNegative.length === 0 ? <p className="text-sm text-gray-400">No students with a negative trend.</p> : (
+                        <ul className="divide-y divide-gray-700">
+                            {turningNegative.map(({ student, recentAverage, earlierAverage }) => (
+                                <li key={student.id} className="py-2 flex items-center justify-between gap-2 text-sm">
+                                    <span>
+                                        <span className="font-semibold">{student.name}</span>
+                                        <span className="block text-xs text-gray-400">
+                                            Recent {recentAverage.toFixed(1)}{earlierAverage !== undefined && `, was ${earlierAverage.toFixed(1)}`}
+                                        </span>
+                                    </span>
+                                    {studentActions(student)}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+                <section className={panelClass}>
+                    <h3 className="font-bold">🔕 Gone silent <span className="font-normal text-sm text-gray-400">({SILENT_AFTER_DAYS}+ days)</span></h3>
+                    {silent.length === 0 ? <p className="text-sm text-gray-400">Everyone has been in touch recently.</p> : (
+                        <ul className="divide-y divide-gray-700">
+                            {silent.map(({ student, lastHeardAt, days }) => (
+                                <li key={student.id} className="py-2 flex items-center justify-between gap-2 text-sm">
+                                    <span>
+                                        <span className="font-semibold">{student.name}</span>
+                                        <span className="block text-xs text-gray-400">{days} days since {new Date(lastHeardAt).toLocaleDateString()}</span>
+                                    </span>
+                                    {studentActions(student)}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default InsightsView;
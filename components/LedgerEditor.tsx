@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { AppSettings, LedgerEntry, LedgerEntryKind, Student } from '../types';
+import { CURRENCY_OPTIONS, LEDGER_KIND_OPTIONS } from '../constants';
+import { describeBalance, formatLedgerDate, formatMoney, getCurrency, ledgerStatementToCsv, sortLedger, summarizeLedger } from '../services/ledgerService';
+import { downloadTextFile } from '../services/download';
+import { TrashIcon } from './icons';
+
+interface LedgerEditorProps {
+    student: Student;
+    settings: AppSettings;
+    onChange: (changes: Partial<Pick<Student, 'ledger' | 'currency'>>) => void;
+}
+
+type EntryDraft = { kind: LedgerEntryKind; date: string; lessons: string; amount: string; note: string };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyDraft = (kind: LedgerEntryKind = 'payment'): EntryDraft => ({ kind, date: today(), lessons: kind === 'lesson' ? '1' : '', amount: '', note: '' });
+
+// A student's packages, lessons and payments, with a running balance and monthly statements.
+const LedgerEditor: React.FC<LedgerEditorProps> = ({ student, settings, onChange }) => {
+    const [draft, setDraft] = useState<EntryDraft>(emptyDraft());
+    const [month, setMonth] = useState(today().slice(0, 7));
+    const ledger = student.ledger || [];
+    const currency = getCurrency(settings, student);
+    const summary = summarizeLedger(student, settings);
+    const inputClass = "p-1 bg-primary-dark border border-gray-600 rounded-md text-white text-sm";
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        const lessons = Number(draft.lessons) || undefined;
+        const amount = Number(draft.amount) || undefined;
+        if (draft.kind !== 'lesson' && !amount) return;
+        const entry: LedgerEntry = { id: crypto.randomUUID(), kind: draft.kind, date: draft.date || today(), lessons, amount, note: draft.note.trim() || undefined };
+        onChange({ ledger: [...ledger, entry] });
+        setDraft(emptyDraft(draft.kind));
+    };
+
+    const handleExport = () => {
+        downloadTextFile(`statement-${student.name.replace(/\s+/g, '-')}-${month}.csv`, ledgerStatementToCsv([student], month, settings), 'text/csv;charset=utf-8');
+    };
+
+    return (
+        <div className="mt-2 p-3 bg-black/20 rounded-lg flex flex-col gap-3 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className={`font-semibold ${summary.balance > 0 ? 'text-yellow-300' : 'text-green-300'}`}>{describeBalance(summary)}</span>
+                <span className="text-gray-400">{summary.lessonsBought - summary.lessonsTaken} of {summary.lessonsBought} lessons left</span>
+                <select value={student.currency || ''} onChange={e => onChange({ currency: e.target.value || undefined })} aria-label="Currency" className={inputClass}>
+                    <option value="">Default ({getCurrency(settings)})</option>
+                    {CURRENCY_OPTIONS.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+            </div>
+
+            {ledger.length > 0 && (
+                <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+                    {sortLedger(ledger).reverse().map(entry => (
+                        <li key={entry.id} className="flex items-center justify-between gap-2">
+                            <span>
+                                {LEDGER_KIND_OPTIONS.find(o => o.value === entry.kind)?.label} · {formatLedgerDate(entry.date)}
+                                {entry.lessons !== undefined && ` · ${entry.lessons} lesson${entry.lessons === 1 ? '' : 's'}`}
+                                {entry.amount !== undefined && ` · ${formatMoney(entry.amount, currency)}`}
+                                {entry.note && <span className="text-gray-400"> — {entry.note}</span>}
+                            </span>
+                            <button type="button" onClick={() => onChange({ ledger: ledger.filter(e => e.id !== entry.id) })} aria-label="Delete entry" className="p-1 text-gray-400 hover:text-red-300"><TrashIcon className="w-4 h-4" /></button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+                <select value={draft.kind} onChange={e => setDraft(emptyDraft(e.target.value as LedgerEntryKind))} className={inputClass}>
+                    {LEDGER_KIND_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+                <input type="date" value={draft.date} onChange={e => setDraft(d => ({ ...d, date: e.target.value }))} className={inputClass} />
+                {draft.kind !== 'payment' && (
+                    <input type="number" min={1} value={draft.lessons} onChange={e => setDraft(d => ({ ...d, lessons: e.target.value }))} placeholder="Lessons" className={`${inputClass} w-20`} />
+                )}
+                {draft.kind !== 'lesson' && (
+                    <input type="number" min={0} step="0.01" value={draft.amount} onChange={e => setDraft(d => ({ ...d, amount: e.target.value }))} placeholder={draft.kind === 'package' ? `Price (${currency})` : `Amount (${currency})`} className={`${inputClass} w-28`} />
+                )}
+                <input value={draft.note} onChange={e => setDraft(d => ({ ...d, note: e.target.value }))} placeholder="Note" className={`${inputClass} flex-1 min-w-[100px]`} />
+                <button type="submit" className="px-2 py-1 rounded bg-accent-teal/20 text-accent-teal hover:bg-accent-teal/30">＋ Add</button>
+            </form>
+
+            <div className="flex items-center gap-2">
+                <input type="month" value={month} onChange={e => setMonth(e.target.value)} className={inputClass} />
+                <button type="button" onClick={handleExport} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10">📄 Export statement</button>
+            </div>
+        </div>
+    );
+};
+
+export default LedgerEditor;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { AppSettings, Student } from '../types';
+import { PaymentIntent, describeBalance, formatLedgerDate, formatMoney, hasLedger, summarizeLedger } from '../services/ledgerService';
+
+interface PaymentPanelProps {
+    student: Student;
+    settings: AppSettings;
+    disabled: boolean;
+    onRecordPayment: (amount: number) => void;
+    onRegenerate: (intent: PaymentIntent) => void;
+}
+
+// The student's balance next to a payment message, with quick actions for the usual replies.
+const PaymentPanel: React.FC<PaymentPanelProps> = ({ student, settings, disabled, onRecordPayment, onRegenerate }) => {
+    const [amount, setAmount] = useState('');
+
+    if (!hasLedger(student)) {
+        return (
+            <div className="bg-amber-900/30 border border-amber-400/30 p-3 rounded-lg text-sm text-amber-100">
+                💰 No ledger for {student.name} yet. Add packages and payments under Students → 💰 Ledger so replies can quote the real balance.
+            </div>
+        );
+    }
+
+    const summary = summarizeLedger(student, settings);
+    const handleRecord = () => {
+        const value = Number(amount) || summary.balance;
+        if (value <= 0) return;
+        onRecordPayment(value);
+        setAmount('');
+    };
+
+    return (
+        <div className="bg-amber-900/30 border border-amber-400/30 p-3 rounded-lg text-sm text-amber-100 flex flex-col gap-2">
+            <div className="flex flex-wrap justify-between gap-2">
+                <span className="font-bold">💰 {describeBalance(summary)}</span>
+                <span className="opacity-80">{summary.lessonsBought - summary.lessonsTaken} lessons left</span>
+            </div>
+            <p className="opacity-80">
+                Last payment: {summary.lastPayment ? `${formatMoney(summary.lastPayment.amount || 0, summary.currency)} on ${formatLedgerDate(summary.lastPayment.date)}` : 'none recorded'}
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+                <input type="number" min={0} step="0.01" value={amount} onChange={e => setAmount(e.target.value)} placeholder={summary.balance > 0 ? String(summary.balance) : `Amount (${summary.currency})`} className="w-28 p-1 bg-primary-dark border border-gray-600 rounded-md text-white" />
+                <button onClick={handleRecord} disabled={disabled} className="px-2 py-1 rounded bg-amber-500/30 hover:bg-amber-500/50 font-semibold disabled:opacity-50">Record payment</button>
+                <button onClick={() => onRegenerate('confirm')} disabled={disabled || !summary.lastPayment} className="px-2 py-1 rounded bg-amber-500/30 hover:bg-amber-500/50 font-semibold disabled:opacity-50">✓ Confirm receipt</button>
+                <button onClick={() => onRegenerate('remind')} disabled={disabled || summary.balance <= 0} className="px-2 py-1 rounded bg-amber-500/30 hover:bg-amber-500/50 font-semibold disabled:opacity-50">🔔 Send reminder</button>
+            </div>
+        </div>
+    );
+};
+
+export default PaymentPanel;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { GenerationProgress } from '../types';
+
+type Stage = Exclude<keyof GenerationProgress, 'error'>;
+
+const STAGES: { key: Stage; label: string }[] = [
+    { key: 'reading', label: 'Reading' },
+    { key: 'detecting', label: 'Detecting context' },
+    { key: 'drafting', label: 'Drafting' },
+    { key: 'translating', label: 'Translating' },
+    { key: 'done', label: 'Done' },
+];
+
+interface ProgressTrackerProps {
+    progress: GenerationProgress;
+}
+
+// Drafting and translating alternate per sentence, so the tracker lights up
+// every stage up to the furthest one currently active.
+const ProgressTracker: React.FC<ProgressTrackerProps> = ({ progress }) => {
+    const activeIndex = STAGES.reduce((acc, stage, i) => progress[stage.key] ? i : acc, -1);
+
+    return (
+        <ol className="flex flex-wrap items-center gap-2 text-xs" aria-label="Generation progress">
+            {STAGES.map((stage, i) => {
+                const isActive = !!progress[stage.key];
+                const isComplete = i < activeIndex || (stage.key === 'done' && isActive);
+                const state = isComplete ? 'bg-accent-teal/30 text-accent-teal' : isActive ? 'bg-white/20 text-white animate-pulse' : 'bg-black/20 text-gray-500';
+                return (
+                    <li key={stage.key} className={`px-2 py-1 rounded-full font-semibold ${state}`}>
+                        {isComplete ? '✓ ' : ''}{stage.label}
+                    </li>
+                );
+            })}
+            {progress.error && <li className="px-2 py-1 rounded-full font-semibold bg-red-900/60 text-red-200">✕ {progress.error}</li>}
+        </ol>
+    );
+};
+
+export default ProgressTracker;
@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Reminder, ReminderRepeat, Student } from '../types';
+import { REPEAT_OPTIONS, SNOOZE_OPTIONS } from '../constants';
+import { completeReminder, snoozeReminder } from '../services/reminderService';
+import { TrashIcon } from './icons';
+
+interface RemindersViewProps {
+    reminders: Reminder[];
+    setReminders: React.Dispatch<React.SetStateAction<Reminder[]>>;
+    students: Student[];
+    draft: Reminder | null;
+    onDraftConsumed: () => void;
+}
+
+interface ReminderForm {
+    studentId: string;
+    remindAt: string; // datetime-local value
+    message: string;
+    repeat: ReminderRepeat;
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix.
+const toLocalInputValue = (iso: string) => {
+    const d = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const emptyForm = (): ReminderForm => ({
+    studentId: '',
+    remindAt: toLocalInputValue(new Date(Date.now() + 60 * 60 * 1000).toISOString()),
+    message: '',
+    repeat: 'none',
+});
+
+const RemindersView: React.FC<RemindersViewProps> = ({ reminders, setReminders, students, draft, onDraftConsumed }) => {
+    const [form, setForm] = useState<ReminderForm>(emptyForm);
+    const [showDone, setShowDone] = useState(false);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    // Pre-fill the form with a suggested follow-up handed over from the main view.
+    useEffect(() => {
+        if (!draft) return;
+        setForm({
+            studentId: draft.studentId,
+            remindAt: toLocalInputValue(draft.remindAt),
+            message: draft.message,
+            repeat: draft.repeat || 'none',
+        });
+        onDraftConsumed();
+    }, [draft, onDraftConsumed]);
+
+    const sortedReminders = useMemo(() => reminders
+        .filter(r => showDone ? r.done : !r.done)
+        .sort((a, b) => a.remindAt.localeCompare(b.remindAt)), [reminders, showDone]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const student = students.find(s => s.id === form.studentId);
+        if (!student) {
+            setFormError("Please choose a student.");
+            return;
+        }
+        if (!form.message.trim() || !form.remindAt) {
+            setFormError("Please enter a time and a reminder message.");
+            return;
+        }
+        const reminder: Reminder = {
+            id: crypto.randomUUID(),
+            studentId: student.id,
+            studentName: student.name,
+            remindAt: new Date(form.remindAt).toISOString(),
+            message: form.message.trim(),
+            done: false,
+            repeat: form.repeat,
+            notified: false,
+        };
+        setReminders(prev => [...prev, reminder]);
+        setForm(emptyForm());
+        setFormError(null);
+    };
+
+    const updateReminder = (id: string, update: (r: Reminder) => Reminder) =>
+        setReminders(prev => prev.map(r => r.id === id ? update(r) : r));
+
+    const now = Date.now();
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 text-white">
+            <form onSubmit={handleSubmit} className="bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3 h-fit">
+                <h3 className="text-lg font-bold">New Reminder</h3>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Student</label>
+                    <select value={form.studentId} onChange={e => setForm(f => ({ ...f, studentId: e.target.value }))} className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                        <option value="">Select a student</option>
+                        {students.filter(s => !s.archived).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Remind me at</label>
+                    <input type="datetime-local" value={form.remindAt} onChange={e => setForm(f => ({ ...f, remindAt: e.target.value }))} className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white" />
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Message</label>
+                    <textarea value={form.message} onChange={e => setForm(f => ({ ...f, message: e.target.value }))} className="w-full mt-1 h-20 p-2 bg-primary-dark border border-gray-600 rounded-md text-gray-200 resize-none" />
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Repeat</label>
+                    <select value={form.repeat} onChange={e => setForm(f => ({ ...f, repeat: e.target.value as ReminderRepeat }))} className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                        {REPEAT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                </div>
+                {formError && <p className="text-sm text-red-300">{formError}</p>}
+                <button type="submit" className="p-2 bg-accent-teal hover:bg-accent-teal-dark rounded-lg font-bold">＋ Add Reminder</button>
+            </form>
+
+            <div className="lg:col-span-2 bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-lg font-bold">{showDone ? 'Completed' : 'Upcoming'}</h3>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={showDone} onChange={e => setShowDone(e.target.checked)} />
+                        Show completed
+                    </label>
+                </div>
+                {sortedReminders.length === 0 ? (
+                    <p className="text-gray-400 text-center py-8">{showDone ? 'No completed reminders.' : 'No upcoming reminders. 🎉'}</p>
+                ) : (
+                    <ul className="divide-y divide-gray-700">
+                        {sortedReminders.map(r => {
+                            const overdue = !r.done && new Date(r.remindAt).getTime() <= now;
+                            return (
+                                <li key={r.id} className="py-3 flex flex-wrap items-center justify-between gap-2">
+                                    <div>
+                                        <p className="font-semibold">{r.studentName}</p>
+                                        <p className="text-sm text-gray-300">{r.message}</p>
+                                        <p className={`text-xs ${overdue ? 'text-red-300' : 'text-gray-400'}`}>
+                                            {overdue && '⚠️ Overdue · '}{new Date(r.remindAt).toLocaleString()}
+                                            {r.repeat && r.repeat !== 'none' && ` · 🔁 ${REPEAT_OPTIONS.find(o => o.value === r.repeat)?.label}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-1 text-sm">
+                                        {!r.done && SNOOZE_OPTIONS.map(o => (
+                                            <button key={o.minutes} onClick={() => updateReminder(r.id, rem => snoozeReminder(rem, o.minutes))} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10">
+                                                💤 {o.label}
+                                            </button>
+                                        ))}
+                                        {!r.done && (
+                                            <button onClick={() => updateReminder(r.id, rem => completeReminder(rem))} className="px-2 py-1 rounded bg-accent-teal/20 text-accent-teal hover:bg-accent-teal/30">✓ Done</button>
+                                        )}
+                                        <button onClick={() => setReminders(prev => prev.filter(x => x.id !== r.id))} aria-label="Delete reminder" className="p-1 rounded text-gray-400 hover:text-red-300"><TrashIcon className="w-5 h-5" /></button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default RemindersView;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { ArabicStyle, CustomTone, IntegrationPlatform, LanguageCode, ReplyTone } from '../types';
+import {
+    EditableSentence, ReplyRevision, SentenceLang, moveSentence, regenerateSentence, reviseReply, translateSentence,
+} from '../services/replyEditingService';
+import { findQuotedCitation, getCitation, isUnverifiedQuotation } from '../services/citationService';
+import { getLanguage } from '../services/languageService';
+import { RegenerateIcon, TrashIcon } from './icons';
+
+interface ReplyEditorProps {
+    sentences: EditableSentence[];
+    setSentences: React.Dispatch<React.SetStateAction<EditableSentence[]>>;
+    readOnly: boolean;
+    tone: ReplyTone | CustomTone;
+    platform: IntegrationPlatform;
+    // The language paired with Arabic.
+    language: LanguageCode;
+    // Dialect, tashkeel and transliteration used when sentences are rewritten.
+    arabicStyle?: ArabicStyle;
+    onError: (message: string) => void;
+}
+
+const REVISIONS: { value: ReplyRevision; label: string }[] = [
+    { value: 'shorter', label: '✂️ Shorter' },
+    { value: 'warmer', label: '🤗 Warmer' },
+    { value: 'more formal', label: '👔 More formal' },
+];
+
+const rowsFor = (text: string) => Math.max(1, Math.ceil(text.length / 38));
+
+const ReplyEditor: React.FC<ReplyEditorProps> = ({ sentences, setSentences, readOnly, tone, platform, language, arabicStyle, onError }) => {
+    // Which sentence (or the whole reply, as -1) is waiting on the model.
+    const [busyIndex, setBusyIndex] = useState<number | null>(null);
+    const isBusy = busyIndex !== null;
+    const languageInfo = getLanguage(language);
+
+    const updateSentence = (index: number, update: Partial<EditableSentence>) =>
+        setSentences(prev => prev.map((s, i) => i === index ? { ...s, ...update } : s));
+
+    // A hand-edited or re-translated Arabic sentence no longer matches its transliteration, so that is dropped.
+    const handleEdit = (index: number, lang: SentenceLang, text: string) =>
+        updateSentence(index, lang === 'student'
+            ? { studentSentence: text, edited: true, staleSide: lang }
+            : { arabicSentence: text, transliteration: undefined, edited: true, staleSide: lang });
+
+    const runWithBusy = async (index: number, task: () => Promise<void>) => {
+        setBusyIndex(index);
+        try {
+            await task();
+        } catch (e: any) {
+            onError(e.message || "An unexpected error occurred.");
+        } finally {
+            setBusyIndex(null);
+        }
+    };
+
+    const handleRetranslate = (index: number) => runWithBusy(index, async () => {
+        const sentence = sentences[index];
+        const from = sentence.staleSide!;
+        const translation = await translateSentence(from === 'student' ? sentence.studentSentence : sentence.arabicSentence, from, sentences, language, arabicStyle);
+        updateSentence(index, from === 'student'
+            ? { arabicSentence: translation, transliteration: undefined, staleSide: undefined }
+            : { studentSentence: translation, staleSide: undefined });
+    });
+
+    const handleRegenerate = (index: number) => runWithBusy(index, async () => {
+        const pair = await regenerateSentence(sentences, index, tone, platform, language, arabicStyle);
+        updateSentence(index, { ...pair, edited: false, staleSide: undefined });
+    });
+
+    const handleRevise = (revision: ReplyRevision) => runWithBusy(-1, async () => {
+        setSentences(await reviseReply(sentences, revision, tone, platform, language, arabicStyle));
+    });
+
+    const disabled = readOnly || isBusy;
+    const toolButton = "p-1 rounded text-gray-400 hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed";
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="grid grid-cols-2 gap-4">
+                <h4 dir={languageInfo.rtl ? 'rtl' : 'ltr'} className="font-semibold text-white">{languageInfo.name} {languageInfo.flag}</h4>
+                <h4 dir="rtl" className="font-semibold text-white">Arabic 🇸🇦</h4>
+            </div>
+
+            {sentences.map((s, i) => {
+                // Verified quotations can be moved or removed, but their wording is fixed.
+                const citation = s.citationId ? getCitation(s.citationId) : undefined;
+                const quoted = findQuotedCitation(s);
+                const locked = disabled || Boolean(citation);
+                return (
+                    <div key={i} className={`group p-2 rounded-md border ${citation ? 'border-green-600/50' : s.edited ? 'border-accent-teal/40' : 'border-gray-600'} bg-primary-dark ${busyIndex === i || busyIndex === -1 ? 'animate-pulse' : ''}`}>
+                        <div className="grid grid-cols-2 gap-4">
+                            <textarea dir={languageInfo.rtl ? 'rtl' : 'ltr'} value={s.studentSentence} readOnly={locked} rows={rowsFor(s.studentSentence)} onChange={e => handleEdit(i, 'student', e.target.value)} aria-label={`${languageInfo.name} sentence ${i + 1}`} className={`w-full bg-transparent text-gray-300 resize-none focus:outline-none focus:bg-white/5 rounded ${languageInfo.rtl ? 'font-arabic' : ''}`} />
+                            <div>
+                                <textarea dir="rtl" value={s.arabicSentence} readOnly={locked} rows={rowsFor(s.arabicSentence)} onChange={e => handleEdit(i, 'ar', e.target.value)} aria-label={`Arabic sentence ${i + 1}`} className="w-full bg-transparent text-gray-300 resize-none font-arabic focus:outline-none focus:bg-white/5 rounded" />
+                                {s.transliteration && <p className="text-xs italic text-gray-400" title="Transliteration">{s.transliteration}</p>}
+                            </div>
+                        </div>
+                        {citation && (
+                            <p className="mt-1 text-xs text-green-300" title="Text and reference come from the verified citation library">
+                                📖 {citation.reference} · ✓ Verified
+                            </p>
+                        )}
+                        {quoted && (
+                            <p className="mt-1 text-xs text-yellow-300">
+                                📖 Quotes {quoted.reference} from the verified library; the rest of the sentence is the AI's own wording. Check it before sending.
+                            </p>
+                        )}
+                        {isUnverifiedQuotation(s) && (
+                            <p className="mt-1 text-xs text-yellow-300">
+                                ⚠️ This looks like a quotation that is not in the verified library. Check the wording and reference before sending.
+                            </p>
+                        )}
+                        {!readOnly && (
+                            <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+                                {s.staleSide && (
+                                    <button onClick={() => handleRetranslate(i)} disabled={disabled} className="px-2 py-0.5 rounded bg-yellow-700/40 text-yellow-200 hover:bg-yellow-700/60 disabled:opacity-50">
+                                        ↻ Re-translate into {s.staleSide === 'student' ? 'Arabic' : languageInfo.name}
+                                    </button>
+                                )}
+                                <span className="ml-auto flex items-center gap-1 opacity-60 group-hover:opacity-100">
+                                    <button onClick={() => setSentences(prev => moveSentence(prev, i, -1))} disabled={disabled || i === 0} aria-label="Move sentence up" className={toolButton}>↑</button>
+                                    <button onClick={() => setSentences(prev => moveSentence(prev, i, 1))} disabled={disabled || i === sentences.length - 1} aria-label="Move sentence down" className={toolButton}>↓</button>
+                                    <button onClick={() => handleRegenerate(i)} disabled={locked} aria-label="Regenerate sentence" className={toolButton}><RegenerateIcon className="w-4 h-4" /></button>
+                                    <button onClick={() => setSentences(prev => prev.filter((_, j) => j !== i))} disabled={disabled || sentences.length === 1} aria-label="Delete sentence" className={toolButton}><TrashIcon className="w-4 h-4" /></button>
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+
+            {!readOnly && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-400">Make it:</span>
+                    {REVISIONS.map(r => (
+                        <button key={r.value} onClick={() => handleRevise(r.value)} disabled={disabled} className="px-3 py-1 rounded-full bg-white/10 text-gray-200 hover:bg-white/20 disabled:opacity-50">
+                            {r.label}
+                        </button>
+                    ))}
+                    {sentences.some(s => s.edited) && <span className="text-xs text-gray-400">Your edited sentences are kept as-is.</span>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReplyEditor;
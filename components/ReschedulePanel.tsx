@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { CopyIcon, ExportIcon } from './icons';
+import { ReschedulePlan, SLOT_STATUS_LABELS, SlotStatus, TimeSlot, buildIcsEvent, describeSlot } from '../services/scheduleService';
+import { downloadTextFile } from '../services/download';
+
+interface ReschedulePanelProps {
+    plan: ReschedulePlan;
+    teacherName: string;
+    studentName?: string;
+}
+
+const STATUS_STYLES: Record<SlotStatus, string> = {
+    free: 'bg-green-500/20 text-green-200',
+    booked: 'bg-red-500/20 text-red-200',
+    unavailable: 'bg-yellow-500/20 text-yellow-200',
+    past: 'bg-gray-500/20 text-gray-300',
+};
+
+// Proposed times checked against the teacher's week, and free slots with calendar invites.
+const ReschedulePanel: React.FC<ReschedulePanelProps> = ({ plan, teacherName, studentName }) => {
+    const [copiedSlot, setCopiedSlot] = useState<number | null>(null);
+
+    const describe = (slot: TimeSlot) => describeSlot(slot, plan.studentTimeZone, plan.teacherTimeZone);
+
+    const buildInvite = (slot: TimeSlot) => buildIcsEvent({
+        slot,
+        // The invite is sent to the student, so it is written from their side.
+        summary: `Lesson with ${teacherName}`,
+        description: `Rescheduled ${plan.durationMinutes}-minute lesson${studentName ? ` for ${studentName}` : ''} with ${teacherName}.`,
+    });
+
+    const handleCopy = (slot: TimeSlot, index: number) => {
+        navigator.clipboard.writeText(buildInvite(slot));
+        setCopiedSlot(index);
+        setTimeout(() => setCopiedSlot(null), 2000);
+    };
+
+    const handleDownload = (slot: TimeSlot) => {
+        downloadTextFile(`lesson-${slot.start.toISOString().slice(0, 16).replace(/[:T]/g, '-')}.ics`, buildInvite(slot), 'text/calendar;charset=utf-8');
+    };
+
+    // Accepted proposals come first, so the teacher can send an invite for the time the student asked for.
+    const accepted = plan.proposals.filter(p => p.status === 'free');
+    const slots: (TimeSlot & { text?: string })[] = [
+        ...accepted,
+        ...plan.freeSlots.filter(slot => !accepted.some(p => p.start.getTime() === slot.start.getTime())),
+    ];
+
+    return (
+        <div className="bg-cyan-900/30 border border-cyan-400/30 p-3 rounded-lg text-sm text-cyan-100 flex flex-col gap-2">
+            <h3 className="font-bold">📅 Reschedule</h3>
+            {plan.proposals.length > 0 ? (
+                <ul className="flex flex-col gap-1">
+                    {plan.proposals.map((p, i) => (
+                        <li key={i} className="flex items-center justify-between gap-2">
+                            <span>“{p.text}” <span className="opacity-70">→ {describe(p)}</span></span>
+                            <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[p.status]}`}>{SLOT_STATUS_LABELS[p.status]}</span>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="opacity-70">No specific time was proposed.</p>
+            )}
+            {slots.length > 0 ? (
+                <ul className="flex flex-col gap-1">
+                    {slots.map((slot, i) => (
+                        <li key={i} className="flex items-center justify-between gap-2 bg-black/20 rounded px-2 py-1">
+                            <span>{slot.text ? '✓' : '🕒'} {describe(slot)}</span>
+                            <span className="flex gap-1 shrink-0">
+                                <button onClick={() => handleCopy(slot, i)} title="Copy calendar invite" className="p-1 rounded hover:bg-white/10">
+                                    {copiedSlot === i ? '✓' : <CopyIcon className="w-4 h-4" />}
+                                </button>
+                                <button onClick={() => handleDownload(slot)} title="Download .ics invite" className="p-1 rounded hover:bg-white/10">
+                                    <ExportIcon className="w-4 h-4" />
+                                </button>
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="opacity-70">No free slots in your availability over the next two weeks.</p>
+            )}
+            {plan.studentTimeZone !== plan.teacherTimeZone && (
+                <p className="text-xs opacity-70">Student: {plan.studentTimeZone} · You: {plan.teacherTimeZone}</p>
+            )}
+        </div>
+    );
+};
+
+export default ReschedulePanel;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { AppSettings, AvailabilityWindow, BookedLesson, Weekday } from '../types';
+import { DEFAULT_LESSON_MINUTES, WEEKDAY_OPTIONS } from '../constants';
+import { getLocalTimeZone, getTimeZoneOptions } from '../services/scheduleService';
+import { TrashIcon } from './icons';
+
+interface ScheduleSettingsProps {
+    settings: AppSettings;
+    update: <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => void;
+    inputClass: string;
+}
+
+const TIME_ZONES = getTimeZoneOptions();
+
+// Weekly availability and recurring lessons, used to find free slots when students ask to reschedule.
+const ScheduleSettings: React.FC<ScheduleSettingsProps> = ({ settings, update, inputClass }) => {
+    const availability = settings.availability || [];
+    const bookedLessons = settings.bookedLessons || [];
+    const lessonMinutes = settings.lessonMinutes || DEFAULT_LESSON_MINUTES;
+    const rowClass = "p-1 bg-primary-dark border border-gray-600 rounded-md text-white text-sm";
+
+    const updateWindow = (id: string, changes: Partial<AvailabilityWindow>) =>
+        update('availability', availability.map(w => w.id === id ? { ...w, ...changes } : w));
+    const updateLesson = (id: string, changes: Partial<BookedLesson>) =>
+        update('bookedLessons', bookedLessons.map(l => l.id === id ? { ...l, ...changes } : l));
+
+    const weekdaySelect = (value: Weekday, onChange: (weekday: Weekday) => void) => (
+        <select value={value} onChange={e => onChange(Number(e.target.value) as Weekday)} className={rowClass}>
+            {WEEKDAY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+    );
+
+    return (
+        <section className="flex flex-col gap-3">
+            <h3 className="text-sm font-bold uppercase tracking-wide text-gray-400">Schedule</h3>
+            <p className="text-xs text-gray-400">Used to check the times students propose and to offer free slots when they ask to reschedule.</p>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Your time zone</label>
+                    <select value={settings.timeZone || ''} onChange={e => update('timeZone', e.target.value || undefined)} className={inputClass}>
+                        <option value="">This device ({getLocalTimeZone()})</option>
+                        {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Lesson length (minutes)</label>
+                    <input type="number" min={15} max={180} step={15} value={lessonMinutes} onChange={e => update('lessonMinutes', Math.max(Number(e.target.value) || DEFAULT_LESSON_MINUTES, 15))} className={inputClass} />
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <label className="text-sm font-semibold text-gray-300">Weekly availability</label>
+                {availability.map(w => (
+                    <div key={w.id} className="flex items-center gap-2">
+                        {weekdaySelect(w.weekday, weekday => updateWindow(w.id, { weekday }))}
+                        <input type="time" value={w.start} onChange={e => updateWindow(w.id, { start: e.target.value })} className={rowClass} />
+                        <span className="text-gray-400">–</span>
+                        <input type="time" value={w.end} onChange={e => updateWindow(w.id, { end: e.target.value })} className={rowClass} />
+                        <button type="button" onClick={() => update('availability', availability.filter(x => x.id !== w.id))} aria-label="Remove availability" className="p-1 text-gray-400 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+                    </div>
+                ))}
+                <button type="button" onClick={() => update('availability', [...availability, { id: crypto.randomUUID(), weekday: 1, start: '16:00', end: '20:00' }])} className="self-start text-sm text-accent-teal hover:underline">+ Add availability</button>
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <label className="text-sm font-semibold text-gray-300">Booked weekly lessons</label>
+                {bookedLessons.map(l => (
+                    <div key={l.id} className="flex items-center gap-2">
+                        {weekdaySelect(l.weekday, weekday => updateLesson(l.id, { weekday }))}
+                        <input type="time" value={l.start} onChange={e => updateLesson(l.id, { start: e.target.value })} className={rowClass} />
+                        <input type="number" min={15} step={15} value={l.durationMinutes} onChange={e => updateLesson(l.id, { durationMinutes: Math.max(Number(e.target.value) || lessonMinutes, 15) })} aria-label="Duration in minutes" className={`${rowClass} w-20`} />
+                        <span className="text-xs text-gray-400">min</span>
+                        <button type="button" onClick={() => update('bookedLessons', bookedLessons.filter(x => x.id !== l.id))} aria-label="Remove lesson" className="p-1 text-gray-400 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+                    </div>
+                ))}
+                <button type="button" onClick={() => update('bookedLessons', [...bookedLessons, { id: crypto.randomUUID(), weekday: 1, start: '17:00', durationMinutes: lessonMinutes }])} className="self-start text-sm text-accent-teal hover:underline">+ Add booked lesson</button>
+            </div>
+        </section>
+    );
+};
+
+export default ScheduleSettings;
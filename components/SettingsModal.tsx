@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import { AppSettings, ArabicVariety, DiacritizationLevel, IntegrationPlatform, LanguageCode, ModelProviderId } from '../types';
+import { ARABIC_VARIETY_OPTIONS, CURRENCY_OPTIONS, DEFAULT_ARABIC_STYLE, DEFAULT_CURRENCY, DIACRITICS_OPTIONS, DEFAULT_FEW_SHOT_EXAMPLES, DEFAULT_REPLY_LANGUAGE, LANGUAGES, DEFAULT_LOCAL_ENDPOINT, DEFAULT_MODELS, DEFAULT_THREAD_WINDOW, MAX_FEW_SHOT_EXAMPLES, MAX_THREAD_WINDOW, PLATFORM_OPTIONS, PROVIDER_OPTIONS } from '../constants';
+import { getDetectionLanguages, getLanguage, REPLY_LANGUAGE_OPTIONS } from '../services/languageService';
+import { getProviderConfig } from '../services/modelProvider';
+import { clearResponseCache } from '../services/responseCache';
+import { CloseIcon } from './icons';
+import ScheduleSettings from './ScheduleSettings';
+
+interface SettingsModalProps {
+    settings: AppSettings;
+    onSave: (settings: AppSettings) => void;
+    onClose: () => void;
+    children?: React.ReactNode;
+}
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose, children }) => {
+    const [draft, setDraft] = useState<AppSettings>(settings);
+    const [cacheCleared, setCacheCleared] = useState(false);
+
+    // Settings can change underneath the form, e.g. when a backup is restored.
+    useEffect(() => setDraft(settings), [settings]);
+    const provider = draft.provider || ModelProviderId.GEMINI;
+
+    const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) =>
+        setDraft(d => ({ ...d, [key]: value }));
+
+    const detectionLanguages = getDetectionLanguages(draft);
+    const otherLanguages = detectionLanguages.filter(code => !LANGUAGES.some(l => l.code === code));
+    const toggleLanguage = (code: LanguageCode, enabled: boolean) =>
+        update('detectionLanguages', enabled ? [...detectionLanguages, code] : detectionLanguages.filter(c => c !== code));
+    const setOtherLanguages = (text: string) => {
+        const codes = text.toLowerCase().split(/[\s,]+/).filter(code => /^[a-z]{2,3}$/.test(code));
+        update('detectionLanguages', [...detectionLanguages.filter(code => LANGUAGES.some(l => l.code === code)), ...new Set(codes)]);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(draft);
+        onClose();
+    };
+
+    const inputClass = "w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white";
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+            <form onSubmit={handleSubmit} onClick={e => e.stopPropagation()} className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-secondary-dark p-6 rounded-lg flex flex-col gap-4 text-white shadow-xl">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-bold">Settings</h2>
+                    <button type="button" onClick={onClose} aria-label="Close settings" className="p-1 text-gray-400 hover:text-white"><CloseIcon /></button>
+                </div>
+
+                <section className="flex flex-col gap-3">
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-gray-400">Teacher</h3>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Name</label>
+                        <input value={draft.teacherName} onChange={e => update('teacherName', e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Email address (optional)</label>
+                        <input type="email" value={draft.teacherEmail || ''} onChange={e => update('teacherEmail', e.target.value.trim())} placeholder="Sender of downloaded email drafts" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Signature</label>
+                        <textarea value={draft.signature} onChange={e => update('signature', e.target.value)} className={`${inputClass} h-20 resize-none`} />
+                    </div>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Platform</label>
+                        <select value={draft.platform} onChange={e => update('platform', e.target.value as IntegrationPlatform)} className={inputClass}>
+                            {PLATFORM_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                    </div>
+                </section>
+
+                <section className="flex flex-col gap-3">
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-gray-400">Languages</h3>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Languages to detect in student messages</label>
+                        <div className="grid grid-cols-2 gap-1 mt-1">
+                            {LANGUAGES.map(l => (
+                                <label key={l.code} className="flex items-center gap-2 text-sm text-gray-300">
+                                    <input type="checkbox" checked={l.code === 'ar' || detectionLanguages.includes(l.code)} disabled={l.code === 'ar'} onChange={e => toggleLanguage(l.code, e.target.checked)} />
+                                    {l.flag} {l.name}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Other languages (ISO codes, comma-separated)</label>
+                        <input key={otherLanguages.join()} defaultValue={otherLanguages.join(', ')} onBlur={e => setOtherLanguages(e.target.value)} placeholder="e.g. fa, so, sw" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Reply language when a student has none set and the message language is unknown</label>
+                        <select value={draft.defaultReplyLanguage || DEFAULT_REPLY_LANGUAGE} onChange={e => update('defaultReplyLanguage', e.target.value)} className={inputClass}>
+                            {REPLY_LANGUAGE_OPTIONS.map(l => <option key={l.code} value={l.code}>{l.flag} {l.name}</option>)}
+                            {otherLanguages.map(code => <option key={code} value={code}>{getLanguage(code).flag} {getLanguage(code).name}</option>)}
+                        </select>
+                    </div>
+                </section>
+
+                <section className="flex flex-col gap-3">
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-gray-400">Arabic</h3>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Variety <span className="font-normal text-gray-400">(students can override it)</span></label>
+                        <select value={draft.arabicVariety || DEFAULT_ARABIC_STYLE.variety} onChange={e => update('arabicVariety', e.target.value as ArabicVariety)} className={inputClass}>
+                            {ARABIC_VARIETY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Diacritics</label>
+                        <select value={draft.diacritics || DEFAULT_ARABIC_STYLE.diacritics} onChange={e => update('diacritics', e.target.value as DiacritizationLevel)} className={inputClass}>
+                            {DIACRITICS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={draft.transliteration ?? DEFAULT_ARABIC_STYLE.transliteration} onChange={e => update('transliteration', e.target.checked)} />
+                        Add a Latin-script transliteration under each Arabic sentence
+                    </label>
+                </section>
+
+                <ScheduleSettings settings={draft} update={update} inputClass={inputClass} />
+
+                <section className="flex flex-col gap-3">
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-gray-400">Payments</h3>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Default currency <span className="font-normal text-gray-400">(students can override it in their ledger)</span></label>
+                        <select value={draft.currency || DEFAULT_CURRENCY} onChange={e => update('currency', e.target.value)} className={inputClass}>
+                            {CURRENCY_OPTIONS.map(code => <option key={code} value={code}>{code}</option>)}
+                        </select>
+                    </div>
+                </section>
+
+                <section className="flex flex-col gap-3">
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-gray-400">Conversation Memory</h3>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Recent messages included in each prompt</label>
+                        <input type="number" min={0} max={MAX_THREAD_WINDOW} value={draft.threadWindow ?? DEFAULT_THREAD_WINDOW} onChange={e => update('threadWindow', Math.min(Math.max(Number(e.target.value) || 0, 0), MAX_THREAD_WINDOW))} className={inputClass} />
+                    </div>
+                </section>
+
+                <section className="flex flex-col gap-3">
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-gray-400">Learning From Ratings</h3>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={draft.learnFromRatings !== false} onChange={e => update('learnFromRatings', e.target.checked)} />
+                        Use my 👍 replies as examples and avoid the style of my 👎 replies
+                    </label>
+                    {draft.learnFromRatings !== false && (
+                        <div>
+                            <label className="text-sm font-semibold text-gray-300">Approved examples included in each prompt</label>
+                            <input type="number" min={0} max={MAX_FEW_SHOT_EXAMPLES} value={draft.fewShotExamples ?? DEFAULT_FEW_SHOT_EXAMPLES} onChange={e => update('fewShotExamples', Math.min(Math.max(Number(e.target.value) || 0, 0), MAX_FEW_SHOT_EXAMPLES))} className={inputClass} />
+                        </div>
+                    )}
+                </section>
+
+                <section className="flex flex-col gap-3">
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-gray-400">AI Model</h3>
+                    <div>
+                        <label className="text-sm font-semibold text-gray-300">Provider</label>
+                        <select value={provider} onChange={e => setDraft(d => ({ ...d, provider: e.target.value as ModelProviderId, model: '' }))} className={inputClass}>
+                            {PROVIDER_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                    </div>
+                    {provider !== ModelProviderId.FIXTURE && (
+                        <div>
+                            <label className="text-sm font-semibold text-gray-300">Model</label>
+                            <input value={draft.model || ''} onChange={e => update('model', e.target.value)} placeholder={DEFAULT_MODELS[provider]} className={inputClass} />
+                        </div>
+                    )}
+                    {provider === ModelProviderId.OPENAI_COMPATIBLE && (
+                        <>
+                            <div>
+                                <label className="text-sm font-semibold text-gray-300">Endpoint URL</label>
+                                <input value={draft.localEndpoint || ''} onChange={e => update('localEndpoint', e.target.value)} placeholder={DEFAULT_LOCAL_ENDPOINT} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className="text-sm font-semibold text-gray-300">API Key (optional)</label>
+                                <input type="password" value={draft.localApiKey || ''} onChange={e => update('localApiKey', e.target.value)} className={inputClass} />
+                            </div>
+                        </>
+                    )}
+                    {provider === ModelProviderId.FIXTURE && (
+                        <p className="text-xs text-gray-400">Replies are canned examples generated without any network access. Useful for demos and testing.</p>
+                    )}
+                    {provider !== ModelProviderId.FIXTURE && (
+                        <div>
+                            <label className="text-sm font-semibold text-gray-300">Requests per minute (0 for no limit)</label>
+                            <input type="number" min={0} value={draft.requestsPerMinute ?? getProviderConfig(draft).requestsPerMinute} onChange={e => update('requestsPerMinute', Math.max(Number(e.target.value) || 0, 0))} className={inputClass} />
+                            <p className="text-xs text-gray-400 mt-1">Extra requests wait their turn instead of failing, which keeps a free-tier key under its quota.</p>
+                        </div>
+                    )}
+                    <div className="flex items-center justify-between gap-2">
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input type="checkbox" checked={draft.cacheResponses !== false} onChange={e => update('cacheResponses', e.target.checked)} />
+                            Reuse the reply when the same message is drafted again with the same options
+                        </label>
+                        <button type="button" onClick={() => { clearResponseCache(); setCacheCleared(true); }} disabled={cacheCleared} className="shrink-0 px-2 py-1 rounded text-sm text-gray-300 hover:bg-white/10 disabled:opacity-50">
+                            {cacheCleared ? 'Cache cleared' : 'Clear cache'}
+                        </button>
+                    </div>
+                </section>
+
+                {children}
+
+                <div className="flex justify-end gap-2">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-lg text-gray-300 hover:bg-white/10">Cancel</button>
+                    <button type="submit" className="px-4 py-2 bg-accent-teal hover:bg-accent-teal-dark rounded-lg font-bold">Save</button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default SettingsModal;
@@ -0,0 +1,315 @@
+import React, { useMemo, useState } from 'react';
+import { AppSettings, ArabicVariety, DiacritizationLevel, GuardianContact, IntegrationPlatform, ReplyTone, Student, StudentSortKey, ToneId } from '../types';
+import { ARABIC_VARIETY_OPTIONS, DIACRITICS_OPTIONS, PLATFORM_OPTIONS } from '../constants';
+import { ToneOption } from '../services/templateService';
+import { getLanguage, REPLY_LANGUAGE_OPTIONS } from '../services/languageService';
+import { getTimeZoneOptions } from '../services/scheduleService';
+import { describeArabicStyle, resolveArabicStyle } from '../services/arabicStyleService';
+import { describeGuardian } from '../services/guardianService';
+import { describeBalance, hasLedger, ledgerStatementToCsv, summarizeLedger } from '../services/ledgerService';
+import { downloadTextFile } from '../services/download';
+import { CloseIcon, SearchIcon, TrashIcon } from './icons';
+import LedgerEditor from './LedgerEditor';
+
+interface StudentsViewProps {
+    students: Student[];
+    setStudents: React.Dispatch<React.SetStateAction<Student[]>>;
+    onUseStudent: (studentId: string) => void;
+    // Deletes the student and everything recorded about them.
+    onDeleteStudent: (studentId: string) => void;
+    onOpenThread: (studentId: string) => void;
+    toneOptions: ToneOption[];
+    settings: AppSettings;
+}
+
+// Empty Arabic choices mean "use the teacher's setting".
+type StudentDraft = Pick<Student, 'name' | 'preferredTone' | 'preferredLanguage' | 'timeZone' | 'notes' | 'nextLesson'> & {
+    arabicVariety: ArabicVariety | '';
+    diacritics: DiacritizationLevel | '';
+    transliteration: '' | 'on' | 'off';
+    guardians: GuardianContact[];
+};
+
+const EMPTY_DRAFT: StudentDraft = { name: '', preferredTone: ReplyTone.FRIENDLY, preferredLanguage: '', timeZone: '', notes: '', nextLesson: '', arabicVariety: '', diacritics: '', transliteration: '', guardians: [] };
+
+const toArabicFields = (draft: StudentDraft): Pick<Student, 'arabicVariety' | 'diacritics' | 'transliteration'> => ({
+    arabicVariety: draft.arabicVariety || undefined,
+    diacritics: draft.diacritics || undefined,
+    transliteration: draft.transliteration ? draft.transliteration === 'on' : undefined,
+});
+
+// Guardians without a name are dropped; empty language and platform mean the defaults.
+const toGuardians = (draft: StudentDraft): GuardianContact[] | undefined => {
+    const guardians = draft.guardians
+        .map(g => ({ ...g, name: g.name.trim(), relation: g.relation.trim(), preferredLanguage: g.preferredLanguage || undefined, platform: g.platform || undefined }))
+        .filter(g => g.name);
+    return guardians.length > 0 ? guardians : undefined;
+};
+
+const TIME_ZONES = getTimeZoneOptions();
+
+const SORT_OPTIONS: { value: StudentSortKey; label: string }[] = [
+    { value: 'name', label: 'Name (A–Z)' },
+    { value: 'lastContactedAt', label: 'Last contacted' },
+    { value: 'totalMessages', label: 'Most messages' },
+];
+
+const compareStudents = (a: Student, b: Student, key: StudentSortKey): number => {
+    switch (key) {
+        case 'lastContactedAt':
+            // Never-contacted students sink to the bottom.
+            return (b.lastContactedAt || '').localeCompare(a.lastContactedAt || '');
+        case 'totalMessages':
+            return b.totalMessages - a.totalMessages;
+        case 'name':
+        default:
+            return a.name.localeCompare(b.name);
+    }
+};
+
+const formatDate = (iso: string) => iso ? new Date(iso).toLocaleDateString() : 'Never';
+
+const StudentsView: React.FC<StudentsViewProps> = ({ students, setStudents, onUseStudent, onDeleteStudent, onOpenThread, toneOptions, settings }) => {
+    const [query, setQuery] = useState('');
+    const [sortKey, setSortKey] = useState<StudentSortKey>('name');
+    const [showArchived, setShowArchived] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<StudentDraft>(EMPTY_DRAFT);
+    const [formError, setFormError] = useState<string | null>(null);
+    const [ledgerId, setLedgerId] = useState<string | null>(null);
+    const [statementMonth, setStatementMonth] = useState(new Date().toISOString().slice(0, 7));
+
+    const visibleStudents = useMemo(() => {
+        const q = query.trim().toLowerCase();
+        return students
+            .filter(s => showArchived ? s.archived : !s.archived)
+            .filter(s => !q || s.name.toLowerCase().includes(q) || (s.notes || '').toLowerCase().includes(q))
+            .sort((a, b) => compareStudents(a, b, sortKey));
+    }, [students, query, sortKey, showArchived]);
+
+    const resetForm = () => {
+        setEditingId(null);
+        setDraft(EMPTY_DRAFT);
+        setFormError(null);
+    };
+
+    const addGuardian = () =>
+        setDraft(d => ({ ...d, guardians: [...d.guardians, { id: crypto.randomUUID(), name: '', relation: '' }] }));
+    const updateGuardian = (id: string, changes: Partial<GuardianContact>) =>
+        setDraft(d => ({ ...d, guardians: d.guardians.map(g => g.id === id ? { ...g, ...changes } : g) }));
+    const removeGuardian = (id: string) =>
+        setDraft(d => ({ ...d, guardians: d.guardians.filter(g => g.id !== id) }));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = draft.name.trim();
+        if (!name) {
+            setFormError("Please enter the student's name.");
+            return;
+        }
+        const duplicate = students.some(s => s.id !== editingId && s.name.toLowerCase() === name.toLowerCase());
+        if (duplicate) {
+            setFormError(`A student named "${name}" already exists.`);
+            return;
+        }
+
+        if (editingId) {
+            // An empty language means "use the language the student writes in"; an empty zone means the teacher's.
+            setStudents(prev => prev.map(s => s.id === editingId ? { ...s, ...draft, ...toArabicFields(draft), guardians: toGuardians(draft), name, preferredLanguage: draft.preferredLanguage || undefined, timeZone: draft.timeZone || undefined } : s));
+        } else {
+            const student: Student = {
+                id: crypto.randomUUID(),
+                name,
+                preferredTone: draft.preferredTone,
+                preferredLanguage: draft.preferredLanguage || undefined,
+                timeZone: draft.timeZone || undefined,
+                ...toArabicFields(draft),
+                guardians: toGuardians(draft),
+                notes: draft.notes,
+                nextLesson: draft.nextLesson,
+                lastContactedAt: '',
+                totalMessages: 0,
+                archived: false,
+                createdAt: new Date().toISOString(),
+            };
+            setStudents(prev => [...prev, student]);
+        }
+        resetForm();
+    };
+
+    const handleEdit = (student: Student) => {
+        setEditingId(student.id);
+        setDraft({ name: student.name, preferredTone: student.preferredTone, preferredLanguage: student.preferredLanguage || '', timeZone: student.timeZone || '', notes: student.notes || '', nextLesson: student.nextLesson || '',
+            arabicVariety: student.arabicVariety || '', diacritics: student.diacritics || '',
+            transliteration: student.transliteration === undefined ? '' : student.transliteration ? 'on' : 'off',
+            guardians: student.guardians || [],
+        });
+        setFormError(null);
+    };
+
+    const handleToggleArchive = (id: string) => {
+        setStudents(prev => prev.map(s => s.id === id ? { ...s, archived: !s.archived } : s));
+        if (editingId === id) resetForm();
+    };
+
+    const handleDelete = (student: Student) => {
+        if (!window.confirm(`Delete ${student.name} with their conversation thread, reminders, insights and booked lessons? This cannot be undone. To keep them, archive the student instead.`)) return;
+        onDeleteStudent(student.id);
+        if (editingId === student.id) resetForm();
+    };
+
+    const handleLedgerChange = (id: string, changes: Partial<Pick<Student, 'ledger' | 'currency'>>) =>
+        setStudents(prev => prev.map(s => s.id === id ? { ...s, ...changes } : s));
+
+    const handleExportStatements = () => {
+        downloadTextFile(`statements-${statementMonth}.csv`, ledgerStatementToCsv(students, statementMonth, settings), 'text/csv;charset=utf-8');
+    };
+
+    const toneLabel = (tone: ToneId) => toneOptions.find(o => o.value === tone)?.label || tone;
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 text-white">
+            {/* Add / Edit form */}
+            <form onSubmit={handleSubmit} className="bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3 h-fit">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-lg font-bold">{editingId ? 'Edit Student' : 'Add Student'}</h3>
+                    {editingId && (
+                        <button type="button" onClick={resetForm} aria-label="Cancel editing" className="p-1 text-gray-400 hover:text-white"><CloseIcon /></button>
+                    )}
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Name</label>
+                    <input value={draft.name} onChange={e => setDraft(d => ({ ...d, name: e.target.value }))} className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white" />
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Preferred Tone</label>
+                    <select value={draft.preferredTone} onChange={e => setDraft(d => ({ ...d, preferredTone: e.target.value }))} className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                        {toneOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Reply Language <span className="font-normal text-gray-400">(paired with Arabic)</span></label>
+                    <select value={draft.preferredLanguage} onChange={e => setDraft(d => ({ ...d, preferredLanguage: e.target.value }))} className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                        <option value="">Same as their message</option>
+                        {REPLY_LANGUAGE_OPTIONS.map(l => <option key={l.code} value={l.code}>{l.flag} {l.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Time Zone</label>
+                    <select value={draft.timeZone} onChange={e => setDraft(d => ({ ...d, timeZone: e.target.value }))} className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                        <option value="">Same as mine</option>
+                        {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Arabic <span className="font-normal text-gray-400">(blank uses your settings)</span></label>
+                    <div className="grid grid-cols-3 gap-2">
+                        <select value={draft.arabicVariety} onChange={e => setDraft(d => ({ ...d, arabicVariety: e.target.value as StudentDraft['arabicVariety'] }))} aria-label="Arabic variety" className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                            <option value="">Default variety</option>
+                            {ARABIC_VARIETY_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                        <select value={draft.diacritics} onChange={e => setDraft(d => ({ ...d, diacritics: e.target.value as StudentDraft['diacritics'] }))} aria-label="Diacritics" className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                            <option value="">Default tashkeel</option>
+                            {DIACRITICS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                        <select value={draft.transliteration} onChange={e => setDraft(d => ({ ...d, transliteration: e.target.value as StudentDraft['transliteration'] }))} aria-label="Transliteration" className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                            <option value="">Default transliteration</option>
+                            <option value="on">Transliteration on</option>
+                            <option value="off">Transliteration off</option>
+                        </select>
+                    </div>
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Parents & Guardians <span className="font-normal text-gray-400">(for children whose parents write in)</span></label>
+                    {draft.guardians.map(g => (
+                        <div key={g.id} className="mt-1 p-2 grid grid-cols-2 gap-2 border border-gray-700 rounded-md">
+                            <input value={g.name} onChange={e => updateGuardian(g.id, { name: e.target.value })} placeholder="Name" aria-label="Guardian name" className="p-2 bg-primary-dark border border-gray-600 rounded-md text-white" />
+                            <input value={g.relation} onChange={e => updateGuardian(g.id, { relation: e.target.value })} placeholder="Relation, e.g. Mother" aria-label="Relation" className="p-2 bg-primary-dark border border-gray-600 rounded-md text-white" />
+                            <select value={g.preferredLanguage || ''} onChange={e => updateGuardian(g.id, { preferredLanguage: e.target.value || undefined })} aria-label="Guardian's reply language" className="p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                                <option value="">Same as their message</option>
+                                {REPLY_LANGUAGE_OPTIONS.map(l => <option key={l.code} value={l.code}>{l.flag} {l.name}</option>)}
+                            </select>
+                            <select value={g.platform || ''} onChange={e => updateGuardian(g.id, { platform: (e.target.value || undefined) as IntegrationPlatform | undefined })} aria-label="Guardian's platform" className="p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                                <option value="">My default platform</option>
+                                {PLATFORM_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                            </select>
+                            <button type="button" onClick={() => removeGuardian(g.id)} className="col-span-2 justify-self-end text-xs text-gray-400 hover:text-red-300">Remove</button>
+                        </div>
+                    ))}
+                    <button type="button" onClick={addGuardian} className="mt-1 text-sm text-accent-teal hover:underline">+ Add parent or guardian</button>
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Next Lesson</label>
+                    <input value={draft.nextLesson} onChange={e => setDraft(d => ({ ...d, nextLesson: e.target.value }))} placeholder="e.g. Tuesday 5 pm" className="w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white" />
+                </div>
+                <div>
+                    <label className="text-sm font-semibold text-gray-300">Teacher Notes <span className="font-normal text-gray-400">(used as context for replies)</span></label>
+                    <textarea value={draft.notes} onChange={e => setDraft(d => ({ ...d, notes: e.target.value }))} className="w-full mt-1 h-20 p-2 bg-primary-dark border border-gray-600 rounded-md text-gray-200 resize-none" />
+                </div>
+                {formError && <p className="text-sm text-red-300">{formError}</p>}
+                <button type="submit" className="p-2 bg-accent-teal hover:bg-accent-teal-dark rounded-lg font-bold">
+                    {editingId ? 'Save Changes' : '＋ Add Student'}
+                </button>
+            </form>
+
+            {/* Roster */}
+            <div className="lg:col-span-2 bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3">
+                <div className="flex flex-wrap items-center gap-2">
+                    <div className="relative flex-1 min-w-[180px]">
+                        <span className="absolute left-2 top-2 text-gray-400"><SearchIcon className="w-5 h-5" /></span>
+                        <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search students..." className="w-full p-2 pl-9 bg-primary-dark border border-gray-600 rounded-md text-white" />
+                    </div>
+                    <select value={sortKey} onChange={e => setSortKey(e.target.value as StudentSortKey)} className="p-2 bg-primary-dark border border-gray-600 rounded-md text-white">
+                        {SORT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} />
+                        Archived
+                    </label>
+                    {students.some(hasLedger) && (
+                        <div className="flex items-center gap-1">
+                            <input type="month" value={statementMonth} onChange={e => setStatementMonth(e.target.value)} aria-label="Statement month" className="p-2 bg-primary-dark border border-gray-600 rounded-md text-white" />
+                            <button onClick={handleExportStatements} className="px-2 py-2 rounded text-sm text-gray-300 hover:bg-white/10">📄 Statements</button>
+                        </div>
+                    )}
+                </div>
+
+                {visibleStudents.length === 0 ? (
+                    <p className="text-gray-400 text-center py-8">
+                        {students.length === 0 ? 'No students yet. Add your first student to get started.' : 'No students match your search.'}
+                    </p>
+                ) : (
+                    <ul className="divide-y divide-gray-700">
+                        {visibleStudents.map(s => (
+                            <li key={s.id} className="py-3 flex flex-wrap items-center justify-between gap-2">
+                                <div>
+                                    <p className="font-semibold">{s.name}</p>
+                                    <p className="text-xs text-gray-400">
+                                        {toneLabel(s.preferredTone)}{s.preferredLanguage && ` · ${getLanguage(s.preferredLanguage).flag} ${getLanguage(s.preferredLanguage).name}`}{s.timeZone && ` · 🕒 ${s.timeZone}`}{(s.arabicVariety || s.diacritics || s.transliteration !== undefined) && ` · ${describeArabicStyle(resolveArabicStyle(settings, s))}`}{hasLedger(s) && ` · 💰 ${describeBalance(summarizeLedger(s, settings))}`} · {s.totalMessages} messages · Last contacted: {formatDate(s.lastContactedAt)}
+                                    </p>
+                                    {s.guardians && s.guardians.length > 0 && <p className="text-xs text-gray-400">👪 {s.guardians.map(describeGuardian).join(', ')}</p>}
+                                    {s.notes && <p className="text-xs text-gray-400 mt-1">{s.notes}</p>}
+                                </div>
+                                <div className="flex items-center gap-2 text-sm">
+                                    {!s.archived && <button onClick={() => onUseStudent(s.id)} className="px-2 py-1 rounded bg-accent-teal/20 text-accent-teal hover:bg-accent-teal/30">Reply</button>}
+                                    <button onClick={() => onOpenThread(s.id)} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10">🧵 Thread</button>
+                                    <button onClick={() => setLedgerId(ledgerId === s.id ? null : s.id)} aria-expanded={ledgerId === s.id} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10">💰 Ledger</button>
+                                    <button onClick={() => handleEdit(s)} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10">Edit</button>
+                                    <button onClick={() => handleToggleArchive(s.id)} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10">{s.archived ? 'Restore' : 'Archive'}</button>
+                                    <button onClick={() => handleDelete(s)} aria-label={`Delete ${s.name}`} className="p-1 rounded text-gray-400 hover:text-red-300"><TrashIcon className="w-5 h-5" /></button>
+                                </div>
+                                {ledgerId === s.id && (
+                                    <div className="w-full">
+                                        <LedgerEditor student={s} settings={settings} onChange={changes => handleLedgerChange(s.id, changes)} />
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default StudentsView;
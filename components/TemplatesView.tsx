@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { CustomTone, MessageType, QuickReplyTemplate } from '../types';
+import { MESSAGE_TYPE_OPTIONS, TEMPLATE_VARIABLES } from '../constants';
+import { moveTemplate, sortTemplates } from '../services/templateService';
+import { CloseIcon, TrashIcon } from './icons';
+
+interface TemplatesViewProps {
+    customTones: CustomTone[];
+    setCustomTones: React.Dispatch<React.SetStateAction<CustomTone[]>>;
+    templates: QuickReplyTemplate[];
+    setTemplates: React.Dispatch<React.SetStateAction<QuickReplyTemplate[]>>;
+}
+
+type ToneDraft = Omit<CustomTone, 'id' | 'examples'> & { examples: string };
+type TemplateDraft = Omit<QuickReplyTemplate, 'id' | 'order'>;
+
+const EMPTY_TONE: ToneDraft = { name: '', emoji: '', instructions: '', examples: '' };
+const EMPTY_TEMPLATE: TemplateDraft = { label: '', message: '', category: MessageType.GENERAL };
+
+const inputClass = "w-full mt-1 p-2 bg-primary-dark border border-gray-600 rounded-md text-white";
+
+const TemplatesView: React.FC<TemplatesViewProps> = ({ customTones, setCustomTones, templates, setTemplates }) => {
+    const [toneDraft, setToneDraft] = useState<ToneDraft>(EMPTY_TONE);
+    const [editingToneId, setEditingToneId] = useState<string | null>(null);
+    const [templateDraft, setTemplateDraft] = useState<TemplateDraft>(EMPTY_TEMPLATE);
+    const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+    const [formError, setFormError] = useState<string | null>(null);
+
+    const sortedTemplates = useMemo(() => sortTemplates(templates), [templates]);
+
+    // === Tones ===
+
+    const resetTone = () => {
+        setToneDraft(EMPTY_TONE);
+        setEditingToneId(null);
+    };
+
+    const handleSubmitTone = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!toneDraft.name.trim() || !toneDraft.instructions.trim()) {
+            setFormError("A tone needs a name and instructions.");
+            return;
+        }
+        const tone: CustomTone = {
+            id: editingToneId || `tone-${crypto.randomUUID()}`,
+            name: toneDraft.name.trim(),
+            emoji: toneDraft.emoji.trim(),
+            instructions: toneDraft.instructions.trim(),
+            examples: toneDraft.examples.split('\n').map(l => l.trim()).filter(Boolean),
+        };
+        setCustomTones(prev => editingToneId ? prev.map(t => t.id === editingToneId ? tone : t) : [...prev, tone]);
+        setFormError(null);
+        resetTone();
+    };
+
+    const handleEditTone = (tone: CustomTone) => {
+        setEditingToneId(tone.id);
+        setToneDraft({ ...tone, examples: tone.examples.join('\n') });
+    };
+
+    const handleDeleteTone = (tone: CustomTone) => {
+        if (!window.confirm(`Delete the "${tone.name}" tone? Students using it will fall back to Friendly.`)) return;
+        setCustomTones(prev => prev.filter(t => t.id !== tone.id));
+        if (editingToneId === tone.id) resetTone();
+    };
+
+    // === Templates ===
+
+    const resetTemplate = () => {
+        setTemplateDraft(EMPTY_TEMPLATE);
+        setEditingTemplateId(null);
+    };
+
+    const handleSubmitTemplate = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!templateDraft.label.trim() || !templateDraft.message.trim()) {
+            setFormError("A template needs a label and a message.");
+            return;
+        }
+        const draft = { ...templateDraft, label: templateDraft.label.trim(), message: templateDraft.message.trim() };
+        if (editingTemplateId) {
+            setTemplates(prev => prev.map(t => t.id === editingTemplateId ? { ...t, ...draft } : t));
+        } else {
+            setTemplates(prev => [...prev, { ...draft, id: `tpl-${crypto.randomUUID()}`, order: prev.length }]);
+        }
+        setFormError(null);
+        resetTemplate();
+    };
+
+    const handleEditTemplate = (template: QuickReplyTemplate) => {
+        setEditingTemplateId(template.id);
+        setTemplateDraft({ label: template.label, message: template.message, category: template.category });
+    };
+
+    const handleDeleteTemplate = (id: string) => {
+        setTemplates(prev => sortTemplates(prev.filter(t => t.id !== id)).map((t, i) => ({ ...t, order: i })));
+        if (editingTemplateId === id) resetTemplate();
+    };
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-white">
+            {formError && <p className="lg:col-span-2 text-sm text-red-300">{formError}</p>}
+
+            {/* Custom tones */}
+            <section className="bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3">
+                <h3 className="text-lg font-bold">Custom Tones</h3>
+                <form onSubmit={handleSubmitTone} className="flex flex-col gap-2">
+                    <div className="grid grid-cols-[4rem_1fr] gap-2">
+                        <input value={toneDraft.emoji} onChange={e => setToneDraft(d => ({ ...d, emoji: e.target.value }))} placeholder="🎨" aria-label="Emoji" className={inputClass} />
+                        <input value={toneDraft.name} onChange={e => setToneDraft(d => ({ ...d, name: e.target.value }))} placeholder="Tone name, e.g. Gentle Coach" aria-label="Tone name" className={inputClass} />
+                    </div>
+                    <textarea value={toneDraft.instructions} onChange={e => setToneDraft(d => ({ ...d, instructions: e.target.value }))} placeholder="How should replies in this tone sound?" aria-label="Instructions" className={`${inputClass} h-20 resize-none`} />
+                    <textarea value={toneDraft.examples} onChange={e => setToneDraft(d => ({ ...d, examples: e.target.value }))} placeholder="Example sentences, one per line (optional)" aria-label="Examples" className={`${inputClass} h-20 resize-none`} />
+                    <div className="flex gap-2">
+                        <button type="submit" className="flex-1 p-2 bg-accent-teal hover:bg-accent-teal-dark rounded-lg font-bold">{editingToneId ? 'Save Tone' : '＋ Add Tone'}</button>
+                        {editingToneId && <button type="button" onClick={resetTone} aria-label="Cancel editing" className="p-2 text-gray-400 hover:text-white"><CloseIcon /></button>}
+                    </div>
+                </form>
+                <ul className="divide-y divide-gray-700">
+                    {customTones.length === 0 && <li className="text-gray-400 text-sm py-2">No custom tones yet.</li>}
+                    {customTones.map(t => (
+                        <li key={t.id} className="py-2 flex justify-between items-start gap-2">
+                            <div>
+                                <p className="font-semibold">{t.emoji} {t.name}</p>
+                                <p className="text-xs text-gray-400">{t.instructions}</p>
+                            </div>
+                            <div className="flex items-center gap-1 text-sm shrink-0">
+                                <button onClick={() => handleEditTone(t)} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10">Edit</button>
+                                <button onClick={() => handleDeleteTone(t)} aria-label={`Delete ${t.name}`} className="p-1 rounded text-gray-400 hover:text-red-300"><TrashIcon className="w-5 h-5" /></button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </section>
+
+            {/* Quick-reply templates */}
+            <section className="bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3">
+                <h3 className="text-lg font-bold">Quick-Reply Templates</h3>
+                <form onSubmit={handleSubmitTemplate} className="flex flex-col gap-2">
+                    <input value={templateDraft.label} onChange={e => setTemplateDraft(d => ({ ...d, label: e.target.value }))} placeholder="Chip label" aria-label="Label" className={inputClass} />
+                    <textarea value={templateDraft.message} onChange={e => setTemplateDraft(d => ({ ...d, message: e.target.value }))} placeholder="Message sent for generation" aria-label="Message" className={`${inputClass} h-20 resize-none`} />
+                    <p className="text-xs text-gray-400">Variables: {TEMPLATE_VARIABLES.join(', ')}</p>
+                    <select value={templateDraft.category} onChange={e => setTemplateDraft(d => ({ ...d, category: e.target.value as MessageType }))} aria-label="Category" className={inputClass}>
+                        {MESSAGE_TYPE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                    <div className="flex gap-2">
+                        <button type="submit" className="flex-1 p-2 bg-accent-teal hover:bg-accent-teal-dark rounded-lg font-bold">{editingTemplateId ? 'Save Template' : '＋ Add Template'}</button>
+                        {editingTemplateId && <button type="button" onClick={resetTemplate} aria-label="Cancel editing" className="p-2 text-gray-400 hover:text-white"><CloseIcon /></button>}
+                    </div>
+                </form>
+                <ul className="divide-y divide-gray-700">
+                    {sortedTemplates.length === 0 && <li className="text-gray-400 text-sm py-2">No templates yet.</li>}
+                    {sortedTemplates.map((t, i) => (
+                        <li key={t.id} className="py-2 flex justify-between items-start gap-2">
+                            <div>
+                                <p className="font-semibold">{t.label}</p>
+                                <p className="text-xs text-gray-400">{MESSAGE_TYPE_OPTIONS.find(o => o.value === t.category)?.label} · {t.message}</p>
+                            </div>
+                            <div className="flex items-center gap-1 text-sm shrink-0">
+                                <button onClick={() => setTemplates(prev => moveTemplate(prev, t.id, -1))} disabled={i === 0} aria-label="Move up" className="px-2 py-1 rounded text-gray-300 hover:bg-white/10 disabled:opacity-30">↑</button>
+                                <button onClick={() => setTemplates(prev => moveTemplate(prev, t.id, 1))} disabled={i === sortedTemplates.length - 1} aria-label="Move down" className="px-2 py-1 rounded text-gray-300 hover:bg-white/10 disabled:opacity-30">↓</button>
+                                <button onClick={() => handleEditTemplate(t)} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10">Edit</button>
+                                <button onClick={() => handleDeleteTemplate(t.id)} aria-label={`Delete ${t.label}`} className="p-1 rounded text-gray-400 hover:text-red-300"><TrashIcon className="w-5 h-5" /></button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </section>
+        </div>
+    );
+};
+
+export default TemplatesView;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { LanguageCode } from '../types';
+import { ReplyVariant, SentencePick, describeVariant } from '../services/compareService';
+import { getLanguage } from '../services/languageService';
+import { ToneOption } from '../services/templateService';
+
+interface VariantComparisonProps {
+    variants: ReplyVariant[];
+    toneOptions: ToneOption[];
+    // The language paired with Arabic, unless a variant has its own.
+    language: LanguageCode;
+    disabled: boolean;
+    onPick: (variant: number) => void;
+    onMerge: (picks: SentencePick[]) => void;
+}
+
+const GRID_COLUMNS: Record<number, string> = {
+    2: 'md:grid-cols-2',
+    3: 'md:grid-cols-3',
+    4: 'md:grid-cols-2 xl:grid-cols-4',
+};
+
+// Drafted variants side by side. Use one as it is, or tick sentences from several to merge them in the order ticked.
+// Paired child and parent replies go to different people, so they are only used whole.
+const VariantComparison: React.FC<VariantComparisonProps> = ({ variants, toneOptions, language, disabled, onPick, onMerge }) => {
+    const [picks, setPicks] = useState<SentencePick[]>([]);
+    const paired = variants.some(v => v.audience);
+
+    const pickIndex = (variant: number, sentence: number) => picks.findIndex(p => p.variant === variant && p.sentence === sentence);
+
+    const togglePick = (variant: number, sentence: number) => {
+        const index = pickIndex(variant, sentence);
+        setPicks(prev => index >= 0 ? prev.filter((_, i) => i !== index) : [...prev, { variant, sentence }]);
+    };
+
+    return (
+        <section className="bg-secondary-dark/50 p-4 rounded-lg flex flex-col gap-3 text-white">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-lg font-bold">{paired ? '👪 Child & parent replies' : '⚖️ Compare variants'}</h3>
+                {!paired && <div className="flex items-center gap-2 text-sm">
+                    {picks.length > 0 && <button onClick={() => setPicks([])} className="px-2 py-1 rounded text-gray-300 hover:bg-white/10">Clear</button>}
+                    <button onClick={() => onMerge(picks)} disabled={disabled || picks.length === 0} className="px-3 py-1 rounded bg-accent-teal/20 text-accent-teal hover:bg-accent-teal/30 disabled:opacity-50">
+                        Merge {picks.length} ticked sentence{picks.length === 1 ? '' : 's'}
+                    </button>
+                </div>}
+            </div>
+            <div className={`grid grid-cols-1 ${GRID_COLUMNS[variants.length] || 'md:grid-cols-2'} gap-3`}>
+                {variants.map((variant, v) => {
+                    const languageInfo = getLanguage(variant.language || language);
+                    return (
+                        <div key={v} className="p-3 bg-primary-dark rounded-md border border-gray-600 flex flex-col gap-2">
+                            <div className="flex flex-col gap-1">
+                                <span className="text-sm font-semibold">{describeVariant(variant, toneOptions)}</span>
+                                {variant.toneDescription && <span className="self-start text-xs font-semibold bg-green-900 text-green-200 px-2 py-0.5 rounded-full">{variant.toneDescription}</span>}
+                            </div>
+                            {variant.error ? <p className="text-sm text-red-300">⚠️ {variant.error}</p> : (
+                                <ol className="flex flex-col gap-2 text-sm flex-1">
+                                    {variant.sentences.map((s, i) => {
+                                        const order = pickIndex(v, i);
+                                        return (
+                                            <li key={i}>
+                                                <label className={`flex gap-2 p-1 rounded ${paired ? '' : `cursor-pointer ${order >= 0 ? 'bg-accent-teal/20' : 'hover:bg-white/5'}`}`}>
+                                                    {!paired && <input type="checkbox" checked={order >= 0} onChange={() => togglePick(v, i)} disabled={disabled || !variant.done} className="mt-1" />}
+                                                    <span className="flex flex-col gap-1">
+                                                        <span dir={languageInfo.rtl ? 'rtl' : 'ltr'} className="text-gray-200">{s.studentSentence}</span>
+                                                        <span dir="rtl" className="text-gray-400">{s.arabicSentence}</span>
+                                                    </span>
+                                                    {order >= 0 && <span className="ml-auto text-xs text-accent-teal font-bold">{order + 1}</span>}
+                                                </label>
+                                            </li>
+                                        );
+                                    })}
+                                    {!variant.done && <li className="text-gray-400 animate-pulse">Drafting…</li>}
+                                </ol>
+                            )}
+                            <button onClick={() => onPick(v)} disabled={disabled || !variant.done || !!variant.error || variant.sentences.length === 0} className="p-2 rounded-lg bg-accent-teal hover:bg-accent-teal-dark font-bold text-sm disabled:opacity-50">
+                                Use this reply
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        </section>
+    );
+};
+
+export default VariantComparison;
@@ -1,4 +1,4 @@
-import { MessageType, ReplyTone, IntegrationPlatform } from './types';
+import { MessageType, ReplyTone, IntegrationPlatform, ReminderRepeat, ModelProviderId, ReplyLayout, QuickReplyTemplate, AppDataSnapshot, AppSettings, LanguageCode, LanguageInfo, Weekday, LedgerEntryKind, ArabicStyle, ArabicVariety, DiacritizationLevel } from './types';
 
 export const MESSAGE_TYPE_OPTIONS = [
   { value: MessageType.NEW_STUDENT, label: "🟢 New student inquiry" },
@@ -24,14 +24,49 @@ export const PLATFORM_OPTIONS = [
     { value: IntegrationPlatform.GENERIC, label: "Generic Chat" },
 ];
 
-export const QUICK_REPLY_TEMPLATES = [
-    { label: "Glad you're enjoying the lessons!", message: "My student said they are enjoying the lessons, what is a good reply?" },
-    { label: "We can reschedule.", message: "My student can't make it to class and wants to reschedule." },
-    { label: "Thanks for reaching out!", message: "Thank you for reaching out!" },
-    { label: "Confirm next lesson?", message: "Please ask my student to confirm their next lesson time." },
-    { label: "Payment received.", message: "My student sent a message about their payment." },
+export const LAYOUT_OPTIONS: { value: ReplyLayout; label: string }[] = [
+    { value: 'arabic-student', label: "Arabic, then student's language" },
+    { value: 'interleaved', label: "Interleaved (sentence by sentence)" },
+    { value: 'student', label: "Student's language only" },
+    { value: 'arabic', label: "Arabic only" },
 ];
 
+// Languages students may write in. Arabic is always one side of a reply, so it is never a reply language itself.
+export const LANGUAGES: LanguageInfo[] = [
+    { code: 'en', name: "English", nativeName: "English", flag: "🇬🇧", voice: 'en-US', rtl: false, greeting: "Dear {name}," },
+    { code: 'ar', name: "Arabic", nativeName: "العربية", flag: "🇸🇦", voice: 'ar-SA', rtl: true, greeting: "عزيزي {name}،" },
+    { code: 'ur', name: "Urdu", nativeName: "اردو", flag: "🇵🇰", voice: 'ur-PK', rtl: true, greeting: "محترم {name}،" },
+    { code: 'id', name: "Indonesian", nativeName: "Bahasa Indonesia", flag: "🇮🇩", voice: 'id-ID', rtl: false, greeting: "Halo {name}," },
+    { code: 'ms', name: "Malay", nativeName: "Bahasa Melayu", flag: "🇲🇾", voice: 'ms-MY', rtl: false, greeting: "Salam {name}," },
+    { code: 'fr', name: "French", nativeName: "Français", flag: "🇫🇷", voice: 'fr-FR', rtl: false, greeting: "Bonjour {name}," },
+    { code: 'tr', name: "Turkish", nativeName: "Türkçe", flag: "🇹🇷", voice: 'tr-TR', rtl: false, greeting: "Merhaba {name}," },
+    { code: 'es', name: "Spanish", nativeName: "Español", flag: "🇪🇸", voice: 'es-ES', rtl: false, greeting: "Hola {name}," },
+    { code: 'de', name: "German", nativeName: "Deutsch", flag: "🇩🇪", voice: 'de-DE', rtl: false, greeting: "Hallo {name}," },
+    { code: 'bn', name: "Bengali", nativeName: "বাংলা", flag: "🇧🇩", voice: 'bn-BD', rtl: false, greeting: "প্রিয় {name}," },
+];
+
+export const DEFAULT_DETECTION_LANGUAGES: LanguageCode[] = ['en', 'ar', 'ur', 'id', 'ms', 'fr', 'tr'];
+export const DEFAULT_REPLY_LANGUAGE: LanguageCode = 'en';
+
+export const EMAIL_SUBJECTS: Record<MessageType, string> = {
+    [MessageType.NEW_STUDENT]: "Welcome — Arabic & Qur'an lessons",
+    [MessageType.CURRENT_STUDENT]: "Re: Your lessons",
+    [MessageType.ABSENT_STUDENT]: "Re: Today's missed lesson",
+    [MessageType.RESCHEDULE]: "Re: Rescheduling your lesson",
+    [MessageType.PAYMENT]: "Re: Lesson payment",
+    [MessageType.GENERAL]: "Re: Your message",
+};
+
+export const QUICK_REPLY_TEMPLATES: QuickReplyTemplate[] = [
+    { id: "tpl-enjoying", label: "Glad you're enjoying the lessons!", message: "{studentName} said they are enjoying the lessons, what is a good reply?", category: MessageType.CURRENT_STUDENT, order: 0 },
+    { id: "tpl-reschedule", label: "We can reschedule.", message: "{studentName} can't make it to class and wants to reschedule.", category: MessageType.RESCHEDULE, order: 1 },
+    { id: "tpl-thanks", label: "Thanks for reaching out!", message: "Thank you for reaching out!", category: MessageType.GENERAL, order: 2 },
+    { id: "tpl-confirm", label: "Confirm next lesson?", message: "Please ask {studentName} to confirm their next lesson time ({nextLesson}).", category: MessageType.CURRENT_STUDENT, order: 3 },
+    { id: "tpl-payment", label: "Payment received.", message: "{studentName} sent a message about their payment.", category: MessageType.PAYMENT, order: 4 },
+];
+
+export const TEMPLATE_VARIABLES = ["{studentName}", "{teacherName}", "{nextLesson}"];
+
 export const SMART_TIPS = [
     "Keep replies short and kind — students appreciate simplicity.",
     "Use the student’s name when possible for a personal touch.",
@@ -40,4 +75,174 @@ export const SMART_TIPS = [
     "Always double-check the time zone when scheduling with international students.",
     "For apologetic students, a warm and reassuring tone works best.",
     "Remember to follow up a few days after a rescheduled class to check in.",
-];
\ No newline at end of file
+];
+
+export const REPEAT_OPTIONS: { value: ReminderRepeat; label: string }[] = [
+    { value: 'none', label: "Does not repeat" },
+    { value: 'daily', label: "Every day" },
+    { value: 'weekly', label: "Every week" },
+    { value: 'monthly', label: "Every month" },
+];
+
+export const SNOOZE_OPTIONS = [
+    { minutes: 15, label: "15 min" },
+    { minutes: 60, label: "1 hour" },
+    { minutes: 24 * 60, label: "Tomorrow" },
+];
+
+// Follow-ups offered after a message is classified, as recommended in SMART_TIPS.
+export const FOLLOW_UP_SUGGESTIONS: Partial<Record<MessageType, { daysLater: number; message: string }>> = {
+    [MessageType.RESCHEDULE]: { daysLater: 3, message: "Check in with {studentName} about the rescheduled class." },
+    [MessageType.ABSENT_STUDENT]: { daysLater: 1, message: "Follow up with {studentName} about the missed lesson." },
+};
+
+export const PROVIDER_OPTIONS = [
+    { value: ModelProviderId.GEMINI, label: "Google Gemini" },
+    { value: ModelProviderId.OPENAI_COMPATIBLE, label: "Local (OpenAI-compatible)" },
+    { value: ModelProviderId.FIXTURE, label: "Offline demo (fixtures)" },
+];
+
+export const DEFAULT_MODELS: Record<ModelProviderId, string> = {
+    [ModelProviderId.GEMINI]: "gemini-2.5-flash",
+    [ModelProviderId.OPENAI_COMPATIBLE]: "llama3.1",
+    [ModelProviderId.FIXTURE]: "fixture",
+};
+
+export const DEFAULT_THREAD_WINDOW = 6;
+export const MAX_THREAD_WINDOW = 20;
+
+// Malformed model output or a dropped connection is retried after 0.8s, then 1.6s.
+export const MODEL_MAX_RETRIES = 2;
+export const MODEL_RETRY_BASE_DELAY_MS = 800;
+
+// A quota error is usually the per-minute limit, so the request is retried after 20s, then 40s.
+export const QUOTA_MAX_RETRIES = 2;
+export const QUOTA_RETRY_DELAY_MS = 20_000;
+
+// Gemini's free tier allows about 15 requests a minute; staying below leaves room for retries.
+// Other providers are not limited unless the teacher sets a value.
+export const DEFAULT_REQUESTS_PER_MINUTE = 10;
+
+// Analyses and replies are cached in memory so the same message with the same options costs nothing the second time.
+export const RESPONSE_CACHE_SIZE = 100;
+export const RESPONSE_CACHE_TTL_MS = 60 * 60 * 1000;
+
+export const DEFAULT_LOCAL_ENDPOINT = "http://localhost:11434/v1";
+
+// Learning from ratings: approved replies shown to the model as examples, and rejected ones to avoid.
+export const DEFAULT_FEW_SHOT_EXAMPLES = 3;
+export const MAX_FEW_SHOT_EXAMPLES = 5;
+export const MAX_AVOID_PATTERNS = 3;
+// Library quotations offered to the model per Islamic-tone reply.
+export const MAX_PROMPT_CITATIONS = 8;
+
+// Reschedule assistant: free slots are searched this far ahead, on a grid of SLOT_STEP_MINUTES.
+export const DEFAULT_LESSON_MINUTES = 30;
+export const RESCHEDULE_SEARCH_DAYS = 14;
+export const SLOT_STEP_MINUTES = 30;
+export const MAX_OFFERED_SLOTS = 3;
+
+export const WEEKDAY_OPTIONS: { value: Weekday; label: string }[] = [
+    { value: 1, label: "Monday" },
+    { value: 2, label: "Tuesday" },
+    { value: 3, label: "Wednesday" },
+    { value: 4, label: "Thursday" },
+    { value: 5, label: "Friday" },
+    { value: 6, label: "Saturday" },
+    { value: 0, label: "Sunday" },
+];
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const CURRENCY_OPTIONS = ['USD', 'GBP', 'EUR', 'CAD', 'AUD', 'SAR', 'AED', 'QAR', 'KWD', 'EGP', 'PKR', 'INR', 'BDT', 'IDR', 'MYR', 'TRY'];
+
+export const DEFAULT_ARABIC_STYLE: ArabicStyle = { variety: 'msa', diacritics: 'none', transliteration: false };
+
+// `prompt` is how the reply prompt names the variety; `voice` picks the read-aloud accent.
+export const ARABIC_VARIETY_OPTIONS: { value: ArabicVariety; label: string; prompt: string; voice: string }[] = [
+    { value: 'msa', label: "Modern Standard (Fusha)", prompt: "Modern Standard Arabic (الفصحى)", voice: 'ar-SA' },
+    { value: 'egyptian', label: "Egyptian (Masri)", prompt: "Egyptian colloquial Arabic (العامية المصرية), as spoken in Cairo", voice: 'ar-EG' },
+    { value: 'levantine', label: "Levantine (Shami)", prompt: "Levantine colloquial Arabic (الشامية), as spoken in Damascus, Beirut and Amman", voice: 'ar-LB' },
+    { value: 'gulf', label: "Gulf (Khaleeji)", prompt: "Gulf colloquial Arabic (الخليجية), as spoken in Saudi Arabia, the UAE and Kuwait", voice: 'ar-AE' },
+];
+
+export const DIACRITICS_OPTIONS: { value: DiacritizationLevel; label: string; prompt: string }[] = [
+    { value: 'none', label: "No tashkeel", prompt: "Do not add tashkeel (diacritics), as in everyday writing." },
+    { value: 'partial', label: "Partial tashkeel", prompt: "Add tashkeel only where a word could be misread, e.g. to tell similar words apart, and on less common words." },
+    { value: 'full', label: "Full tashkeel", prompt: "Fully vowel every Arabic word with tashkeel (fatha, damma, kasra, sukun, shadda and tanween), as in a beginner's textbook." },
+];
+
+// Voice input: 'auto' follows the last message's language, then the student's.
+export const AUTO_VOICE_LANGUAGE = 'auto';
+export const VOICE_LANGUAGE_OPTIONS: { value: string; label: string }[] = [
+    { value: AUTO_VOICE_LANGUAGE, label: "🌐 Auto" },
+    { value: 'en-US', label: "🇺🇸 English (US)" },
+    { value: 'en-GB', label: "🇬🇧 English (UK)" },
+    { value: 'ar-SA', label: "🇸🇦 العربية (السعودية)" },
+    { value: 'ar-EG', label: "🇪🇬 العربية (مصر)" },
+    { value: 'ar-JO', label: "🇯🇴 العربية (الأردن)" },
+    { value: 'ar-AE', label: "🇦🇪 العربية (الإمارات)" },
+    { value: 'ur-PK', label: "🇵🇰 اردو" },
+    { value: 'id-ID', label: "🇮🇩 Bahasa Indonesia" },
+    { value: 'ms-MY', label: "🇲🇾 Bahasa Melayu" },
+    { value: 'fr-FR', label: "🇫🇷 Français" },
+    { value: 'tr-TR', label: "🇹🇷 Türkçe" },
+];
+
+// Gemini takes inline audio in requests of up to 20 MB, and base64 adds a third.
+export const MAX_AUDIO_UPLOAD_BYTES = 14 * 1024 * 1024;
+
+export const LEDGER_KIND_OPTIONS: { value: LedgerEntryKind; label: string }[] = [
+    { value: 'package', label: "📦 Package" },
+    { value: 'lesson', label: "📖 Lesson taken" },
+    { value: 'payment', label: "💵 Payment" },
+];
+
+// Insights: a student is flagged as silent after this many days without contact,
+// and as turning negative when their last few messages average below the threshold.
+export const SILENT_AFTER_DAYS = 14;
+export const RECENT_SENTIMENT_COUNT = 3;
+export const NEGATIVE_TREND_THRESHOLD = -0.5;
+
+// Batch inbox: how many messages are analysed and drafted at the same time.
+export const BATCH_CONCURRENCY = 2;
+
+// Compare mode: how many variants are drafted side by side, and the temperatures
+// used when the variants share one tone (from steady to adventurous). Above about
+// 1.1 models drift out of register and break the JSON, so the spread stops there.
+export const MIN_REPLY_VARIANTS = 2;
+export const MAX_REPLY_VARIANTS = 4;
+export const VARIANT_TEMPERATURES = [0.3, 0.6, 0.9, 1.1];
+
+// === Persistence ===
+
+// Bump when stored data changes shape, and register a migration in services/migrations.ts.
+export const DATA_SCHEMA_VERSION = 4;
+export const BACKUP_APP_ID = "teachers-ai-reply-assistant";
+
+export const STORAGE_KEY_BASES: Record<keyof AppDataSnapshot, string> = {
+    settings: "appSettings",
+    students: "students",
+    savedReplies: "savedReplies",
+    reminders: "reminders",
+    conversations: "conversations",
+    customTones: "customTones",
+    quickReplyTemplates: "quickReplyTemplates",
+    analyses: "analyses",
+};
+
+export const storageKey = (name: keyof AppDataSnapshot, version: number = DATA_SCHEMA_VERSION) =>
+    `${STORAGE_KEY_BASES[name]}_v${version}`;
+
+// IndexedDB: bump DATABASE_VERSION when adding stores or indexes, or when stored records
+// need a data migration (see services/database.ts).
+export const DATABASE_NAME = "reply-assistant";
+export const DATABASE_VERSION = 4;
+export const SYNC_CHANNEL_NAME = "reply-assistant-sync";
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    teacherName: 'Teacher',
+    signature: '',
+    platform: IntegrationPlatform.WHATSAPP,
+    theme: 'dark',
+};
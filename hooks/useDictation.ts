@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { cleanupTranscript } from '../services/voiceService';
+
+declare global {
+    interface Window {
+        SpeechRecognition: any;
+        webkitSpeechRecognition: any;
+    }
+}
+
+interface DictationCallbacks {
+    // Each finished phrase, with punctuation tidied.
+    onFinal: (text: string) => void;
+    onError: (message: string) => void;
+}
+
+// Normal during long dictation: a quiet stretch, or our own restart.
+const IGNORED_ERRORS = ['no-speech', 'aborted'];
+
+/**
+ * Continuous dictation with the browser's speech recognition. Words still
+ * being recognised are exposed as `interim`; each finished phrase goes to
+ * `onFinal`. Browsers end a session after a pause, so it is restarted
+ * until `stop` is called.
+ */
+export const useDictation = ({ onFinal, onError }: DictationCallbacks) => {
+    const [isRecording, setIsRecording] = useState(false);
+    const [interim, setInterim] = useState('');
+    const recognitionRef = useRef<any>(null);
+    const keepListening = useRef(false);
+    const callbacks = useRef({ onFinal, onError });
+    callbacks.current = { onFinal, onError };
+
+    const stop = useCallback(() => {
+        keepListening.current = false;
+        recognitionRef.current?.stop();
+    }, []);
+
+    const start = useCallback((language: string) => {
+        const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+        if (!SpeechRecognition) {
+            callbacks.current.onError("Speech recognition is not supported in this browser.");
+            return;
+        }
+        recognitionRef.current?.abort();
+        const recognition = new SpeechRecognition();
+        recognition.continuous = true;
+        recognition.interimResults = true;
+        recognition.lang = language;
+
+        recognition.onstart = () => setIsRecording(true);
+        recognition.onresult = (event: any) => {
+            let pending = '';
+            for (let i = event.resultIndex; i < event.results.length; i++) {
+                const result = event.results[i];
+                if (result.isFinal) callbacks.current.onFinal(cleanupTranscript(result[0].transcript, language, true));
+                else pending += result[0].transcript;
+            }
+            setInterim(pending);
+        };
+        recognition.onerror = (event: any) => {
+            if (IGNORED_ERRORS.includes(event.error)) return;
+            keepListening.current = false;
+            callbacks.current.onError(`Speech recognition error: ${event.error}`);
+        };
+        recognition.onend = () => {
+            setInterim('');
+            if (keepListening.current && recognitionRef.current === recognition) {
+                recognition.start();
+                return;
+            }
+            if (recognitionRef.current === recognition) setIsRecording(false);
+        };
+
+        recognitionRef.current = recognition;
+        keepListening.current = true;
+        recognition.start();
+    }, []);
+
+    useEffect(() => () => {
+        keepListening.current = false;
+        recognitionRef.current?.abort();
+    }, []);
+
+    return { isRecording, interim, start, stop };
+};
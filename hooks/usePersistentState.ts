@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppSettings, CollectionName } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import {
+    applyChangeSet, diffCollection, getCollectionRepository, isEmptyChangeSet, settingsRepository, subscribeToCollection, subscribeToSettings,
+} from '../services/repository';
+
+type PersistentState<T> = [T, React.Dispatch<React.SetStateAction<T>>, boolean];
+
+/**
+ * A collection held in React state and mirrored to IndexedDB. The setter is
+ * React's own, so functional updates always see the latest value; after each
+ * render only the records that changed are written. Writes from other tabs
+ * are merged in live. The boolean is false until the stored data has loaded.
+ */
+export const usePersistentCollection = <T extends { id: string }>(name: CollectionName): PersistentState<T[]> => {
+    const [items, setItems] = useState<T[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    // What the database holds as far as this tab knows; null until loaded.
+    const persisted = useRef<T[] | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getCollectionRepository<T>(name).getAll()
+            .then(stored => {
+                if (cancelled) return;
+                persisted.current = stored;
+                setItems(stored);
+            })
+            .catch(error => {
+                console.error(`Failed to load ${name}:`, error);
+                if (!cancelled) persisted.current = [];
+            })
+            .finally(() => { if (!cancelled) setIsLoaded(true); });
+
+        const unsubscribe = subscribeToCollection<T>(name, changes => {
+            if (!persisted.current) return;
+            // Apply the same objects to both sides so the diff below does not echo them back.
+            persisted.current = applyChangeSet(name, persisted.current, changes);
+            setItems(prev => applyChangeSet(name, prev, changes));
+        });
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [name]);
+
+    useEffect(() => {
+        if (!isLoaded || !persisted.current) return;
+        const changes = diffCollection<T>(persisted.current, items);
+        persisted.current = items;
+        if (isEmptyChangeSet(changes)) return;
+        getCollectionRepository<T>(name).applyChanges(changes)
+            .catch(error => console.error(`Failed to save ${name}:`, error));
+    }, [name, items, isLoaded]);
+
+    return [items, setItems, isLoaded];
+};
+
+/** App settings, persisted and synced across tabs like a collection. */
+export const usePersistentSettings = (): PersistentState<AppSettings> => {
+    const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const persisted = useRef<AppSettings | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        settingsRepository.get()
+            .then(stored => {
+                if (cancelled) return;
+                persisted.current = stored;
+                setSettings(stored);
+            })
+            .catch(error => {
+                console.error("Failed to load settings:", error);
+                if (!cancelled) persisted.current = DEFAULT_SETTINGS;
+            })
+            .finally(() => { if (!cancelled) setIsLoaded(true); });
+
+        const unsubscribe = subscribeToSettings(remote => {
+            if (!persisted.current) return;
+            persisted.current = remote;
+            setSettings(remote);
+        });
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!isLoaded || settings === persisted.current) return;
+        persisted.current = settings;
+        settingsRepository.save(settings).catch(error => console.error("Failed to save settings:", error));
+    }, [settings, isLoaded]);
+
+    return [settings, setSettings, isLoaded];
+};
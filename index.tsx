@@ -2,12 +2,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { runStorageMigrations } from './services/migrations';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Upgrade stored data before any component reads it.
+runStorageMigrations();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
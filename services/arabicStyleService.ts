@@ -0,0 +1,38 @@
+import { AppSettings, ArabicStyle, Student } from '../types';
+import { ARABIC_VARIETY_OPTIONS, DEFAULT_ARABIC_STYLE, DIACRITICS_OPTIONS } from '../constants';
+
+/** The teacher's Arabic style, with any of the student's own choices on top. */
+export const resolveArabicStyle = (settings: AppSettings, student?: Student | null): ArabicStyle => ({
+    variety: student?.arabicVariety || settings.arabicVariety || DEFAULT_ARABIC_STYLE.variety,
+    diacritics: student?.diacritics || settings.diacritics || DEFAULT_ARABIC_STYLE.diacritics,
+    transliteration: student?.transliteration ?? settings.transliteration ?? DEFAULT_ARABIC_STYLE.transliteration,
+});
+
+const varietyOf = (style: ArabicStyle) =>
+    ARABIC_VARIETY_OPTIONS.find(o => o.value === style.variety) || ARABIC_VARIETY_OPTIONS[0];
+
+/** How the prompt describes the Arabic side, e.g. for "and {describeArabic} Arabic". */
+export const describeArabic = (style: ArabicStyle = DEFAULT_ARABIC_STYLE): string =>
+    `natural, polite ${varietyOf(style).prompt}`;
+
+/** Rules for writing the Arabic, as a prompt section. Quoted verses and hadith keep their own wording. */
+export const formatArabicStyleForPrompt = (style: ArabicStyle = DEFAULT_ARABIC_STYLE): string => {
+    const lines = [
+        `- Write every Arabic sentence in ${varietyOf(style).prompt}. Keep Islamic greetings and phrases in their usual form.`,
+        `- ${DIACRITICS_OPTIONS.find(o => o.value === style.diacritics)?.prompt || DIACRITICS_OPTIONS[0].prompt}`,
+    ];
+    if (style.transliteration) {
+        lines.push(`- Give a simple Latin-script transliteration of each Arabic sentence in "transliteration", as a new learner would read it aloud (e.g. "as-salaamu 'alaykum").`);
+    }
+    return `**Arabic style:**\n      ${lines.join('\n      ')}`;
+};
+
+/** The speech synthesis locale for the chosen variety, so read-aloud uses a matching accent. */
+export const getArabicVoice = (style: ArabicStyle = DEFAULT_ARABIC_STYLE): string => varietyOf(style).voice;
+
+/** A short label such as "Egyptian (Masri) · Full tashkeel · transliteration". */
+export const describeArabicStyle = (style: ArabicStyle): string => [
+    varietyOf(style).label,
+    style.diacritics === 'none' ? '' : DIACRITICS_OPTIONS.find(o => o.value === style.diacritics)?.label,
+    style.transliteration ? 'transliteration' : '',
+].filter(Boolean).join(' · ');
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { AppDataSnapshot, MessageType, ReplyTone } from '../types';
+import { BACKUP_APP_ID, DATA_SCHEMA_VERSION, DEFAULT_SETTINGS } from '../constants';
+import { BackupValidationError, combineSnapshots, createBackup, parseBackup } from './backupService';
+
+const student = { id: 's1', name: 'Amina', lastContactedAt: '', preferredTone: ReplyTone.FRIENDLY, totalMessages: 2 };
+
+const snapshot = (overrides: Partial<AppDataSnapshot> = {}): AppDataSnapshot => ({
+    settings: DEFAULT_SETTINGS,
+    students: [student],
+    savedReplies: [],
+    reminders: [],
+    conversations: [],
+    customTones: [],
+    quickReplyTemplates: [],
+    analyses: [],
+    ...overrides,
+});
+
+const backupText = (data: unknown, schemaVersion = DATA_SCHEMA_VERSION) =>
+    JSON.stringify({ app: BACKUP_APP_ID, schemaVersion, exportedAt: '2026-01-01T00:00:00.000Z', data });
+
+const rejection = (text: string): string => {
+    try {
+        parseBackup(text);
+    } catch (error) {
+        expect(error).toBeInstanceOf(BackupValidationError);
+        return (error as Error).message;
+    }
+    throw new Error('The backup was accepted.');
+};
+
+describe('parseBackup', () => {
+    it('reads back a backup it created', () => {
+        const data = snapshot({ conversations: [{ id: 'c1', studentId: 's1', role: 'student', text: 'Salam', date: '2026-01-01T10:00:00.000Z' }] });
+        expect(parseBackup(JSON.stringify(createBackup(data)))).toEqual(data);
+    });
+
+    it('fills missing sections and settings with defaults', () => {
+        const parsed = parseBackup(backupText({ students: [student] }));
+        expect(parsed.settings).toEqual(DEFAULT_SETTINGS);
+        expect(parsed.savedReplies).toEqual([]);
+        expect(parsed.analyses).toEqual([]);
+    });
+
+    it('rejects files that are not backups', () => {
+        expect(rejection('not json')).toMatch(/not valid JSON/);
+        expect(rejection(JSON.stringify({ app: 'something-else', schemaVersion: 1, data: {} }))).toMatch(/not a Reply Assistant backup/);
+        expect(rejection(backupText({}, 0))).toMatch(/no valid schema version/);
+        expect(rejection(backupText({}, DATA_SCHEMA_VERSION + 1))).toMatch(/newer version/);
+    });
+
+    it('rejects a section that is not a list', () => {
+        expect(rejection(backupText({ reminders: {} }))).toMatch(/"reminders" section is corrupted/);
+        expect(rejection(backupText({ settings: 'dark' }))).toMatch(/"settings" section is corrupted/);
+    });
+
+    it('names the section of a record that is not an object', () => {
+        expect(rejection(backupText({ students: [student, 'Bilal'] }))).toMatch(/"students" section is corrupted: item 2 is not a record/);
+    });
+
+    it('rejects records without an id before anything is stored', () => {
+        const { id, ...withoutId } = student;
+        expect(rejection(backupText({ students: [withoutId] }))).toMatch(/"students" section is corrupted: item 1 has no id/);
+        expect(rejection(backupText({ students: [{ ...student, id: 42 }] }))).toMatch(/has no id/);
+    });
+
+    it('rejects records missing a required field', () => {
+        const reminder = { id: 'r1', studentId: 's1', studentName: 'Amina', remindAt: '2026-01-02T09:00:00.000Z', done: false };
+        expect(rejection(backupText({ reminders: [reminder] }))).toMatch(/"reminders" section is corrupted: item 1 has no "message"/);
+        expect(rejection(backupText({ analyses: [{ id: 'a1', date: '2026-01-01', messageType: MessageType.GENERAL }] }))).toMatch(/"analyses".*"messageKey"/);
+    });
+
+    it('gives v2 records ids through the migrations instead of rejecting them', () => {
+        const parsed = parseBackup(backupText({
+            students: [{ name: 'Amina' }],
+            savedReplies: [{ arabicReply: 'شكرا', englishReply: 'Thanks', messageType: MessageType.GENERAL, tone: ReplyTone.FRIENDLY, date: '2025-01-01', studentMessage: 'Hi' }],
+        }, 2));
+        expect(parsed.students[0]).toMatchObject({ name: 'Amina', preferredTone: ReplyTone.FRIENDLY, totalMessages: 0 });
+        expect(typeof parsed.students[0].id).toBe('string');
+        expect(parsed.savedReplies[0]).toMatchObject({ studentReply: 'Thanks', language: 'en' });
+        expect(parsed.savedReplies[0]).not.toHaveProperty('englishReply');
+    });
+});
+
+describe('combineSnapshots', () => {
+    it('replaces everything in replace mode', () => {
+        const incoming = snapshot({ students: [] });
+        expect(combineSnapshots(snapshot(), incoming, 'replace')).toBe(incoming);
+    });
+
+    it('keeps current records and settings in merge mode, adding only new ids', () => {
+        const current = snapshot({ settings: { ...DEFAULT_SETTINGS, teacherName: 'Ustadha Maryam' } });
+        const incoming = snapshot({ students: [{ ...student, name: 'Renamed' }, { ...student, id: 's2', name: 'Bilal' }] });
+        const merged = combineSnapshots(current, incoming, 'merge');
+        expect(merged.settings.teacherName).toBe('Ustadha Maryam');
+        expect(merged.students.map(s => s.name)).toEqual(['Amina', 'Bilal']);
+    });
+});
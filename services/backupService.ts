@@ -0,0 +1,147 @@
+import { AppDataSnapshot, BackupFile, ImportMode, SavedReply, Student } from '../types';
+import { BACKUP_APP_ID, DATA_SCHEMA_VERSION, DEFAULT_REPLY_LANGUAGE, DEFAULT_SETTINGS } from '../constants';
+import { migrateSnapshot } from './migrations';
+
+const ARRAY_FIELDS = ['students', 'savedReplies', 'reminders', 'conversations', 'customTones', 'quickReplyTemplates', 'analyses'] as const;
+
+type ArrayField = typeof ARRAY_FIELDS[number];
+
+// Text fields every record must have once migrated, besides its id. Anything else is optional or has a default.
+const REQUIRED_FIELDS: Record<ArrayField, string[]> = {
+    students: ['name'],
+    savedReplies: ['arabicReply', 'studentReply', 'date'],
+    reminders: ['studentId', 'remindAt', 'message'],
+    conversations: ['studentId', 'text', 'date'],
+    customTones: ['name', 'instructions'],
+    quickReplyTemplates: ['label', 'message'],
+    analyses: ['date', 'messageKey'],
+};
+
+export class BackupValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BackupValidationError';
+    }
+}
+
+export const createBackup = (data: AppDataSnapshot): BackupFile => ({
+    app: BACKUP_APP_ID,
+    schemaVersion: DATA_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const corrupted = (field: string, detail: string): never => {
+    throw new BackupValidationError(`The backup's "${field}" section is corrupted: ${detail}`);
+};
+
+/**
+ * Checks every migrated record before anything is written, so a bad record
+ * rejects the whole file instead of aborting the database transaction partway
+ * through a restore.
+ */
+const validateRecords = (field: ArrayField, records: unknown[]) => records.forEach((record, index) => {
+    if (!isRecord(record)) return corrupted(field, `item ${index + 1} is not a record.`);
+    if (typeof record.id !== 'string' || !record.id) return corrupted(field, `item ${index + 1} has no id.`);
+    const missing = REQUIRED_FIELDS[field].find(name => typeof record[name] !== 'string');
+    if (missing) corrupted(field, `item ${index + 1} has no "${missing}".`);
+});
+
+export const backupFilename = (date = new Date()) => `reply-assistant-backup-${date.toISOString().slice(0, 10)}.json`;
+
+/**
+ * Parses and validates a backup file, upgrading it to the current schema.
+ * Throws BackupValidationError with a user-facing message when the file is unusable.
+ */
+export const parseBackup = (text: string): AppDataSnapshot => {
+    let file: BackupFile;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new BackupValidationError("This file is not valid JSON.");
+    }
+    if (!file || file.app !== BACKUP_APP_ID || typeof file.data !== 'object' || file.data === null) {
+        throw new BackupValidationError("This file is not a Reply Assistant backup.");
+    }
+    if (!Number.isInteger(file.schemaVersion) || file.schemaVersion < 1) {
+        throw new BackupValidationError("The backup has no valid schema version.");
+    }
+    if (file.schemaVersion > DATA_SCHEMA_VERSION) {
+        throw new BackupValidationError(`The backup is from a newer version of the app (schema v${file.schemaVersion}). Please update the app first.`);
+    }
+    if (file.data.settings !== undefined && !isRecord(file.data.settings)) {
+        throw new BackupValidationError(`The backup's "settings" section is corrupted.`);
+    }
+    // Migrations spread each record, so anything that is not an object is rejected first.
+    // Ids and required fields are checked afterwards, since v2 backups get their ids from a migration.
+    for (const field of ARRAY_FIELDS) {
+        const value = file.data[field];
+        if (value === undefined) continue;
+        if (!Array.isArray(value)) throw new BackupValidationError(`The backup's "${field}" section is corrupted.`);
+        const index = value.findIndex(record => !isRecord(record));
+        if (index >= 0) corrupted(field, `item ${index + 1} is not a record.`);
+    }
+
+    const data = migrateSnapshot(file.data, file.schemaVersion);
+    for (const field of ARRAY_FIELDS) validateRecords(field, data[field] || []);
+    return {
+        settings: { ...DEFAULT_SETTINGS, ...(data.settings || {}) },
+        students: data.students || [],
+        savedReplies: data.savedReplies || [],
+        reminders: data.reminders || [],
+        conversations: data.conversations || [],
+        customTones: data.customTones || [],
+        quickReplyTemplates: data.quickReplyTemplates || [],
+        analyses: data.analyses || [],
+    };
+};
+
+export const summarizeSnapshot = (data: AppDataSnapshot): string =>
+    `${data.students.length} students, ${data.savedReplies.length} saved replies, ${data.reminders.length} reminders, ${data.conversations.length} conversation messages`;
+
+const mergeById = <T extends { id: string }>(existing: T[], incoming: T[]): T[] => {
+    const ids = new Set(existing.map(item => item.id));
+    return [...existing, ...incoming.filter(item => !ids.has(item.id))];
+};
+
+/**
+ * Combines imported data with the current data. `replace` takes the backup as-is;
+ * `merge` keeps every current record and settings, adding records whose ids are new.
+ */
+export const combineSnapshots = (current: AppDataSnapshot, incoming: AppDataSnapshot, mode: ImportMode): AppDataSnapshot => {
+    if (mode === 'replace') return incoming;
+    return {
+        settings: current.settings,
+        students: mergeById(current.students, incoming.students),
+        savedReplies: mergeById(current.savedReplies, incoming.savedReplies),
+        reminders: mergeById(current.reminders, incoming.reminders),
+        conversations: mergeById(current.conversations, incoming.conversations),
+        customTones: mergeById(current.customTones, incoming.customTones),
+        quickReplyTemplates: mergeById(current.quickReplyTemplates, incoming.quickReplyTemplates),
+        analyses: mergeById(current.analyses, incoming.analyses),
+    };
+};
+
+// === CSV ===
+
+const csvCell = (value: unknown): string => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The BOM makes Excel open the file as UTF-8 so Arabic text displays correctly.
+export const toCsv = (header: string[], rows: unknown[][]): string =>
+    '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export const studentsToCsv = (students: Student[]): string => toCsv(
+    ['Name', 'Preferred Tone', 'Preferred Language', 'Time Zone', 'Total Messages', 'Last Contacted', 'Next Lesson', 'Notes', 'Archived'],
+    students.map(s => [s.name, s.preferredTone, s.preferredLanguage, s.timeZone, s.totalMessages, s.lastContactedAt, s.nextLesson, s.notes, s.archived ? 'yes' : 'no'])
+);
+
+export const savedRepliesToCsv = (replies: SavedReply[]): string => toCsv(
+    ['Date', 'Student', 'Message Type', 'Tone', 'Rating', 'Student Message', 'Reply Language', 'Reply', 'Arabic Reply'],
+    replies.map(r => [r.date, r.studentName, r.messageType, r.tone, r.rating, r.studentMessage, r.language || DEFAULT_REPLY_LANGUAGE, r.studentReply, r.arabicReply])
+);
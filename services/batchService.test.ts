@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ReplyTone, Student } from '../types';
+import { findUnansweredThreads, guessTeacherSender, matchStudent, parseChatExport } from './batchService';
+
+// Timestamps are read in local time, like the export itself.
+const local = (year: number, month: number, day: number, hours: number, minutes: number) =>
+    new Date(year, month - 1, day, hours, minutes).toISOString();
+
+describe('parseChatExport', () => {
+    it('reads the Android format with day-first dates', () => {
+        const messages = parseChatExport([
+            '15/01/2024, 21:05 - Amina: Salam teacher',
+            '16/01/2024, 08:30 - Ustadha Maryam: Wa alaikum salam',
+        ].join('\n'));
+        expect(messages).toEqual([
+            { sender: 'Amina', timestamp: local(2024, 1, 15, 21, 5), text: 'Salam teacher' },
+            { sender: 'Ustadha Maryam', timestamp: local(2024, 1, 16, 8, 30), text: 'Wa alaikum salam' },
+        ]);
+    });
+
+    it('reads the iOS format with seconds, am/pm and invisible direction marks', () => {
+        const [message] = parseChatExport('‎[1/15/24, 9:05:10 PM] Bilal: Can we move Friday?');
+        expect(message).toEqual({ sender: 'Bilal', timestamp: new Date(2024, 0, 15, 21, 5, 10).toISOString(), text: 'Can we move Friday?' });
+    });
+
+    it('joins continuation lines and drops system notices and media', () => {
+        const messages = parseChatExport([
+            '15/01/2024, 21:00 - Messages and calls are end-to-end encrypted.',
+            '15/01/2024, 21:05 - Amina: First line',
+            'second line',
+            '15/01/2024, 21:06 - Amina: <Media omitted>',
+            '15/01/2024, 21:07 - Amina: This message was deleted',
+        ].join('\n'));
+        expect(messages).toHaveLength(1);
+        expect(messages[0].text).toBe('First line\nsecond line');
+    });
+
+    it('treats text that is not an export as paragraphs without a sender', () => {
+        expect(parseChatExport('Salam, can we move the lesson?\n\n  Also, what about payment?  ')).toEqual([
+            { sender: '', timestamp: '', text: 'Salam, can we move the lesson?' },
+            { sender: '', timestamp: '', text: 'Also, what about payment?' },
+        ]);
+    });
+});
+
+describe('findUnansweredThreads', () => {
+    const message = (sender: string, text: string) => ({ sender, timestamp: '', text });
+
+    it('groups messages after the teacher last wrote by sender', () => {
+        const threads = findUnansweredThreads([
+            message('Amina', 'Old question'),
+            message('Teacher', 'Answered'),
+            message('Amina', 'Salam'),
+            message('Bilal', 'Hi'),
+            message('Amina', 'Are we on for Friday?'),
+        ], 'Teacher');
+        expect(threads).toEqual([
+            { sender: 'Amina', messages: [message('Amina', 'Salam'), message('Amina', 'Are we on for Friday?')] },
+            { sender: 'Bilal', messages: [message('Bilal', 'Hi')] },
+        ]);
+    });
+
+    it('never groups messages without a sender', () => {
+        expect(findUnansweredThreads([message('', 'One'), message('', 'Two')], '')).toHaveLength(2);
+    });
+});
+
+describe('senders and students', () => {
+    const student = (id: string, name: string, extra: Partial<Student> = {}): Student =>
+        ({ id, name, lastContactedAt: '', preferredTone: ReplyTone.FRIENDLY, totalMessages: 0, ...extra });
+    const students = [
+        student('s1', 'Amina Khan'),
+        student('s2', 'Yusuf', { guardians: [{ id: 'g1', name: 'Sam Carter', relation: 'Father' }] }),
+        student('s3', 'Bilal Ahmed'),
+        student('s4', 'Bilal Said'),
+        student('s5', 'Zaid', { archived: true }),
+    ];
+
+    it('guesses the teacher from the name in settings', () => {
+        expect(guessTeacherSender(['Amina', 'Ustadha Maryam'], 'Maryam')).toBe('Ustadha Maryam');
+        expect(guessTeacherSender(['Amina'], 'Maryam')).toBe('');
+    });
+
+    it('matches exact names, guardians and unique first names', () => {
+        expect(matchStudent('amina khan', students)?.id).toBe('s1');
+        expect(matchStudent('Sam Carter', students)?.id).toBe('s2');
+        expect(matchStudent('Amina', students)?.id).toBe('s1');
+    });
+
+    it('leaves ambiguous, archived and missing senders unmatched', () => {
+        expect(matchStudent('Bilal', students)).toBeUndefined();
+        expect(matchStudent('Zaid', students)).toBeUndefined();
+        expect(matchStudent('', students)).toBeUndefined();
+    });
+});
@@ -0,0 +1,187 @@
+import { AppSettings, CustomTone, LanguageCode, ReplyTone, Student, ToneId } from '../types';
+import { AnalyzedContext } from './geminiService';
+import { ConversationContext } from './conversationService';
+import { ExampleBank } from './feedbackService';
+import { EditableSentence } from './replyEditingService';
+import { normalizeSearchText } from './historyService';
+import { draftReply } from './replyPipeline';
+import { ReplyRecipient } from './guardianService';
+
+export interface ChatMessage {
+    sender: string; // '' when the text had no sender, e.g. plain pasted paragraphs
+    timestamp: string; // ISO date, or '' when unknown
+    text: string;
+}
+
+export interface UnansweredThread {
+    sender: string;
+    messages: ChatMessage[];
+}
+
+export type BatchDraftStatus = 'queued' | 'drafting' | 'ready' | 'approved' | 'skipped' | 'failed';
+
+export interface BatchDraft {
+    id: string;
+    sender: string;
+    studentId?: string;
+    message: string;
+    receivedAt: string;
+    tone: ToneId;
+    status: BatchDraftStatus;
+    context?: AnalyzedContext;
+    // The student, or the parent who wrote in for them.
+    recipient?: ReplyRecipient;
+    sentences: EditableSentence[];
+    // The language paired with Arabic, chosen once the message has been analysed.
+    language?: LanguageCode;
+    toneDescription?: string;
+    error?: string;
+}
+
+// === WhatsApp export parsing ===
+
+// Android: "31/12/2023, 21:41 - Name: text"   iOS: "[31/12/2023, 21:41:05] Name: text"
+const LINE_PATTERN = /^\[?(\d{1,4})[./-](\d{1,2})[./-](\d{1,4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp]\.?\s?[Mm]\.?)?\]?\s*(?:[-\u2013]\s+)?(.*)$/;
+const SENDER_PATTERN = /^([^:]{1,60}?):\s(.*)$/s;
+// Exports mark direction with invisible characters that would break matching.
+const INVISIBLE_MARKS = /[\u200E\u200F\u202A-\u202E\u2066-\u2069\uFEFF]/g;
+const MEDIA_PLACEHOLDER = /^(<.*(omitted|attached).*>|(image|video|audio|sticker|GIF|document) omitted|This message was deleted|You deleted this message)$/i;
+
+interface RawLine {
+    date: [number, number, number];
+    hours: number;
+    minutes: number;
+    seconds: number;
+    meridiem?: string;
+}
+
+// Exports use the phone's locale: day-first unless a value proves otherwise.
+const detectDayFirst = (lines: RawLine[]): boolean => {
+    if (lines.some(l => l.date[0] > 12 && l.date[0] < 100)) return true;
+    if (lines.some(l => l.date[1] > 12)) return false;
+    return true;
+};
+
+const toIsoDate = (line: RawLine, dayFirst: boolean): string => {
+    const [a, b, c] = line.date;
+    const [year, month, day] = a > 31 ? [a, b, c] : dayFirst ? [c, b, a] : [c, a, b];
+    let hours = line.hours;
+    const meridiem = line.meridiem?.toLowerCase().replace(/[.\s]/g, '');
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+    const date = new Date(year < 100 ? 2000 + year : year, month - 1, day, hours, line.minutes, line.seconds);
+    return isNaN(date.getTime()) ? '' : date.toISOString();
+};
+
+/**
+ * Parses a WhatsApp chat export (Android or iOS format) into messages.
+ * Continuation lines are joined to the message above; system notices and
+ * media placeholders are dropped. Text that is not an export at all is split
+ * into paragraphs, each treated as one message from an unknown sender.
+ */
+export const parseChatExport = (text: string): ChatMessage[] => {
+    const lines = text.replace(INVISIBLE_MARKS, '').split(/\r?\n/);
+    const entries: { raw: RawLine; body: string }[] = [];
+
+    for (const line of lines) {
+        const match = line.match(LINE_PATTERN);
+        if (match) {
+            const [, a, b, c, h, m, s, meridiem, rest] = match;
+            entries.push({
+                raw: { date: [Number(a), Number(b), Number(c)], hours: Number(h), minutes: Number(m), seconds: Number(s || 0), meridiem },
+                body: rest,
+            });
+        } else if (entries.length > 0) {
+            entries[entries.length - 1].body += `\n${line}`;
+        }
+    }
+
+    if (entries.length === 0) {
+        return text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).map(p => ({ sender: '', timestamp: '', text: p }));
+    }
+
+    const dayFirst = detectDayFirst(entries.map(e => e.raw));
+    return entries.flatMap(({ raw, body }) => {
+        const match = body.match(SENDER_PATTERN);
+        if (!match) return []; // system notice, e.g. "Messages are end-to-end encrypted"
+        const messageText = match[2].trim();
+        if (!messageText || MEDIA_PLACEHOLDER.test(messageText)) return [];
+        return [{ sender: match[1].trim(), timestamp: toIsoDate(raw, dayFirst), text: messageText }];
+    });
+};
+
+export const listSenders = (messages: ChatMessage[]): string[] =>
+    [...new Set(messages.map(m => m.sender).filter(Boolean))];
+
+/** Guesses which sender is the teacher from the name in settings. */
+export const guessTeacherSender = (senders: string[], teacherName: string): string => {
+    const name = normalizeSearchText(teacherName);
+    return senders.find(s => normalizeSearchText(s) === name)
+        || senders.find(s => name && normalizeSearchText(s).includes(name))
+        || '';
+};
+
+/**
+ * Collects the messages that arrived after the teacher last wrote, grouped by
+ * sender so consecutive messages from one student get a single reply.
+ * Messages without a sender are never grouped.
+ */
+export const findUnansweredThreads = (messages: ChatMessage[], teacherSender: string): UnansweredThread[] => {
+    let pending = new Map<string, UnansweredThread>();
+    messages.forEach((message, index) => {
+        if (teacherSender && message.sender === teacherSender) {
+            pending = new Map();
+            return;
+        }
+        const key = message.sender || `#${index}`;
+        const thread = pending.get(key) || { sender: message.sender, messages: [] };
+        thread.messages.push(message);
+        pending.set(key, thread);
+    });
+    return [...pending.values()];
+};
+
+/**
+ * Finds the student a chat sender refers to: an exact name first, then a
+ * guardian's exact name, then a unique first-name match.
+ */
+export const matchStudent = (sender: string, students: Student[]): Student | undefined => {
+    const name = normalizeSearchText(sender);
+    if (!name) return undefined;
+    const active = students.filter(s => !s.archived);
+    const exact = active.find(s => normalizeSearchText(s.name) === name);
+    if (exact) return exact;
+    const guardianOf = active.find(s => s.guardians?.some(g => normalizeSearchText(g.name) === name));
+    if (guardianOf) return guardianOf;
+    const firstName = name.split(/\s+/)[0];
+    const candidates = active.filter(s => {
+        const studentName = normalizeSearchText(s.name);
+        return studentName.split(/\s+/)[0] === firstName || name.includes(studentName);
+    });
+    return candidates.length === 1 ? candidates[0] : undefined;
+};
+
+export const createBatchDraft = (thread: UnansweredThread, student: Student | undefined): BatchDraft => ({
+    id: crypto.randomUUID(),
+    sender: thread.sender,
+    studentId: student?.id,
+    message: thread.messages.map(m => m.text).join('\n'),
+    receivedAt: thread.messages[thread.messages.length - 1].timestamp,
+    tone: student?.preferredTone || ReplyTone.FRIENDLY,
+    status: 'queued',
+    sentences: [],
+});
+
+/** Runs analysis and reply generation for one draft. Errors propagate to the caller. */
+export const draftBatchReply = async (
+    draft: BatchDraft,
+    tone: ReplyTone | CustomTone,
+    settings: AppSettings,
+    student: Student | undefined,
+    conversation: ConversationContext | undefined,
+    exampleBank: ExampleBank | undefined,
+    signal?: AbortSignal
+): Promise<Pick<BatchDraft, 'context' | 'recipient' | 'sentences' | 'language' | 'toneDescription'>> => {
+    const { context, recipient, language, reply } = await draftReply({ message: draft.message, tone, settings, student, conversation, exampleBank, signal });
+    return { context, recipient, sentences: reply.sentences, language, toneDescription: reply.toneDescription };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { findQuotedCitation, getCitation, isUnverifiedQuotation, renderCitation, resolveCitation } from './citationService';
+
+const patience = renderCitation(getCitation('quran-2-153')!);
+
+describe('resolveCitation', () => {
+    it('inserts the library text for a cited sentence', () => {
+        expect(resolveCitation({ studentSentence: '', arabicSentence: '', citationId: 'quran-2-153' })).toEqual(patience);
+    });
+
+    it('leaves an unknown citation id alone', () => {
+        const sentence = { studentSentence: 'x', arabicSentence: 'y', citationId: 'quran-0-0' };
+        expect(resolveCitation(sentence)).toBe(sentence);
+    });
+
+    it('replaces a sentence that is only the quotation, with or without its reference', () => {
+        expect(resolveCitation({ studentSentence: 'Allah is with the patient.', arabicSentence: 'إن الله مع الصابرين' })).toEqual(patience);
+        expect(resolveCitation({ studentSentence: 'Allah says…', arabicSentence: 'قال تعالى: ﴿إِنَّ اللَّهَ مَعَ الصَّابِرِينَ﴾ [البقرة: ١٥٣]' })).toEqual(patience);
+    });
+
+    it("keeps the model's own words around a short quotation", () => {
+        const sentence = {
+            studentSentence: 'Be patient, Amina, for Allah is with the patient, and we will make up the lesson on Friday.',
+            arabicSentence: 'اصبري يا أمينة، إن الله مع الصابرين، وسنعوض الدرس يوم الجمعة.',
+        };
+        expect(resolveCitation(sentence)).toBe(sentence);
+        expect(findQuotedCitation(sentence)?.id).toBe('quran-2-153');
+    });
+
+    it('leaves ordinary sentences alone', () => {
+        const sentence = { studentSentence: 'See you on Friday.', arabicSentence: 'أراك يوم الجمعة.' };
+        expect(resolveCitation(sentence)).toBe(sentence);
+        expect(findQuotedCitation(sentence)).toBeUndefined();
+    });
+});
+
+describe('isUnverifiedQuotation', () => {
+    it('flags quotations that are not from the library', () => {
+        expect(isUnverifiedQuotation({ studentSentence: 'The Prophet (pbuh) said to smile.', arabicSentence: 'تبسمك في وجه أخيك صدقة' })).toBe(true);
+    });
+
+    it('trusts library citations and library text quoted inside a sentence', () => {
+        expect(isUnverifiedQuotation(patience)).toBe(false);
+        expect(isUnverifiedQuotation({ studentSentence: "As the Qur'an 2:153 says, Allah is with the patient.", arabicSentence: 'كما قال تعالى، إن الله مع الصابرين، فاصبري.' })).toBe(false);
+    });
+});
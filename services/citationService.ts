@@ -0,0 +1,119 @@
+import { Citation, MessageType, ReplyTone, Sentiment, CustomTone } from '../types';
+import { MAX_PROMPT_CITATIONS } from '../constants';
+import { CITATIONS } from '../citations';
+import type { BilingualReplySentence } from './geminiService';
+import { normalizeSearchText } from './historyService';
+
+const CITATIONS_BY_ID = new Map(CITATIONS.map(citation => [citation.id, citation]));
+
+// Diacritic-insensitive Arabic, so a quotation the model wrote out itself can still be matched to the library.
+const NORMALIZED_CITATIONS = CITATIONS.map(citation => ({
+    citation,
+    text: normalizeSearchText(citation.arabic),
+    referenceWords: normalizeSearchText(citation.referenceArabic).split(/[^\p{L}]+/u).filter(Boolean),
+}));
+
+// Words that may introduce or follow a quotation, in normalized form (ى → ي, ة → ه).
+const QUOTATION_FRAMING = /قال تعالي|قال الله تعالي|قال رسول الله|قال النبي|صلي الله عليه وسلم|ﷺ/g;
+// Letters a sentence may have beyond the quotation, its reference and framing and still count as only the quotation.
+const MAX_EXTRA_LETTERS = 3;
+
+const THEMES_BY_MESSAGE_TYPE: Record<MessageType, string[]> = {
+    [MessageType.NEW_STUDENT]: ['beginning', 'learning', 'quran'],
+    [MessageType.CURRENT_STUDENT]: ['progress', 'recitation', 'encouragement', 'consistency'],
+    [MessageType.ABSENT_STUDENT]: ['absence', 'illness', 'hardship', 'consistency'],
+    [MessageType.RESCHEDULE]: ['patience', 'ease', 'rescheduling'],
+    [MessageType.PAYMENT]: ['gratitude', 'provision', 'payment'],
+    [MessageType.GENERAL]: ['learning', 'gratitude'],
+};
+
+const THEMES_BY_SENTIMENT: Partial<Record<Sentiment, string[]>> = {
+    [Sentiment.NEGATIVE]: ['hardship', 'comfort', 'patience'],
+    [Sentiment.APOLOGETIC]: ['hardship', 'ease', 'comfort'],
+    [Sentiment.ENTHUSIASTIC]: ['encouragement', 'gratitude'],
+    [Sentiment.POSITIVE]: ['encouragement', 'gratitude'],
+};
+
+// Signs that a sentence quotes scripture or the Prophet ﷺ.
+const QUOTATION_MARKERS = [
+    /[\uFD3E\uFD3F\u06DD\uFDFA]/, // ornate parentheses, end-of-ayah mark, ﷺ
+    /قال تعالى|قال رسول الله|صلى الله عليه وسلم/,
+    /\b(qur'?an|surah|ayah|hadith|sahih|bukhari|tirmidhi|ibn majah)\b.*\d|\b(the prophet|allah) (said|says)\b|\(pbuh\)/i,
+];
+
+export const getCitation = (id: string): Citation | undefined => CITATIONS_BY_ID.get(id);
+
+/**
+ * The library entries that best suit a message, by overlap between their
+ * themes and those of the message type and sentiment. Library order breaks ties.
+ */
+export const rankCitations = (messageType: MessageType, sentiment: Sentiment, limit = MAX_PROMPT_CITATIONS): Citation[] => {
+    const themes = new Set([...THEMES_BY_MESSAGE_TYPE[messageType], ...(THEMES_BY_SENTIMENT[sentiment] || [])]);
+    return CITATIONS
+        .map((citation, order) => ({ citation, order, score: citation.themes.filter(theme => themes.has(theme)).length }))
+        .sort((a, b) => b.score - a.score || a.order - b.order)
+        .slice(0, limit)
+        .map(entry => entry.citation);
+};
+
+/** The sentence pair for a citation, with the verified text and its reference in both languages. */
+export const renderCitation = (citation: Citation): BilingualReplySentence => ({
+    studentSentence: `“${citation.translation}” (${citation.reference})`,
+    arabicSentence: citation.kind === 'quran'
+        ? `﴿${citation.arabic}﴾ [${citation.referenceArabic}]`
+        : `«${citation.arabic}» (${citation.referenceArabic})`,
+    citationId: citation.id,
+});
+
+const findQuotation = (sentence: BilingualReplySentence) => {
+    const arabic = normalizeSearchText(sentence.arabicSentence);
+    return arabic ? NORMALIZED_CITATIONS.find(entry => arabic.includes(entry.text)) : undefined;
+};
+
+/** The library entry quoted inside a sentence the model wrote itself, if any. */
+export const findQuotedCitation = (sentence: BilingualReplySentence): Citation | undefined =>
+    sentence.citationId ? undefined : findQuotation(sentence)?.citation;
+
+/**
+ * Replaces a cited sentence with the library text, and a sentence that is
+ * nothing but a library quotation (give or take its reference) with that
+ * entry. A sentence that quotes an entry among words of its own is kept, so
+ * the rest of the reply is not lost; findQuotedCitation points it out.
+ * Anything else, including a citation id the library does not know, is
+ * returned unchanged.
+ */
+export const resolveCitation = (sentence: BilingualReplySentence): BilingualReplySentence => {
+    const cited = sentence.citationId ? getCitation(sentence.citationId) : undefined;
+    if (cited) return renderCitation(cited);
+    if (sentence.citationId) return sentence;
+    const quoted = findQuotation(sentence);
+    if (!quoted) return sentence;
+    let rest = normalizeSearchText(sentence.arabicSentence).replace(quoted.text, ' ').replace(QUOTATION_FRAMING, ' ');
+    quoted.referenceWords.forEach(word => { rest = rest.replace(word, ' '); });
+    const extraLetters = rest.replace(/[^\p{L}]/gu, '').length;
+    return extraLetters <= MAX_EXTRA_LETTERS ? renderCitation(quoted.citation) : sentence;
+};
+
+/** True when a sentence looks like a verse, hadith or du'a but is not a verified library citation. */
+export const isUnverifiedQuotation = (sentence: BilingualReplySentence): boolean =>
+    !(sentence.citationId && getCitation(sentence.citationId))
+    && !findQuotedCitation(sentence)
+    && QUOTATION_MARKERS.some(marker => marker.test(sentence.studentSentence) || marker.test(sentence.arabicSentence));
+
+/**
+ * Prompt rules for quotations. The Islamic tone gets the most relevant library
+ * entries to cite by id; every other tone is asked not to quote at all.
+ */
+export const formatCitationsForPrompt = (tone: ReplyTone | CustomTone, messageType: MessageType, sentiment: Sentiment): string => {
+    const rule = 'Never write a Qur\'an verse, hadith or du\'a from memory, paraphrase one, or attribute words to Allah or the Prophet ﷺ yourself. Set "citationId" to "" on every ordinary sentence.';
+    if (tone !== ReplyTone.ISLAMIC) {
+        return `**Quotations:** Do not quote the Qur'an, hadith or du'as in this reply. ${rule}`;
+    }
+    const entries = rankCitations(messageType, sentiment).map(citation =>
+        `- ${citation.id} (${citation.kind}, ${citation.reference}): "${citation.translation}"`);
+    return `**Verified Quotations:**
+      You may include at most one quotation, and only one from this verified list, when it genuinely suits the message.
+      To quote, add a sentence pair whose "citationId" is the id below and whose studentSentence and arabicSentence are both ""; the app inserts the exact text and reference.
+      ${rule}
+      ${entries.join('\n      ')}`;
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ReplyTone } from '../types';
+import { VARIANT_TEMPERATURES } from '../constants';
+import { ReplyVariant, mergeVariants, planVariants } from './compareService';
+
+describe('planVariants', () => {
+    it('spreads one tone across the temperature range, ends included', () => {
+        expect(planVariants('temperature', ReplyTone.FRIENDLY, [], 2).map(v => v.temperature)).toEqual([0.3, 1.1]);
+        expect(planVariants('temperature', ReplyTone.FRIENDLY, [], 4).map(v => v.temperature)).toEqual(VARIANT_TEMPERATURES);
+        expect(planVariants('temperature', ReplyTone.FRIENDLY, [], 9)).toHaveLength(4);
+    });
+
+    it('never samples above 1.1', () => {
+        [2, 3, 4].forEach(count => planVariants('temperature', ReplyTone.FRIENDLY, [], count)
+            .forEach(v => expect(v.temperature).toBeLessThanOrEqual(1.1)));
+    });
+
+    it('drafts each chosen tone once, and needs at least two', () => {
+        expect(planVariants('tones', ReplyTone.FRIENDLY, [ReplyTone.FORMAL, ReplyTone.FORMAL, ReplyTone.BRIEF_DIRECT], 3)).toEqual([
+            { tone: ReplyTone.FORMAL },
+            { tone: ReplyTone.BRIEF_DIRECT },
+        ]);
+        expect(planVariants('tones', ReplyTone.FRIENDLY, [ReplyTone.FORMAL], 3)).toEqual([]);
+    });
+
+    it('pairs a reply for the child with one for the parent', () => {
+        expect(planVariants('paired', ReplyTone.FOR_KIDS, [], 2)).toEqual([
+            { tone: ReplyTone.FOR_KIDS, audience: 'student' },
+            { tone: ReplyTone.FORMAL, audience: 'guardian' },
+        ]);
+    });
+});
+
+describe('mergeVariants', () => {
+    it('takes the picked sentences in the order they were picked', () => {
+        const variant = (label: string): ReplyVariant => ({
+            tone: ReplyTone.FRIENDLY,
+            sentences: [0, 1].map(i => ({ studentSentence: `${label}${i}`, arabicSentence: '' })),
+            toneDescription: '',
+            done: true,
+        });
+        const merged = mergeVariants([variant('a'), variant('b')], [{ variant: 1, sentence: 0 }, { variant: 0, sentence: 1 }, { variant: 2, sentence: 0 }]);
+        expect(merged.map(s => s.studentSentence)).toEqual(['b0', 'a1']);
+    });
+});
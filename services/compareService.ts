@@ -0,0 +1,84 @@
+import { LanguageCode, MessageSender, ReplyComparison, ReplyTone, ToneId } from '../types';
+import { MAX_REPLY_VARIANTS, MIN_REPLY_VARIANTS, VARIANT_TEMPERATURES } from '../constants';
+import type { BilingualReplySentence } from './geminiService';
+import { ToneOption } from './templateService';
+
+// Variants either try different tones, one tone at different temperatures,
+// or pair a kid-friendly reply for a child with a progress update for their parent.
+export type CompareMode = 'tones' | 'temperature' | 'paired';
+
+export interface VariantPlan {
+    tone: ToneId;
+    temperature?: number;
+    // Who a paired reply is written to.
+    audience?: MessageSender;
+}
+
+export interface ReplyVariant extends VariantPlan {
+    // The language paired with Arabic, when it differs between variants.
+    language?: LanguageCode;
+    sentences: BilingualReplySentence[];
+    toneDescription: string;
+    done: boolean;
+    error?: string;
+}
+
+// A sentence picked for the merged reply: which variant, and which of its sentences.
+export interface SentencePick {
+    variant: number;
+    sentence: number;
+}
+
+const clampCount = (count: number) => Math.min(MAX_REPLY_VARIANTS, Math.max(MIN_REPLY_VARIANTS, count));
+
+// `count` temperatures from both ends of VARIANT_TEMPERATURES and evenly between, so two variants still differ clearly.
+const spreadTemperatures = (count: number): number[] => {
+    const last = VARIANT_TEMPERATURES.length - 1;
+    return Array.from({ length: count }, (_, i) => VARIANT_TEMPERATURES[Math.round(i * last / (count - 1))]);
+};
+
+/**
+ * The variants to draft: each chosen tone once, `count` copies of `tone`
+ * spread across VARIANT_TEMPERATURES, or the child and parent pair. The
+ * parent's reply uses `tone`, unless that is the kids' tone.
+ * Returns [] when fewer than two tones are chosen.
+ */
+export const planVariants = (mode: CompareMode, tone: ToneId, tones: ToneId[], count: number): VariantPlan[] => {
+    if (mode === 'paired') {
+        return [
+            { tone: ReplyTone.FOR_KIDS, audience: 'student' },
+            { tone: tone === ReplyTone.FOR_KIDS ? ReplyTone.FORMAL : tone, audience: 'guardian' },
+        ];
+    }
+    if (mode === 'tones') {
+        const unique = [...new Set(tones)].slice(0, MAX_REPLY_VARIANTS);
+        return unique.length >= MIN_REPLY_VARIANTS ? unique.map(t => ({ tone: t })) : [];
+    }
+    return spreadTemperatures(clampCount(count)).map(temperature => ({ tone, temperature }));
+};
+
+export const describeVariant = (variant: VariantPlan, toneOptions: ToneOption[]): string => {
+    const tone = toneOptions.find(o => o.value === variant.tone)?.label || variant.tone;
+    if (variant.audience) return `${variant.audience === 'guardian' ? 'For the parent' : 'For the child'} · ${tone}`;
+    return variant.temperature === undefined ? tone : `${tone} · temperature ${variant.temperature}`;
+};
+
+/** The sentences picked for a merged reply, in the order they were picked. */
+export const mergeVariants = (variants: ReplyVariant[], picks: SentencePick[]): BilingualReplySentence[] =>
+    picks.flatMap(p => variants[p.variant]?.sentences[p.sentence] ?? []);
+
+/** Records what was compared and where each sentence of the final reply came from. */
+export const buildComparison = (variants: ReplyVariant[], sources: number[]): ReplyComparison => ({
+    variants: variants.map(({ tone, temperature, audience, toneDescription }) => ({ tone, temperature, audience, toneDescription })),
+    sources,
+});
+
+/** A short note for history, e.g. "Picked 😊 Friendly of 3 variants" or "Merged from 2 of 3 variants". */
+export const describeComparison = (comparison: ReplyComparison, toneOptions: ToneOption[]): string => {
+    const used = [...new Set(comparison.sources)];
+    const total = comparison.variants.length;
+    if (used.length === 1 && comparison.variants[used[0]]) {
+        return `Picked ${describeVariant(comparison.variants[used[0]], toneOptions)} of ${total} variants`;
+    }
+    return `Merged from ${used.length} of ${total} variants`;
+};
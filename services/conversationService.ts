@@ -0,0 +1,64 @@
+import { ConversationTurn, Student } from '../types';
+import { isolateUntrusted, untrustedInputRule } from './promptSafety';
+
+export interface ConversationContext {
+    recentTurns: ConversationTurn[];
+    teacherNotes?: string;
+}
+
+/** When a turn's message was sent: the time it arrived if known, else when it was recorded. */
+export const getTurnTime = (turn: ConversationTurn): string => turn.receivedAt || turn.date;
+
+export const getStudentThread = (turns: ConversationTurn[], studentId: string): ConversationTurn[] =>
+    turns
+        .filter(t => t.studentId === studentId)
+        .sort((a, b) => getTurnTime(a).localeCompare(getTurnTime(b)));
+
+/**
+ * Appends a turn unless it repeats the most recent turn from the same speaker,
+ * so regenerating a reply for the same message doesn't duplicate the thread.
+ * The turn is dated now; imported messages also pass `receivedAt`, the time they were sent.
+ */
+export const appendTurn = (
+    turns: ConversationTurn[],
+    turn: Omit<ConversationTurn, 'id' | 'date'>
+): ConversationTurn[] => {
+    const thread = getStudentThread(turns, turn.studentId);
+    const last = thread[thread.length - 1];
+    if (last && last.role === turn.role && last.text.trim() === turn.text.trim()) {
+        // The same message imported later still tells us when it arrived.
+        return turn.receivedAt && !last.receivedAt
+            ? turns.map(t => t.id === last.id ? { ...t, receivedAt: turn.receivedAt } : t)
+            : turns;
+    }
+    return [...turns, { ...turn, id: crypto.randomUUID(), date: new Date().toISOString() }];
+};
+
+export const buildConversationContext = (
+    turns: ConversationTurn[],
+    student: Student | null | undefined,
+    windowSize: number
+): ConversationContext | undefined => {
+    if (!student) return undefined;
+    const recentTurns = windowSize > 0 ? getStudentThread(turns, student.id).slice(-windowSize) : [];
+    const teacherNotes = student.notes?.trim() || undefined;
+    if (recentTurns.length === 0 && !teacherNotes) return undefined;
+    return { recentTurns, teacherNotes };
+};
+
+/** Renders the conversation context as a prompt section, or '' when there is none. */
+export const formatConversationForPrompt = (conversation?: ConversationContext): string => {
+    if (!conversation) return '';
+    const sections: string[] = [];
+    if (conversation.recentTurns.length > 0) {
+        const lines = conversation.recentTurns.map(t =>
+            `- [${new Date(getTurnTime(t)).toDateString()}] ${t.role === 'student' ? 'Student' : 'Teacher'}: "${t.text}"`);
+        const history = isolateUntrusted(lines.join('\n'), 'conversation_history');
+        sections.push(`**Previous Conversation (oldest first):**\n${history.block}\n${untrustedInputRule(history.tag)}`);
+    }
+    if (conversation.teacherNotes) {
+        sections.push(`**Teacher's Private Notes About This Student:**\n${conversation.teacherNotes}`);
+    }
+    sections.push('Stay consistent with any schedules, progress, or commitments mentioned above. Do not contradict earlier replies.');
+    return sections.join('\n\n');
+};
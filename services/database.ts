@@ -0,0 +1,139 @@
+import { AppDataSnapshot, CollectionName } from '../types';
+import { DATABASE_NAME, DATABASE_VERSION, QUICK_REPLY_TEMPLATES, storageKey } from '../constants';
+import { migrateSnapshot } from './migrations';
+
+export const SETTINGS_STORE = 'settings';
+export const SETTINGS_KEY = 'app';
+// Replies requested while offline (PendingGeneration). Device-local, so outside the backed-up collections.
+export const PENDING_STORE = 'pendingGenerations';
+
+// Every collection is keyed by record id. Indexes back the per-student and date-range queries.
+export const COLLECTION_INDEXES: Record<CollectionName, string[]> = {
+    students: [],
+    savedReplies: ['studentId', 'date'],
+    reminders: ['studentId', 'remindAt'],
+    conversations: ['studentId', 'date'],
+    customTones: [],
+    quickReplyTemplates: [],
+    analyses: ['studentId', 'date'],
+};
+
+const COLLECTIONS = Object.keys(COLLECTION_INDEXES) as CollectionName[];
+
+// Initial contents for a brand-new database, matching the app's first-run defaults.
+const FIRST_RUN_DEFAULTS: Partial<Record<CollectionName, unknown[]>> = {
+    quickReplyTemplates: QUICK_REPLY_TEMPLATES,
+};
+
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error("Transaction aborted"));
+    });
+
+const readLegacyItem = (name: keyof AppDataSnapshot): unknown => {
+    const item = window.localStorage.getItem(storageKey(name));
+    if (item === null) return undefined;
+    try {
+        return JSON.parse(item);
+    } catch (error) {
+        console.error(`Skipping unreadable ${storageKey(name)}:`, error);
+        return undefined;
+    }
+};
+
+/**
+ * Copies the localStorage data (already upgraded to the current schema by
+ * runStorageMigrations) into the new stores. Runs inside the upgrade
+ * transaction, so it happens exactly once and either fully or not at all.
+ * The localStorage keys are left in place as a fallback.
+ */
+const importLegacyStorage = (transaction: IDBTransaction) => {
+    const settings = readLegacyItem('settings');
+    if (settings && typeof settings === 'object') {
+        transaction.objectStore(SETTINGS_STORE).put(settings, SETTINGS_KEY);
+    }
+    COLLECTIONS.forEach(name => {
+        const legacy = readLegacyItem(name);
+        const items = Array.isArray(legacy) ? legacy : FIRST_RUN_DEFAULTS[name] || [];
+        const store = transaction.objectStore(name);
+        items.filter(item => item && typeof item.id === 'string').forEach(item => store.put(item));
+    });
+};
+
+/**
+ * Rewrites every stored record through the data migrations newer than
+ * `fromSchemaVersion`, for databases created before a schema change.
+ */
+const migrateStoredRecords = (transaction: IDBTransaction, fromSchemaVersion: number) => {
+    COLLECTIONS.forEach(name => {
+        const request = transaction.objectStore(name).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            const [migrated] = migrateSnapshot({ [name]: [cursor.value] }, fromSchemaVersion)[name] as unknown[];
+            cursor.update(migrated);
+            cursor.continue();
+        };
+    });
+    const settingsStore = transaction.objectStore(SETTINGS_STORE);
+    const request = settingsStore.get(SETTINGS_KEY);
+    request.onsuccess = () => {
+        if (request.result) settingsStore.put(migrateSnapshot({ settings: request.result }, fromSchemaVersion).settings, SETTINGS_KEY);
+    };
+};
+
+const createCollectionStore = (db: IDBDatabase, name: CollectionName) => {
+    const store = db.createObjectStore(name, { keyPath: 'id' });
+    COLLECTION_INDEXES[name].forEach(index => store.createIndex(index, index));
+};
+
+const upgrade = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => {
+    if (oldVersion < 1) {
+        db.createObjectStore(SETTINGS_STORE);
+        db.createObjectStore(PENDING_STORE, { keyPath: 'id' });
+        COLLECTIONS.forEach(name => createCollectionStore(db, name));
+        importLegacyStorage(transaction);
+        return;
+    }
+    // New stores come first, so the record migration below finds every collection.
+    if (oldVersion < 3) createCollectionStore(db, 'analyses');
+    if (oldVersion < 4) db.createObjectStore(PENDING_STORE, { keyPath: 'id' });
+    if (oldVersion < 2) {
+        // Version 1 databases hold data schema v3 records.
+        migrateStoredRecords(transaction, 3);
+    }
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/** Opens (and on first use creates and populates) the app database. */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            if (!('indexedDB' in window)) {
+                reject(new Error("IndexedDB is not supported by this browser."));
+                return;
+            }
+            const request = window.indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+            request.onupgradeneeded = event => upgrade(request.result, request.transaction!, event.oldVersion);
+            request.onsuccess = () => {
+                const db = request.result;
+                // Another tab is upgrading to a newer version: step aside so it can proceed.
+                db.onversionchange = () => db.close();
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => console.warn("Database upgrade is waiting for other tabs to close.");
+        });
+        databasePromise.catch(() => { databasePromise = null; });
+    }
+    return databasePromise;
+};
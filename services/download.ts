@@ -0,0 +1,11 @@
+/** Triggers a browser download of in-memory text content. */
+export const downloadTextFile = (filename: string, content: string, mimeType = 'text/plain;charset=utf-8'): void => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,102 @@
+import { MessageType, SavedReply, Sentiment, ToneId } from '../types';
+import { DEFAULT_REPLY_LANGUAGE, MAX_AVOID_PATTERNS } from '../constants';
+import { getLanguage } from './languageService';
+import { isolateUntrusted, untrustedInputRule } from './promptSafety';
+
+export interface FeedbackCriteria {
+    messageType: MessageType;
+    tone: ToneId;
+    sentiment: Sentiment;
+}
+
+/** Rated replies to learn from, chosen for one generation. */
+export interface ReplyFeedback {
+    examples: SavedReply[];
+    avoid: SavedReply[];
+}
+
+/** Thumbs-up replies indexed by each criterion, plus the thumbs-down ones. */
+export interface ExampleBank {
+    byMessageType: Map<MessageType, SavedReply[]>;
+    byTone: Map<ToneId, SavedReply[]>;
+    bySentiment: Map<Sentiment, SavedReply[]>;
+    rejected: SavedReply[];
+}
+
+// A matching message type matters most: a lovely payment reminder is a poor model for a condolence.
+const WEIGHTS = { messageType: 3, tone: 2, sentiment: 1 };
+const MIN_RELEVANCE = WEIGHTS.tone;
+
+const addToIndex = <K,>(index: Map<K, SavedReply[]>, key: K | undefined, reply: SavedReply) => {
+    if (key === undefined) return;
+    index.set(key, [...(index.get(key) || []), reply]);
+};
+
+export const buildExampleBank = (savedReplies: SavedReply[]): ExampleBank => {
+    const bank: ExampleBank = { byMessageType: new Map(), byTone: new Map(), bySentiment: new Map(), rejected: [] };
+    savedReplies.forEach(reply => {
+        if (reply.rating === 'down') {
+            bank.rejected.push(reply);
+        } else if (reply.rating === 'up') {
+            addToIndex(bank.byMessageType, reply.messageType, reply);
+            addToIndex(bank.byTone, reply.tone, reply);
+            addToIndex(bank.bySentiment, reply.sentiment, reply);
+        }
+    });
+    return bank;
+};
+
+const newestFirst = (a: SavedReply, b: SavedReply) => b.date.localeCompare(a.date);
+
+/**
+ * Picks the approved replies most similar to the current message (same type,
+ * then tone, then sentiment; newest wins ties) and the downvoted replies to
+ * steer away from, preferring those of the same message type.
+ */
+export const selectFeedback = (bank: ExampleBank, criteria: FeedbackCriteria, limit: number): ReplyFeedback => {
+    const scores = new Map<string, { reply: SavedReply; score: number }>();
+    const score = (replies: SavedReply[] | undefined, weight: number) => (replies || []).forEach(reply => {
+        const entry = scores.get(reply.id) || { reply, score: 0 };
+        entry.score += weight;
+        scores.set(reply.id, entry);
+    });
+    score(bank.byMessageType.get(criteria.messageType), WEIGHTS.messageType);
+    score(bank.byTone.get(criteria.tone), WEIGHTS.tone);
+    score(bank.bySentiment.get(criteria.sentiment), WEIGHTS.sentiment);
+
+    const examples = [...scores.values()]
+        .filter(entry => entry.score >= MIN_RELEVANCE)
+        .sort((a, b) => b.score - a.score || newestFirst(a.reply, b.reply))
+        .slice(0, limit)
+        .map(entry => entry.reply);
+
+    const avoid = [...bank.rejected]
+        .sort((a, b) => Number(b.messageType === criteria.messageType) - Number(a.messageType === criteria.messageType) || newestFirst(a, b))
+        .slice(0, MAX_AVOID_PATTERNS);
+
+    return { examples, avoid };
+};
+
+/** Renders the feedback as a prompt section, or '' when there is none. */
+export const formatFeedbackForPrompt = (feedback?: ReplyFeedback): string => {
+    if (!feedback) return '';
+    const sections: string[] = [];
+    // The examples quote past student messages, so they are isolated like the message itself.
+    const tags: string[] = [];
+    const isolate = (text: string) => {
+        const isolated = isolateUntrusted(text, 'rated_examples');
+        tags.push(isolated.tag);
+        return isolated.block;
+    };
+    if (feedback.examples.length > 0) {
+        const examples = feedback.examples.map((r, i) =>
+            `Example ${i + 1} (${r.messageType}):\n  Student: "${r.studentMessage}"\n  Teacher (${getLanguage(r.language || DEFAULT_REPLY_LANGUAGE).name}): "${r.studentReply}"\n  Teacher (Arabic): "${r.arabicReply}"`);
+        sections.push(`**Replies This Teacher Approved (match their voice, length and phrasing; do not copy details that don't apply):**\n${isolate(examples.join('\n'))}`);
+    }
+    if (feedback.avoid.length > 0) {
+        const avoid = feedback.avoid.map(r => `- "${r.studentReply}"`);
+        sections.push(`**Replies This Teacher Rejected (avoid their wording, length and style):**\n${isolate(avoid.join('\n'))}`);
+    }
+    if (tags.length > 0) sections.push(untrustedInputRule(...tags));
+    return sections.join('\n\n');
+};
@@ -0,0 +1,305 @@
+import { Schema, Type } from "@google/genai";
+import { MessageType, ReplyTone, Sentiment, IntegrationPlatform, Student, CustomTone, LanguageCode, ArabicStyle, MessageSender } from '../types';
+import { DEFAULT_DETECTION_LANGUAGES, DEFAULT_REPLY_LANGUAGE, MODEL_MAX_RETRIES, MODEL_RETRY_BASE_DELAY_MS } from '../constants';
+import { getModelProvider, JsonGenerationRequest } from './modelProvider';
+import { generateValidatedJson, parseJsonOutput, validateAnalyzedContext, validateGeneratedReply } from './outputValidation';
+import { isRetryableModelError, toModelError } from './modelErrors';
+import { isolateUntrusted, untrustedInputRule } from './promptSafety';
+import { withRetry } from './retry';
+import { readCachedResponse, withResponseCache, writeCachedResponse } from './responseCache';
+import { parsePartialReply, PartialReply } from './replyStreamParser';
+import { ConversationContext, formatConversationForPrompt } from './conversationService';
+import { ReplyFeedback, formatFeedbackForPrompt } from './feedbackService';
+import { formatCitationsForPrompt, resolveCitation } from './citationService';
+import { describeReplyLanguage, getLanguage } from './languageService';
+import { ReschedulePlan, formatScheduleForPrompt } from './scheduleService';
+import { PaymentContext, formatLedgerForPrompt } from './ledgerService';
+import { describeArabic, formatArabicStyleForPrompt } from './arabicStyleService';
+import { ReplyRecipient, formatRecipientForPrompt, getRecipientName } from './guardianService';
+
+export interface AnalyzedContext {
+  messageType: MessageType;
+  sentiment: Sentiment;
+  // One of the configured detection languages.
+  detectedLanguage: LanguageCode | 'unknown';
+  // Whether the student wrote it, or a parent or guardian writing about them.
+  sender: MessageSender;
+}
+
+export interface BilingualReplySentence {
+    // The sentence in the student's language, which is English unless configured otherwise.
+    studentSentence: string;
+    arabicSentence: string;
+    // Set when the pair is a verified quotation from the citation library.
+    citationId?: string;
+    // A Latin-script reading of the Arabic, when the Arabic style asks for one.
+    transliteration?: string;
+}
+
+export interface GeneratedReply {
+    sentences: BilingualReplySentence[];
+    toneDescription: string;
+}
+
+const buildContextAnalysisSchema = (languages: LanguageCode[]): Schema => ({
+    type: Type.OBJECT,
+    properties: {
+        messageType: { type: Type.STRING, enum: Object.values(MessageType) },
+        sentiment: { type: Type.STRING, enum: Object.values(Sentiment) },
+        detectedLanguage: { type: Type.STRING, enum: [...languages, 'unknown'] },
+        sender: { type: Type.STRING, enum: ['student', 'guardian'], description: '"guardian" when a parent or guardian is writing about their child, otherwise "student".' },
+    },
+    required: ['messageType', 'sentiment', 'detectedLanguage', 'sender'],
+});
+
+/** A Latin-script reading of the Arabic, added to sentence schemas when transliteration is on. */
+export const TRANSLITERATION_PROPERTY: Schema = {
+    type: Type.STRING,
+    description: "A simple Latin-script transliteration of the Arabic sentence, or \"\" for a quotation.",
+};
+
+const buildReplyGenerationSchema = (transliteration: boolean): Schema => ({
+    type: Type.OBJECT,
+    properties: {
+        sentences: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    studentSentence: { type: Type.STRING, description: "A single sentence of the reply in the student's language." },
+                    arabicSentence: { type: Type.STRING, description: "The direct, equivalent translation of that single sentence in Arabic." },
+                    citationId: { type: Type.STRING, description: 'The id of a verified quotation, with both sentences left empty, or "" for an ordinary sentence.' },
+                    ...(transliteration ? { transliteration: TRANSLITERATION_PROPERTY } : {}),
+                },
+                required: ['studentSentence', 'arabicSentence', 'citationId', ...(transliteration ? ['transliteration'] : [])]
+            }
+        },
+        toneDescription: {
+            type: Type.STRING,
+            description: 'A short, friendly description of the reply\'s tone, starting with an emoji. E.g., "⭐ Warm & Encouraging".'
+        }
+    },
+    required: ['sentences', 'toneDescription']
+});
+
+export const analyzeContext = async (
+    studentMessage: string,
+    languages: LanguageCode[] = DEFAULT_DETECTION_LANGUAGES,
+    signal?: AbortSignal
+): Promise<AnalyzedContext> => {
+    const message = isolateUntrusted(studentMessage);
+    const languageList = languages.map(code => `${code} (${getLanguage(code).name})`).join(', ');
+    const prompt = `
+        Analyze the student message below, sent to an Arabic & Qur'an teacher.
+        Determine the message type, sentiment, and the primary language of the message.
+        The language must be one of ${languageList}, or "unknown" if it is none of these.
+        Also decide who wrote it: "guardian" if a parent or guardian is writing about their child (e.g. "my son", "my daughter's lesson"), otherwise "student".
+
+        ${untrustedInputRule(message.tag)}
+
+        ${message.block}
+
+        Provide your analysis as a JSON object matching the required schema.
+    `;
+    try {
+        const request: JsonGenerationRequest = {
+            task: 'analyzeContext',
+            prompt,
+            schema: buildContextAnalysisSchema(languages),
+            input: { studentMessage, languages: languages.join(',') },
+            signal,
+        };
+        return await withResponseCache(request, () =>
+            generateValidatedJson(request, value => validateAnalyzedContext(value, languages), "Failed to analyze the message. Please try again."));
+    } catch (error) {
+        if (!signal?.aborted) console.error("Error analyzing context:", error);
+        throw error;
+    }
+};
+
+export const getToneName = (tone: ReplyTone | CustomTone): string => typeof tone === 'string' ? tone : tone.name;
+
+// Extra guidance for teacher-defined tones, which the model has never seen before.
+const describeCustomTone = (tone: ReplyTone | CustomTone): string => {
+    if (typeof tone === 'string') return '';
+    const lines = [`- Tone instructions from the teacher: ${tone.instructions}`];
+    tone.examples.filter(e => e.trim()).forEach(example => lines.push(`- Example of this tone: "${example.trim()}"`));
+    return lines.join('\n          ');
+};
+
+/** Optional context for a reply. Each part adds its own section to the prompt. */
+export interface ReplyOptions {
+    conversation?: ConversationContext;
+    feedback?: ReplyFeedback;
+    language?: LanguageCode;
+    // Free slots and checked proposals for reschedule and absence messages.
+    schedule?: ReschedulePlan;
+    // The student's balance, for payment messages.
+    payment?: PaymentContext;
+    // Dialect, tashkeel and transliteration for the Arabic side.
+    arabicStyle?: ArabicStyle;
+    // Who the reply is for; the sender of the message when unset.
+    recipient?: ReplyRecipient;
+    // Sampling temperature; the provider's default when unset.
+    temperature?: number;
+    signal?: AbortSignal;
+}
+
+const buildReplyRequest = (
+  studentMessage: string,
+  context: AnalyzedContext,
+  tone: ReplyTone | CustomTone,
+  platform: IntegrationPlatform,
+  teacherName: string,
+  student: Student | null | undefined,
+  { conversation, feedback, language = DEFAULT_REPLY_LANGUAGE, schedule, payment, arabicStyle, recipient, temperature, signal }: ReplyOptions
+): JsonGenerationRequest => {
+    const message = isolateUntrusted(studentMessage);
+    const languageName = getLanguage(language).name;
+    const audience = recipient?.audience || context.sender;
+    const prompt = `
+      You are an AI assistant for a Qur'an and Arabic teacher named ${teacherName}.
+      The teacher is replying to a student message on the ${platform} platform.
+
+      ${untrustedInputRule(message.tag)}
+
+      **Message received:**
+      ${message.block}
+
+      **Context:**
+      - Student's Name: ${student?.name || 'student'}
+      - Detected Message Type: "${context.messageType}"
+      - Detected Student Sentiment: "${context.sentiment}"
+      - Written by: ${context.sender === 'guardian' ? "the student's parent or guardian" : 'the student'}
+
+      ${formatRecipientForPrompt(student, context.sender, recipient)}
+
+      ${formatConversationForPrompt(conversation)}
+
+      ${formatFeedbackForPrompt(feedback)}
+
+      ${formatCitationsForPrompt(tone, context.messageType, context.sentiment)}
+
+      ${formatScheduleForPrompt(schedule)}
+
+      ${formatLedgerForPrompt(payment)}
+
+      ${formatArabicStyleForPrompt(arabicStyle)}
+      
+      **Reply Requirements:**
+      1.  **Tone:** Your reply MUST strictly adhere to the "${getToneName(tone)}" tone.
+          ${describeCustomTone(tone)}
+          - If sentiment is Apologetic or Negative, be extra reassuring.
+          - If sentiment is Enthusiastic, match the energy.
+      2.  **Bilingual:** Generate a reply in both ${describeReplyLanguage(language)} and ${describeArabic(arabicStyle)}. Put the ${languageName} text in "studentSentence".
+      3.  **Structure:** Break the entire reply down into individual, corresponding sentences. Each ${languageName} sentence must have a matching Arabic sentence.
+      4.  **Format:** Keep it short and conversational, suitable for ${platform}.
+      5.  **Signature:** Include the teacher's name, ${teacherName}, in a natural way if appropriate.
+      6.  **Output:** Provide a JSON object that strictly follows the defined schema, containing the array of sentence pairs and a tone description.
+    `;
+
+    return {
+      task: 'generateReply',
+      prompt,
+      schema: buildReplyGenerationSchema(!!arabicStyle?.transliteration),
+      input: {
+        studentMessage,
+        messageType: context.messageType,
+        sentiment: context.sentiment,
+        tone: getToneName(tone),
+        platform,
+        teacherName,
+        studentName: student?.name || '',
+        recipient: audience,
+        recipientName: getRecipientName(student, { audience, guardian: recipient?.guardian }) || '',
+        language,
+        arabicVariety: arabicStyle?.variety || '',
+        diacritics: arabicStyle?.diacritics || '',
+        transliteration: arabicStyle?.transliteration ? 'yes' : '',
+      },
+      temperature,
+      signal,
+    };
+};
+
+const REPLY_FAILED_MESSAGE = "Failed to generate a reply. The model may be unable to process this request. Please try again or rephrase.";
+
+export const generateBilingualReply = async (
+  studentMessage: string,
+  context: AnalyzedContext,
+  tone: ReplyTone | CustomTone,
+  platform: IntegrationPlatform,
+  teacherName: string,
+  student?: Student | null,
+  options: ReplyOptions = {}
+): Promise<GeneratedReply> => {
+  try {
+    const request = buildReplyRequest(studentMessage, context, tone, platform, teacherName, student, options);
+    return await withResponseCache(request, () => generateValidatedJson(request, validateGeneratedReply, REPLY_FAILED_MESSAGE));
+  } catch (error) {
+    if (!options.signal?.aborted) console.error("Error generating bilingual reply:", error);
+    throw error;
+  }
+};
+
+export interface StreamReplyOptions extends ReplyOptions {
+    onUpdate: (partial: PartialReply) => void;
+}
+
+/**
+ * Streams a bilingual reply, reporting each sentence pair as soon as it has been
+ * fully received. Resolves with the complete reply once the stream ends.
+ */
+export const streamBilingualReply = async (
+  studentMessage: string,
+  context: AnalyzedContext,
+  tone: ReplyTone | CustomTone,
+  platform: IntegrationPlatform,
+  teacherName: string,
+  student: Student | null | undefined,
+  { onUpdate, ...options }: StreamReplyOptions
+): Promise<GeneratedReply> => {
+  const { signal } = options;
+  const request = buildReplyRequest(studentMessage, context, tone, platform, teacherName, student, options);
+  // The same message with the same options was answered recently: show that reply at once.
+  const cached = readCachedResponse<GeneratedReply>(request);
+  if (cached) {
+    onUpdate({ ...cached, stage: null });
+    return cached;
+  }
+  // A malformed stream is discarded and requested again; the next attempt's updates replace the partial reply.
+  const attempt = async (): Promise<GeneratedReply> => {
+    let buffer = '';
+    let reportedCount = -1;
+    let reportedStage: PartialReply['stage'] = null;
+    try {
+      for await (const chunk of getModelProvider().streamJson(request)) {
+        buffer += chunk;
+        const partial = parsePartialReply(buffer);
+        if (partial.sentences.length !== reportedCount || partial.stage !== reportedStage) {
+          reportedCount = partial.sentences.length;
+          reportedStage = partial.stage;
+          onUpdate({ ...partial, sentences: partial.sentences.map(resolveCitation) });
+        }
+      }
+      return validateGeneratedReply(parseJsonOutput(buffer.trim()));
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw toModelError(error, REPLY_FAILED_MESSAGE);
+    }
+  };
+
+  try {
+    const reply = await withRetry(attempt, {
+      retries: MODEL_MAX_RETRIES,
+      baseDelayMs: MODEL_RETRY_BASE_DELAY_MS,
+      shouldRetry: isRetryableModelError,
+      signal,
+    });
+    writeCachedResponse(request, reply);
+    return reply;
+  } catch (error) {
+    if (!signal?.aborted) console.error("Error streaming bilingual reply:", error);
+    throw error;
+  }
+};
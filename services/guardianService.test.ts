@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ReplyTone, Student } from '../types';
+import { findGuardian, formatRecipientForPrompt, getRecipientName } from './guardianService';
+
+const student: Student = {
+    id: 's1',
+    name: 'Yusuf',
+    lastContactedAt: '',
+    preferredTone: ReplyTone.FRIENDLY,
+    totalMessages: 0,
+    guardians: [
+        { id: 'g1', name: 'Sam Carter', relation: 'Father' },
+        { id: 'g2', name: 'Ali Hassan', relation: 'Uncle' },
+        { id: 'g3', name: 'فاطمة', relation: 'Mother' },
+    ],
+};
+
+describe('findGuardian', () => {
+    it('finds the guardian whose first name the message mentions', () => {
+        expect(findGuardian(student, "Salam, it's Ali. Yusuf will be late today.")?.id).toBe('g2');
+        expect(findGuardian(student, 'أنا فاطمة، أم يوسف')?.id).toBe('g3');
+    });
+
+    it('ignores names that only appear inside other words', () => {
+        const aliFirst = { ...student, guardians: [student.guardians![1], student.guardians![0]] };
+        // "Sam" in "same" and "Ali" in "quality" are not mentions, so the first guardian on file is used.
+        expect(findGuardian(aliFirst, 'Same time next week? The quality of his reading is improving.')?.id).toBe('g2');
+        expect(findGuardian(student, 'Same time next week? The quality of his reading is improving.')?.id).toBe('g1');
+        expect(findGuardian(student, 'فاطمةي')?.id).toBe('g1');
+    });
+
+    it('matches regardless of case and punctuation around the name', () => {
+        expect(findGuardian(student, 'this is ALI!')?.id).toBe('g2');
+        expect(findGuardian(student, '(Ali) here')?.id).toBe('g2');
+    });
+
+    it('returns undefined without guardians', () => {
+        expect(findGuardian({ ...student, guardians: [] }, 'Hi from Ali')).toBeUndefined();
+        expect(findGuardian(null, 'Hi from Ali')).toBeUndefined();
+    });
+});
+
+describe('recipients', () => {
+    const guardian = student.guardians![0];
+
+    it('greets the guardian by name when writing to them', () => {
+        expect(getRecipientName(student, { audience: 'guardian', guardian })).toBe('Sam Carter');
+        expect(getRecipientName(student, { audience: 'student' })).toBe('Yusuf');
+    });
+
+    it('only adds a recipient section when a parent is involved', () => {
+        expect(formatRecipientForPrompt(student, 'student')).toBe('');
+        expect(formatRecipientForPrompt(student, 'guardian', { audience: 'guardian', guardian })).toContain("Sam Carter, Yusuf's father");
+        expect(formatRecipientForPrompt(student, 'guardian', { audience: 'student' })).toContain('this reply is for Yusuf');
+    });
+});
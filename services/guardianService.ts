@@ -0,0 +1,68 @@
+import { AppSettings, GuardianContact, IntegrationPlatform, LanguageCode, MessageSender, Student } from '../types';
+import type { AnalyzedContext } from './geminiService';
+import { resolveReplyLanguage } from './languageService';
+
+/** Who a reply is written to: the student, or one of their parents or guardians. */
+export interface ReplyRecipient {
+    audience: MessageSender;
+    // The guardian's contact, when one is on file.
+    guardian?: GuardianContact;
+}
+
+export const describeGuardian = (guardian: GuardianContact): string =>
+    guardian.relation.trim() ? `${guardian.name} (${guardian.relation.trim()})` : guardian.name;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A whole word, so "Ali" is not found in "quality". Letters and marks from any script count as part of a word.
+const mentionsWord = (text: string, word: string) =>
+    new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${escapeRegExp(word)}(?![\\p{L}\\p{M}\\p{N}])`, 'iu').test(text);
+
+/** The guardian a message most likely came from: the one whose first name it mentions, else the first on file. */
+export const findGuardian = (student: Student | null | undefined, message: string): GuardianContact | undefined => {
+    const guardians = student?.guardians || [];
+    return guardians.find(g => {
+        const firstName = g.name.trim().split(/\s+/)[0];
+        return !!firstName && mentionsWord(message, firstName);
+    }) || guardians[0];
+};
+
+/**
+ * The language paired with Arabic for a recipient. The student's preferred
+ * language is theirs alone; a guardian gets their own, then the one the
+ * message was written in.
+ */
+export const resolveRecipientLanguage = (
+    settings: AppSettings,
+    student: Student | null | undefined,
+    recipient: ReplyRecipient,
+    context: AnalyzedContext
+): LanguageCode => recipient.audience === 'guardian'
+    ? resolveReplyLanguage(settings, null, recipient.guardian?.preferredLanguage || context.detectedLanguage)
+    : resolveReplyLanguage(settings, student, context.detectedLanguage);
+
+export const getRecipientPlatform = (settings: AppSettings, recipient?: ReplyRecipient): IntegrationPlatform =>
+    (recipient?.audience === 'guardian' && recipient.guardian?.platform) || settings.platform;
+
+/** The name used in greetings: the guardian's when writing to them, otherwise the student's. */
+export const getRecipientName = (student: Student | null | undefined, recipient?: ReplyRecipient): string | undefined =>
+    recipient?.audience === 'guardian' ? recipient.guardian?.name : student?.name;
+
+/** Who the reply is for, as a prompt section. Empty when a student is simply answered directly. */
+export const formatRecipientForPrompt = (student: Student | null | undefined, sender: MessageSender, recipient?: ReplyRecipient): string => {
+    const studentName = student?.name || 'the student';
+    const guardian = recipient?.guardian;
+    const parent = guardian
+        ? `${guardian.name}, ${studentName}'s ${guardian.relation.trim().toLowerCase() || 'guardian'}`
+        : `${studentName}'s parent or guardian`;
+    if ((recipient?.audience || sender) === 'guardian') {
+        return `**Recipient:**
+      - Write to ${parent}, not to the student. Greet them${guardian ? ' by name' : ''} and refer to ${studentName} in the third person.
+      - Focus on the child's progress, attendance and next steps, in a respectful voice suited to a parent.`;
+    }
+    if (sender === 'guardian') {
+        return `**Recipient:**
+      - The message was written by ${parent}, but this reply is for ${studentName}. Speak to the child directly, simply and warmly.`;
+    }
+    return '';
+};
@@ -0,0 +1,56 @@
+import { HistoryFilters, SavedReply } from '../types';
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = {
+    query: '',
+    studentId: '',
+    messageType: '',
+    tone: '',
+    from: '',
+    to: '',
+};
+
+/**
+ * Normalizes text for search so that Arabic matches regardless of diacritics
+ * (tashkeel), tatweel, or the spelling variants of alef, ya and ta marbuta.
+ */
+export const normalizeSearchText = (text: string): string =>
+    text
+        .toLowerCase()
+        .replace(/[\u064B-\u065F\u0670\u06D6-\u06ED]/g, '') // harakat & Qur'anic marks
+        .replace(/\u0640/g, '')                             // tatweel
+        .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627')   // alef variants -> bare alef
+        .replace(/\u0649/g, '\u064A')                       // alef maqsura -> ya
+        .replace(/\u0629/g, '\u0647')                       // ta marbuta -> ha
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const searchableText = (reply: SavedReply): string => normalizeSearchText([
+    reply.studentReply,
+    reply.arabicReply,
+    reply.studentMessage,
+    reply.studentName || '',
+].join(' '));
+
+const toDayStart = (day: string) => new Date(`${day}T00:00:00`).getTime();
+const toDayEnd = (day: string) => new Date(`${day}T23:59:59.999`).getTime();
+
+export const filterSavedReplies = (replies: SavedReply[], filters: HistoryFilters): SavedReply[] => {
+    const terms = normalizeSearchText(filters.query).split(' ').filter(Boolean);
+    const from = filters.from ? toDayStart(filters.from) : -Infinity;
+    const to = filters.to ? toDayEnd(filters.to) : Infinity;
+
+    return replies
+        .filter(r => !filters.studentId || r.studentId === filters.studentId)
+        .filter(r => !filters.messageType || r.messageType === filters.messageType)
+        .filter(r => !filters.tone || r.tone === filters.tone)
+        .filter(r => {
+            const time = new Date(r.date).getTime();
+            return time >= from && time <= to;
+        })
+        .filter(r => {
+            if (terms.length === 0) return true;
+            const haystack = searchableText(r);
+            return terms.every(term => haystack.includes(term));
+        })
+        .sort((a, b) => b.date.localeCompare(a.date));
+};
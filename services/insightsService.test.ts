@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { ConversationTurn } from '../types';
+import { formatDuration, summarizeReplyTimes } from './insightsService';
+
+const turn = (id: string, role: ConversationTurn['role'], date: string, receivedAt?: string): ConversationTurn =>
+    ({ id, studentId: 's1', role, text: id, date, receivedAt });
+
+describe('summarizeReplyTimes', () => {
+    it('measures from when an imported message arrived, not when it was imported', () => {
+        const stats = summarizeReplyTimes([
+            // Sent on Monday evening, pasted into the batch inbox on Tuesday morning.
+            turn('question', 'student', '2026-01-06T08:00:00.000Z', '2026-01-05T20:00:00.000Z'),
+            turn('reply', 'teacher', '2026-01-06T08:30:00.000Z'),
+        ]);
+        expect(stats).toEqual({ averageMs: 12.5 * 3_600_000, count: 1 });
+    });
+
+    it('counts from the first of several unanswered messages', () => {
+        const stats = summarizeReplyTimes([
+            turn('first', 'student', '2026-01-05T10:00:00.000Z'),
+            turn('second', 'student', '2026-01-05T11:00:00.000Z'),
+            turn('reply', 'teacher', '2026-01-05T12:00:00.000Z'),
+        ]);
+        expect(stats).toEqual({ averageMs: 2 * 3_600_000, count: 1 });
+    });
+
+    it('only counts replies sent in the period', () => {
+        const turns = [
+            turn('old', 'student', '2026-01-01T10:00:00.000Z'),
+            turn('old reply', 'teacher', '2026-01-01T11:00:00.000Z'),
+        ];
+        expect(summarizeReplyTimes(turns, 7, new Date('2026-01-20T00:00:00.000Z'))).toBeUndefined();
+        expect(summarizeReplyTimes(turns, 30, new Date('2026-01-20T00:00:00.000Z'))?.count).toBe(1);
+    });
+});
+
+describe('formatDuration', () => {
+    it('picks minutes, hours or days', () => {
+        expect(formatDuration(25 * 60_000)).toBe('25 min');
+        expect(formatDuration(12.5 * 3_600_000)).toBe('12.5 h');
+        expect(formatDuration(72 * 3_600_000)).toBe('3 days');
+    });
+});
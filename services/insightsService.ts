@@ -0,0 +1,160 @@
+import { ConversationTurn, MessageAnalysis, Sentiment, Student } from '../types';
+import { NEGATIVE_TREND_THRESHOLD, RECENT_SENTIMENT_COUNT, SILENT_AFTER_DAYS } from '../constants';
+import type { AnalyzedContext } from './geminiService';
+import { getStudentThread, getTurnTime } from './conversationService';
+import { hashText } from './textHash';
+
+const DAY_MS = 86_400_000;
+
+// How positive each sentiment is, so that messages can be averaged into a trend.
+export const SENTIMENT_SCORES: Record<Sentiment, number> = {
+    [Sentiment.ENTHUSIASTIC]: 2,
+    [Sentiment.POSITIVE]: 1,
+    [Sentiment.NEUTRAL]: 0,
+    [Sentiment.INQUIRY]: 0,
+    [Sentiment.APOLOGETIC]: -0.5,
+    [Sentiment.NEGATIVE]: -2,
+};
+
+/**
+ * Adds the analysis of a message. Analysing the same message for the same
+ * student again (e.g. when regenerating) updates the earlier record instead.
+ */
+export const recordAnalysis = (
+    analyses: MessageAnalysis[],
+    context: AnalyzedContext,
+    message: string,
+    studentId?: string,
+    date = new Date().toISOString()
+): MessageAnalysis[] => {
+    const messageKey = hashText(message.trim());
+    const existing = analyses.find(a => a.messageKey === messageKey && a.studentId === studentId);
+    const record: MessageAnalysis = {
+        id: existing?.id || crypto.randomUUID(),
+        studentId,
+        date: existing?.date || date,
+        messageType: context.messageType,
+        sentiment: context.sentiment,
+        language: context.detectedLanguage === 'unknown' ? undefined : context.detectedLanguage,
+        messageKey,
+    };
+    return existing ? analyses.map(a => a === existing ? record : a) : [...analyses, record];
+};
+
+/** Analyses from the last `days` days, or all of them. */
+export const analysesSince = (analyses: MessageAnalysis[], days?: number, now = new Date()): MessageAnalysis[] =>
+    days ? analyses.filter(a => Date.parse(a.date) >= now.getTime() - days * DAY_MS) : analyses;
+
+export const countByValue = <T extends string>(
+    analyses: MessageAnalysis[],
+    pick: (analysis: MessageAnalysis) => T,
+    values: readonly T[]
+): { value: T; count: number }[] =>
+    values.map(value => ({ value, count: analyses.filter(a => pick(a) === value).length }));
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const sentimentAverage = (analyses: MessageAnalysis[]) => average(analyses.map(a => SENTIMENT_SCORES[a.sentiment] ?? 0));
+
+const byDate = (a: { date: string }, b: { date: string }) => a.date.localeCompare(b.date);
+
+// The Monday (UTC) of the week a date falls in, as YYYY-MM-DD.
+const weekOf = (date: string): string => {
+    const day = new Date(date);
+    day.setUTCHours(0, 0, 0, 0);
+    day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7);
+    return day.toISOString().slice(0, 10);
+};
+
+export interface TrendPoint {
+    week: string;
+    average: number;
+    count: number;
+}
+
+/** Average sentiment per week, oldest first, for one student or everyone. */
+export const sentimentTrend = (analyses: MessageAnalysis[], studentId?: string): TrendPoint[] => {
+    const weeks = new Map<string, MessageAnalysis[]>();
+    analyses
+        .filter(a => !studentId || a.studentId === studentId)
+        .forEach(a => weeks.set(weekOf(a.date), [...(weeks.get(weekOf(a.date)) || []), a]));
+    return [...weeks.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([week, items]) => ({ week, average: sentimentAverage(items), count: items.length }));
+};
+
+export interface NegativeTrend {
+    student: Student;
+    recentAverage: number;
+    earlierAverage?: number;
+}
+
+/**
+ * Students whose last few messages average below NEGATIVE_TREND_THRESHOLD
+ * and are worse than what came before.
+ */
+export const findTurningNegative = (analyses: MessageAnalysis[], students: Student[]): NegativeTrend[] =>
+    students.filter(s => !s.archived).flatMap(student => {
+        const history = analyses.filter(a => a.studentId === student.id).sort(byDate);
+        const recent = history.slice(-RECENT_SENTIMENT_COUNT);
+        const earlier = history.slice(0, -RECENT_SENTIMENT_COUNT);
+        if (recent.length === 0) return [];
+        const recentAverage = sentimentAverage(recent);
+        const earlierAverage = earlier.length ? sentimentAverage(earlier) : undefined;
+        const turned = recentAverage <= NEGATIVE_TREND_THRESHOLD && (earlierAverage === undefined || recentAverage < earlierAverage);
+        return turned ? [{ student, recentAverage, earlierAverage }] : [];
+    });
+
+export interface SilentStudent {
+    student: Student;
+    lastHeardAt: string;
+    days: number;
+}
+
+/**
+ * Active students with no contact and no analysed message for
+ * SILENT_AFTER_DAYS days. Students never contacted are left out.
+ */
+export const findSilentStudents = (students: Student[], analyses: MessageAnalysis[], now = new Date()): SilentStudent[] =>
+    students.filter(s => !s.archived).flatMap(student => {
+        const dates = [student.lastContactedAt, ...analyses.filter(a => a.studentId === student.id).map(a => a.date)].filter(Boolean);
+        if (dates.length === 0) return [];
+        const lastHeardAt = dates.sort().pop()!;
+        const days = Math.floor((now.getTime() - Date.parse(lastHeardAt)) / DAY_MS);
+        return days >= SILENT_AFTER_DAYS ? [{ student, lastHeardAt, days }] : [];
+    }).sort((a, b) => b.days - a.days);
+
+export interface ReplyTimeStats {
+    averageMs: number;
+    count: number;
+}
+
+/**
+ * How long students waited for an answer, from the time their first unanswered
+ * message arrived to the teacher's next turn in the thread. Only replies sent
+ * in the last `days` days count, when given.
+ */
+export const summarizeReplyTimes = (turns: ConversationTurn[], days?: number, now = new Date()): ReplyTimeStats | undefined => {
+    const since = days ? now.getTime() - days * DAY_MS : -Infinity;
+    const waits: number[] = [];
+    new Set(turns.map(t => t.studentId)).forEach(studentId => {
+        let waitingSince: string | null = null;
+        getStudentThread(turns, studentId).forEach(turn => {
+            if (turn.role === 'student') {
+                waitingSince = waitingSince || getTurnTime(turn);
+            } else if (waitingSince) {
+                if (Date.parse(turn.date) >= since) waits.push(Date.parse(turn.date) - Date.parse(waitingSince));
+                waitingSince = null;
+            }
+        });
+    });
+    return waits.length ? { averageMs: average(waits), count: waits.length } : undefined;
+};
+
+export const formatDuration = (ms: number): string => {
+    const minutes = Math.round(ms / 60_000);
+    if (minutes < 60) return `${minutes} min`;
+    const hours = ms / 3_600_000;
+    if (hours < 48) return `${hours.toFixed(1)} h`;
+    return `${Math.round(hours / 24)} days`;
+};
@@ -0,0 +1,41 @@
+import { AppSettings, LanguageCode, LanguageInfo, Student } from '../types';
+import { DEFAULT_DETECTION_LANGUAGES, DEFAULT_REPLY_LANGUAGE, LANGUAGES } from '../constants';
+
+const LANGUAGES_BY_CODE = new Map(LANGUAGES.map(language => [language.code, language]));
+
+// Arabic is always one side of the reply, so it cannot be the other side too.
+export const REPLY_LANGUAGE_OPTIONS = LANGUAGES.filter(language => language.code !== 'ar');
+
+/** Details for a language code. Codes missing from LANGUAGES get a plain left-to-right entry. */
+export const getLanguage = (code: LanguageCode): LanguageInfo => LANGUAGES_BY_CODE.get(code) || {
+    code,
+    name: code.toUpperCase(),
+    nativeName: code,
+    flag: "🌐",
+    voice: code,
+    rtl: false,
+    greeting: LANGUAGES_BY_CODE.get(DEFAULT_REPLY_LANGUAGE)!.greeting,
+};
+
+/** The configured detection list. Arabic is always included, since it is one side of every reply. */
+export const getDetectionLanguages = (settings: AppSettings): LanguageCode[] => {
+    const languages = settings.detectionLanguages?.length ? settings.detectionLanguages : DEFAULT_DETECTION_LANGUAGES;
+    return languages.includes('ar') ? languages : ['ar', ...languages];
+};
+
+/**
+ * The language to pair with Arabic: the student's preference, then the
+ * language the message was written in, then the teacher's default.
+ */
+export const resolveReplyLanguage = (settings: AppSettings, student?: Student | null, detectedLanguage?: string): LanguageCode =>
+    [student?.preferredLanguage, detectedLanguage, settings.defaultReplyLanguage]
+        .find((code): code is LanguageCode => !!code && code !== 'ar' && code !== 'unknown')
+    || DEFAULT_REPLY_LANGUAGE;
+
+/** How the prompt describes the non-Arabic side of the reply. */
+export const describeReplyLanguage = (code: LanguageCode): string => {
+    const language = getLanguage(code);
+    return code === 'en'
+        ? "simple English (for non-native speakers)"
+        : `simple, natural ${language.name} (${language.nativeName})`;
+};
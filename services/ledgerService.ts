@@ -0,0 +1,116 @@
+import { AppSettings, LedgerEntry, Student } from '../types';
+import { DEFAULT_CURRENCY, LEDGER_KIND_OPTIONS } from '../constants';
+import { toCsv } from './backupService';
+
+/** A student's account, worked out from their ledger. */
+export interface LedgerSummary {
+    currency: string;
+    charged: number;
+    paid: number;
+    // Positive when the student owes money, negative when they are in credit.
+    balance: number;
+    lessonsBought: number;
+    lessonsTaken: number;
+    lastPayment?: LedgerEntry;
+}
+
+// 'confirm' thanks the student for a recorded payment; 'remind' asks for the balance.
+export type PaymentIntent = 'confirm' | 'remind';
+
+export interface PaymentContext {
+    summary: LedgerSummary;
+    intent?: PaymentIntent;
+}
+
+export const getCurrency = (settings: AppSettings, student?: Student | null): string =>
+    student?.currency || settings.currency || DEFAULT_CURRENCY;
+
+export const hasLedger = (student?: Student | null): student is Student => !!student?.ledger?.length;
+
+/** Oldest first. Entries on the same day keep the order they were added in. */
+export const sortLedger = (entries: LedgerEntry[]): LedgerEntry[] =>
+    entries.map((entry, order) => ({ entry, order }))
+        .sort((a, b) => a.entry.date.localeCompare(b.entry.date) || a.order - b.order)
+        .map(e => e.entry);
+
+const chargeOf = (entry: LedgerEntry) => entry.kind === 'package' ? entry.amount || 0 : 0;
+const paymentOf = (entry: LedgerEntry) => entry.kind === 'payment' ? entry.amount || 0 : 0;
+
+/** Totals for every entry up to and including `until` (YYYY-MM-DD), or all of them. */
+export const summarizeLedger = (student: Student, settings: AppSettings, until?: string): LedgerSummary => {
+    const entries = sortLedger(student.ledger || []).filter(e => !until || e.date <= until);
+    const charged = entries.reduce((sum, e) => sum + chargeOf(e), 0);
+    const paid = entries.reduce((sum, e) => sum + paymentOf(e), 0);
+    return {
+        currency: getCurrency(settings, student),
+        charged,
+        paid,
+        balance: charged - paid,
+        lessonsBought: entries.reduce((sum, e) => sum + (e.kind === 'package' ? e.lessons || 0 : 0), 0),
+        lessonsTaken: entries.reduce((sum, e) => sum + (e.kind === 'lesson' ? e.lessons ?? 1 : 0), 0),
+        lastPayment: [...entries].reverse().find(e => e.kind === 'payment'),
+    };
+};
+
+export const formatMoney = (amount: number, currency: string): string => {
+    try {
+        return new Intl.NumberFormat('en', { style: 'currency', currency }).format(amount);
+    } catch {
+        // Unknown currency codes are still shown, just without a symbol.
+        return `${amount.toFixed(2)} ${currency}`;
+    }
+};
+
+export const formatLedgerDate = (date: string): string =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+export const describeBalance = ({ balance, currency }: LedgerSummary): string =>
+    balance > 0 ? `${formatMoney(balance, currency)} outstanding`
+        : balance < 0 ? `${formatMoney(-balance, currency)} in credit`
+            : "Paid up";
+
+const INTENT_INSTRUCTIONS: Record<PaymentIntent | 'auto', string> = {
+    confirm: "The teacher confirms the last payment has been received. Thank the student warmly and confirm its amount and date.",
+    remind: "Write a polite, gentle reminder about the outstanding balance, giving the exact amount. Do not sound demanding.",
+    auto: "If the student says they have paid, confirm it only if the ledger shows that payment; otherwise say the teacher will check. If there is a balance, mention it politely with the exact amount.",
+};
+
+/** Renders the student's account as a prompt section, or '' when there is none. */
+export const formatLedgerForPrompt = (payment?: PaymentContext): string => {
+    if (!payment) return '';
+    const { summary, intent } = payment;
+    const money = (amount: number) => formatMoney(amount, summary.currency);
+    const lessonsRemaining = summary.lessonsBought - summary.lessonsTaken;
+    return `**Student Account (from the teacher's ledger):**
+      - Balance: ${describeBalance(summary)} (charged ${money(summary.charged)} in total, paid ${money(summary.paid)}).
+      - Lessons: ${summary.lessonsBought} bought, ${summary.lessonsTaken} taken, ${lessonsRemaining} remaining.
+      - Last payment: ${summary.lastPayment ? `${money(summary.lastPayment.amount || 0)} on ${formatLedgerDate(summary.lastPayment.date)}` : 'none recorded'}.
+      ${INTENT_INSTRUCTIONS[intent || 'auto']}
+      Use these exact figures. Never invent amounts, dates or lesson counts.`;
+};
+
+const kindLabel = (entry: LedgerEntry) => LEDGER_KIND_OPTIONS.find(o => o.value === entry.kind)?.label.replace(/^\S+\s/, '') || entry.kind;
+
+/**
+ * A statement for one month (YYYY-MM) per student: the opening balance, every
+ * entry in the month with a running balance, and the closing balance.
+ * Students without entries up to the end of the month are left out.
+ */
+export const ledgerStatementToCsv = (students: Student[], month: string, settings: AppSettings): string => {
+    const rows: unknown[][] = [];
+    students.filter(hasLedger).forEach(student => {
+        // Day 00 sorts before the 1st, so this covers everything before the month.
+        const opening = summarizeLedger(student, settings, `${month}-00`);
+        const entries = sortLedger(student.ledger || []).filter(e => e.date.startsWith(month));
+        if (!entries.length && !opening.charged && !opening.paid) return;
+
+        let balance = opening.balance;
+        rows.push([student.name, `${month}-01`, 'Opening balance', '', '', '', '', balance, opening.currency]);
+        entries.forEach(e => {
+            balance += chargeOf(e) - paymentOf(e);
+            rows.push([student.name, e.date, kindLabel(e), e.note, e.kind === 'lesson' ? e.lessons ?? 1 : e.lessons, chargeOf(e) || '', paymentOf(e) || '', balance, opening.currency]);
+        });
+        rows.push([student.name, '', 'Closing balance', '', '', '', '', balance, opening.currency]);
+    });
+    return toCsv(['Student', 'Date', 'Entry', 'Note', 'Lessons', 'Charged', 'Paid', 'Balance', 'Currency'], rows);
+};
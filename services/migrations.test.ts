@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReplyTone } from '../types';
+import { DATA_SCHEMA_VERSION, storageKey } from '../constants';
+import { migrateSnapshot, runStorageMigrations } from './migrations';
+
+describe('migrateSnapshot', () => {
+    it('adds ids, counters and tones to v2 records', () => {
+        const migrated = migrateSnapshot({
+            students: [{ name: 'Amina', totalMessages: '3' } as any],
+            reminders: [{ message: 'Lesson' } as any],
+        }, 2);
+        expect(migrated.students![0]).toMatchObject({ name: 'Amina', preferredTone: ReplyTone.FRIENDLY, totalMessages: 3, lastContactedAt: '' });
+        expect(migrated.students![0].id).toMatch(/^[0-9a-f-]{36}$/);
+        expect(migrated.reminders![0]).toMatchObject({ message: 'Lesson', done: false });
+    });
+
+    it('keeps existing ids', () => {
+        const migrated = migrateSnapshot({ students: [{ id: 's1', name: 'Amina' } as any] }, 2);
+        expect(migrated.students![0].id).toBe('s1');
+    });
+
+    it('moves English replies and layouts to the student-language fields in v4', () => {
+        const migrated = migrateSnapshot({
+            settings: { replyLayout: 'arabic-english' } as any,
+            savedReplies: [{ id: 'r1', englishReply: 'Thanks', sentences: [{ englishSentence: 'Thanks', arabicSentence: 'شكرا' }] } as any],
+        }, 3);
+        expect(migrated.settings!.replyLayout).toBe('arabic-student');
+        expect(migrated.savedReplies![0]).toEqual({
+            id: 'r1',
+            studentReply: 'Thanks',
+            language: 'en',
+            sentences: [{ studentSentence: 'Thanks', arabicSentence: 'شكرا' }],
+        });
+    });
+
+    it('leaves current data and absent sections alone', () => {
+        const data = { students: [{ id: 's1', name: 'Amina' } as any] };
+        expect(migrateSnapshot(data, DATA_SCHEMA_VERSION)).toBe(data);
+        expect(migrateSnapshot({}, 3)).not.toHaveProperty('savedReplies');
+    });
+});
+
+describe('runStorageMigrations', () => {
+    let storage: Map<string, string>;
+
+    beforeEach(() => {
+        storage = new Map();
+        vi.spyOn(console, 'info').mockImplementation(() => {});
+        vi.stubGlobal('window', {
+            localStorage: {
+                getItem: (key: string) => storage.get(key) ?? null,
+                setItem: (key: string, value: string) => { storage.set(key, value); },
+            },
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('upgrades the newest older version and keeps the old keys as a fallback', () => {
+        storage.set(storageKey('students', 2), JSON.stringify([{ name: 'Amina' }]));
+        storage.set(storageKey('students', 3), JSON.stringify([{ id: 's1', name: 'Bilal', preferredTone: ReplyTone.FORMAL, totalMessages: 1, lastContactedAt: '' }]));
+        runStorageMigrations();
+        expect(JSON.parse(storage.get(storageKey('students'))!)).toEqual([
+            { id: 's1', name: 'Bilal', preferredTone: ReplyTone.FORMAL, totalMessages: 1, lastContactedAt: '' },
+        ]);
+        expect(storage.has(storageKey('students', 2))).toBe(true);
+    });
+
+    it('never overwrites data already stored for the current schema', () => {
+        const current = JSON.stringify([{ id: 's1', name: 'Current' }]);
+        storage.set(storageKey('students'), current);
+        storage.set(storageKey('students', 3), JSON.stringify([{ id: 's2', name: 'Old' }]));
+        runStorageMigrations();
+        expect(storage.get(storageKey('students'))).toBe(current);
+    });
+
+    it('skips unreadable keys without losing the rest', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        storage.set(storageKey('students', 3), '{broken');
+        storage.set(storageKey('reminders', 3), JSON.stringify([{ id: 'r1', message: 'Lesson', done: true }]));
+        runStorageMigrations();
+        expect(storage.has(storageKey('students'))).toBe(false);
+        expect(JSON.parse(storage.get(storageKey('reminders'))!)).toEqual([{ id: 'r1', message: 'Lesson', done: true }]);
+    });
+});
@@ -0,0 +1,104 @@
+import { AppDataSnapshot, ReplyLayout, ReplyTone } from '../types';
+import { DATA_SCHEMA_VERSION, STORAGE_KEY_BASES, storageKey } from '../constants';
+
+export type PartialSnapshot = Partial<AppDataSnapshot>;
+
+interface Migration {
+    // The schema version this migration produces.
+    version: number;
+    description: string;
+    migrate: (data: PartialSnapshot) => PartialSnapshot;
+}
+
+const asArray = <T,>(value: unknown): T[] => Array.isArray(value) ? value : [];
+
+const LAYOUT_RENAMES: Record<string, ReplyLayout> = { english: 'student', 'arabic-english': 'arabic-student' };
+
+/**
+ * Ordered list of schema upgrades. Each one receives data at `version - 1`.
+ * To change the stored shape: bump DATA_SCHEMA_VERSION and append a migration,
+ * then bump DATABASE_VERSION so existing databases rewrite their records.
+ */
+const MIGRATIONS: Migration[] = [
+    {
+        version: 3,
+        description: "v2 → v3: ids and counters on every record, tones on students",
+        migrate: data => ({
+            ...data,
+            students: asArray<any>(data.students).map(s => ({
+                ...s,
+                id: s.id || crypto.randomUUID(),
+                preferredTone: s.preferredTone || ReplyTone.FRIENDLY,
+                totalMessages: Number(s.totalMessages) || 0,
+                lastContactedAt: s.lastContactedAt || '',
+            })),
+            savedReplies: asArray<any>(data.savedReplies).map(r => ({ ...r, id: r.id || crypto.randomUUID() })),
+            reminders: asArray<any>(data.reminders).map(r => ({ ...r, id: r.id || crypto.randomUUID(), done: !!r.done })),
+        }),
+    },
+    {
+        version: 4,
+        description: "v3 → v4: replies pair Arabic with the student's language instead of always English",
+        migrate: data => ({
+            ...data,
+            ...(data.settings && { settings: { ...data.settings, replyLayout: LAYOUT_RENAMES[data.settings.replyLayout as string] || data.settings.replyLayout } }),
+            ...(data.savedReplies && {
+                savedReplies: asArray<any>(data.savedReplies).map(({ englishReply, ...r }) => ({
+                    ...r,
+                    studentReply: r.studentReply ?? englishReply ?? '',
+                    language: r.language || 'en',
+                    sentences: r.sentences?.map(({ englishSentence, ...s }: any) => ({ ...s, studentSentence: s.studentSentence ?? englishSentence ?? '' })),
+                })),
+            }),
+        }),
+    },
+];
+
+/** Upgrades data written at `fromVersion` to the current schema. */
+export const migrateSnapshot = (data: PartialSnapshot, fromVersion: number): PartialSnapshot =>
+    MIGRATIONS
+        .filter(m => m.version > fromVersion && m.version <= DATA_SCHEMA_VERSION)
+        .sort((a, b) => a.version - b.version)
+        .reduce((acc, m) => m.migrate(acc), data);
+
+const readSnapshot = (version: number): PartialSnapshot => {
+    const snapshot: Record<string, unknown> = {};
+    (Object.keys(STORAGE_KEY_BASES) as (keyof AppDataSnapshot)[]).forEach(name => {
+        const item = window.localStorage.getItem(storageKey(name, version));
+        if (item !== null) {
+            try {
+                snapshot[name] = JSON.parse(item);
+            } catch (error) {
+                console.error(`Skipping unreadable ${storageKey(name, version)}:`, error);
+            }
+        }
+    });
+    return snapshot as PartialSnapshot;
+};
+
+/**
+ * Runs once at startup, before any state is read. If data for the current
+ * schema is missing but an older version is present, it is upgraded and
+ * written under the current keys. Old keys are left in place as a fallback.
+ * The current keys are then imported into IndexedDB by services/database.ts.
+ */
+export const runStorageMigrations = (): void => {
+    try {
+        const current = readSnapshot(DATA_SCHEMA_VERSION);
+        if (Object.keys(current).length > 0) return;
+
+        for (let version = DATA_SCHEMA_VERSION - 1; version >= 1; version--) {
+            const legacy = readSnapshot(version);
+            if (Object.keys(legacy).length === 0) continue;
+
+            const migrated = migrateSnapshot(legacy, version);
+            (Object.keys(migrated) as (keyof AppDataSnapshot)[]).forEach(name => {
+                window.localStorage.setItem(storageKey(name), JSON.stringify(migrated[name]));
+            });
+            console.info(`Migrated stored data from v${version} to v${DATA_SCHEMA_VERSION}.`);
+            return;
+        }
+    } catch (error) {
+        console.error("Storage migration failed:", error);
+    }
+};
@@ -0,0 +1,63 @@
+export type ModelErrorKind = 'quota' | 'safety' | 'bad-output' | 'network' | 'unknown';
+
+export const MODEL_ERROR_TITLES: Record<ModelErrorKind, string> = {
+    quota: "Quota exceeded",
+    safety: "Blocked by safety filters",
+    'bad-output': "Unusable AI response",
+    network: "Connection problem",
+    unknown: "Something went wrong",
+};
+
+const DEFAULT_MESSAGES: Record<ModelErrorKind, string> = {
+    quota: "The AI provider's usage limit has been reached. Wait a minute and try again, or switch provider in Settings.",
+    safety: "The AI declined to answer this message because of its safety filters. Try rephrasing the message or write this reply yourself.",
+    'bad-output': "The AI returned an unusable response several times in a row. Please try again.",
+    network: "Could not reach the AI provider. Check your connection and try again.",
+    unknown: "An unexpected error occurred.",
+};
+
+/** A failed model call, classified so the UI can explain what went wrong. */
+export class ModelError extends Error {
+    readonly kind: ModelErrorKind;
+    // Technical detail for the console; `message` is shown to the teacher.
+    readonly detail?: unknown;
+
+    constructor(kind: ModelErrorKind, message: string = DEFAULT_MESSAGES[kind], detail?: unknown) {
+        super(message);
+        this.name = 'ModelError';
+        this.kind = kind;
+        this.detail = detail;
+    }
+
+    /** Malformed output and dropped connections are worth another attempt; quota and safety are not. */
+    get retryable(): boolean {
+        return this.kind === 'bad-output' || this.kind === 'network';
+    }
+}
+
+export const isRetryableModelError = (error: unknown): boolean =>
+    error instanceof ModelError && error.retryable;
+
+/**
+ * Classifies an error thrown by a provider or SDK. Anything unrecognised
+ * becomes an 'unknown' error carrying `fallbackMessage`.
+ */
+export const toModelError = (error: unknown, fallbackMessage: string): ModelError => {
+    if (error instanceof ModelError) return error;
+    const status = (error as { status?: number } | null)?.status;
+    const text = error instanceof Error ? error.message : String(error);
+
+    if (status === 429 || /quota|rate.?limit|resource.?exhausted|too many requests/i.test(text)) {
+        return new ModelError('quota', undefined, error);
+    }
+    if (/safety|blocked|prohibited|content.?filter/i.test(text)) {
+        return new ModelError('safety', undefined, error);
+    }
+    if (error instanceof SyntaxError) {
+        return new ModelError('bad-output', undefined, error);
+    }
+    if ((error instanceof TypeError && /fetch|network/i.test(text)) || (status !== undefined && status >= 500)) {
+        return new ModelError('network', undefined, error);
+    }
+    return new ModelError('unknown', fallbackMessage, error);
+};
@@ -0,0 +1,91 @@
+import { Schema } from "@google/genai";
+import { AppSettings, ModelProviderId } from '../types';
+import { DEFAULT_LOCAL_ENDPOINT, DEFAULT_MODELS, DEFAULT_REQUESTS_PER_MINUTE } from '../constants';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import { createFixtureProvider } from './providers/fixtureProvider';
+import { createRequestLayer } from './requestLayer';
+
+export type ModelTask = 'analyzeContext' | 'generateReply' | 'translateSentence' | 'regenerateSentence' | 'reviseReply' | 'extractProposedTimes' | 'transcribeAudio';
+
+/** A recording sent along with the prompt, e.g. a student's voice note. */
+export interface AudioAttachment {
+    mimeType: string;
+    // Base64, without a data: URL prefix.
+    data: string;
+}
+
+export interface JsonGenerationRequest {
+    task: ModelTask;
+    prompt: string;
+    schema: Schema;
+    // The raw values the prompt was built from, for providers that don't call a model.
+    input: Record<string, string>;
+    // Higher values give more varied wording; the model's default when unset.
+    temperature?: number;
+    audio?: AudioAttachment;
+    signal?: AbortSignal;
+}
+
+export interface ModelProvider {
+    readonly id: ModelProviderId;
+    readonly model: string;
+    /** Returns the raw JSON text produced for the request. */
+    generateJson(request: JsonGenerationRequest): Promise<string>;
+    /** Yields the raw JSON text in chunks as the model produces it. */
+    streamJson(request: JsonGenerationRequest): AsyncIterable<string>;
+}
+
+export interface ModelProviderConfig {
+    provider: ModelProviderId;
+    model: string;
+    endpoint?: string;
+    apiKey?: string;
+    // 0 for no limit.
+    requestsPerMinute?: number;
+}
+
+export const getProviderConfig = (settings: Partial<AppSettings>): ModelProviderConfig => {
+    const provider = settings.provider || ModelProviderId.GEMINI;
+    return {
+        provider,
+        model: settings.model?.trim() || DEFAULT_MODELS[provider],
+        endpoint: settings.localEndpoint?.trim() || DEFAULT_LOCAL_ENDPOINT,
+        apiKey: settings.localApiKey,
+        requestsPerMinute: settings.requestsPerMinute ?? (provider === ModelProviderId.GEMINI ? DEFAULT_REQUESTS_PER_MINUTE : 0),
+    };
+};
+
+export const createModelProvider = (config: ModelProviderConfig): ModelProvider => {
+    switch (config.provider) {
+        case ModelProviderId.OPENAI_COMPATIBLE:
+            return createOpenAiCompatibleProvider(config.endpoint || DEFAULT_LOCAL_ENDPOINT, config.model, config.apiKey);
+        case ModelProviderId.FIXTURE:
+            return createFixtureProvider();
+        case ModelProviderId.GEMINI:
+        default:
+            return createGeminiProvider(config.model);
+    }
+};
+
+let activeProvider: ModelProvider | null = null;
+
+/**
+ * Selects the provider used by the reply engine, behind the request layer
+ * (offline queue, rate limit and quota retries). Called whenever the settings change.
+ */
+export const configureModelProvider = (config: ModelProviderConfig): ModelProvider => {
+    activeProvider = createRequestLayer(createModelProvider(config), {
+        // Gemini's quota belongs to the API key, whichever model is used; local servers are told apart by endpoint.
+        rateLimitKey: config.provider === ModelProviderId.OPENAI_COMPATIBLE ? `${config.provider}:${config.endpoint || DEFAULT_LOCAL_ENDPOINT}` : config.provider,
+        requestsPerMinute: config.requestsPerMinute ?? 0,
+    });
+    return activeProvider;
+};
+
+export const getModelProvider = (): ModelProvider => {
+    if (!activeProvider) {
+        activeProvider = configureModelProvider(getProviderConfig({}));
+    }
+    return activeProvider;
+};
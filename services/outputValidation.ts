@@ -0,0 +1,86 @@
+import { LanguageCode, MessageType, Sentiment } from '../types';
+import { DEFAULT_DETECTION_LANGUAGES, MODEL_MAX_RETRIES, MODEL_RETRY_BASE_DELAY_MS } from '../constants';
+import type { AnalyzedContext, BilingualReplySentence, GeneratedReply } from './geminiService';
+import { JsonGenerationRequest, getModelProvider } from './modelProvider';
+import { ModelError, isRetryableModelError, toModelError } from './modelErrors';
+import { withRetry } from './retry';
+import { getCitation, renderCitation, resolveCitation } from './citationService';
+
+export const invalid = (detail: string): never => {
+    throw new ModelError('bad-output', undefined, detail);
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isEnumMember = <T extends string>(values: readonly T[], value: unknown): value is T =>
+    typeof value === 'string' && (values as readonly string[]).includes(value);
+
+export const parseJsonOutput = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        return invalid(`Response is not valid JSON: ${text.slice(0, 200)}`);
+    }
+};
+
+export const validateAnalyzedContext = (value: unknown, languages: LanguageCode[] = DEFAULT_DETECTION_LANGUAGES): AnalyzedContext => {
+    if (!isRecord(value)) return invalid("Context analysis is not an object.");
+    const { messageType, sentiment, detectedLanguage, sender } = value;
+    if (!isEnumMember(Object.values(MessageType), messageType)) return invalid(`Unknown message type: ${String(messageType)}`);
+    if (!isEnumMember(Object.values(Sentiment), sentiment)) return invalid(`Unknown sentiment: ${String(sentiment)}`);
+    if (!isEnumMember([...languages, 'unknown'], detectedLanguage)) return invalid(`Unknown language: ${String(detectedLanguage)}`);
+    if (!isEnumMember(['student', 'guardian'] as const, sender)) return invalid(`Unknown sender: ${String(sender)}`);
+    return { messageType, sentiment, detectedLanguage, sender };
+};
+
+export const validateSentencePair = (value: unknown, position = 0): BilingualReplySentence => {
+    if (!isRecord(value)) return invalid(`Sentence ${position} is not an object.`);
+    // A citation's text comes from the library, never from the model.
+    if (isNonEmptyString(value.citationId)) {
+        const citation = getCitation(value.citationId.trim());
+        return citation ? renderCitation(citation) : invalid(`Sentence ${position} cites an unknown quotation: ${value.citationId}`);
+    }
+    // A pair missing either side would leave the two language versions with different sentence counts.
+    if (!isNonEmptyString(value.studentSentence)) return invalid(`Sentence ${position} has no text in the student's language.`);
+    if (!isNonEmptyString(value.arabicSentence)) return invalid(`Sentence ${position} has no Arabic text.`);
+    const pair = resolveCitation({ studentSentence: value.studentSentence.trim(), arabicSentence: value.arabicSentence.trim() });
+    // A pair that turned out to be a known quotation keeps the library text and no reading.
+    return !pair.citationId && isNonEmptyString(value.transliteration) ? { ...pair, transliteration: value.transliteration.trim() } : pair;
+};
+
+export const validateGeneratedReply = (value: unknown): GeneratedReply => {
+    if (!isRecord(value)) return invalid("Reply is not an object.");
+    if (!Array.isArray(value.sentences) || value.sentences.length === 0) return invalid("Reply has no sentences.");
+    return {
+        sentences: value.sentences.map(validateSentencePair),
+        toneDescription: isNonEmptyString(value.toneDescription) ? value.toneDescription : "⭐ Balanced",
+    };
+};
+
+/**
+ * Calls the active provider and validates the parsed response, retrying with
+ * backoff when the output is malformed or the connection drops. Failures are
+ * thrown as ModelError; aborts are rethrown unchanged.
+ */
+export const generateValidatedJson = <T,>(
+    request: JsonGenerationRequest,
+    validate: (value: unknown) => T,
+    fallbackMessage: string
+): Promise<T> =>
+    withRetry(async () => {
+        try {
+            const text = await getModelProvider().generateJson(request);
+            return validate(parseJsonOutput(text.trim()));
+        } catch (error) {
+            if (request.signal?.aborted) throw error;
+            throw toModelError(error, fallbackMessage);
+        }
+    }, {
+        retries: MODEL_MAX_RETRIES,
+        baseDelayMs: MODEL_RETRY_BASE_DELAY_MS,
+        shouldRetry: isRetryableModelError,
+        signal: request.signal,
+    });
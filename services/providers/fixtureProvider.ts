@@ -0,0 +1,175 @@
+import { MessageType, ModelProviderId, ReplyTone, Sentiment } from '../../types';
+import type { JsonGenerationRequest, ModelProvider } from '../modelProvider';
+
+const ARABIC_PATTERN = /[\u0600-\u06FF]/;
+
+// Ordered keyword rules; the first match wins so results are fully deterministic.
+const MESSAGE_TYPE_RULES: [RegExp, MessageType][] = [
+    [/reschedul|another time|move (the|our) (class|lesson)|تأجيل|موعد آخر/i, MessageType.RESCHEDULE],
+    [/can'?t (make|come|attend)|absent|miss(ed)? (the )?(class|lesson)|sick|غائب|لن أحضر/i, MessageType.ABSENT_STUDENT],
+    [/pay|paid|fee|price|invoice|دفع|رسوم|سعر/i, MessageType.PAYMENT],
+    [/interested|join|enrol|sign up|trial|أرغب|التسجيل/i, MessageType.NEW_STUDENT],
+    [/lesson|class|homework|memori[sz]|درس|حفظ/i, MessageType.CURRENT_STUDENT],
+];
+
+const SENTIMENT_RULES: [RegExp, Sentiment][] = [
+    [/sorry|apolog|آسف|اعتذر/i, Sentiment.APOLOGETIC],
+    [/!{2,}|love|amazing|excited|can'?t wait|رائع/i, Sentiment.ENTHUSIASTIC],
+    [/angry|upset|disappoint|unhappy|bad|غاضب|سيء/i, Sentiment.NEGATIVE],
+    [/thank|great|enjoy|happy|شكر/i, Sentiment.POSITIVE],
+    [/\?|؟/, Sentiment.INQUIRY],
+];
+
+// Parents usually mention "my son" or "my daughter"; anything else is read as the student writing.
+const GUARDIAN_PATTERN = /\bmy (son|daughter|child|children|kids?|boy|girl)\b|ابني|ابنتي|أولادي|طفلي/i;
+
+const firstMatch = <T,>(text: string, rules: [RegExp, T][], fallback: T): T =>
+    rules.find(([pattern]) => pattern.test(text))?.[1] ?? fallback;
+
+const REPLY_BODIES: Record<string, [string, string]> = {
+    [MessageType.NEW_STUDENT]: ["Thank you for your interest in our lessons.", "شكرًا لاهتمامك بدروسنا."],
+    [MessageType.CURRENT_STUDENT]: ["Thank you for your message about our lessons.", "شكرًا على رسالتك بخصوص دروسنا."],
+    [MessageType.ABSENT_STUDENT]: ["No problem, I hope everything is well with you.", "لا بأس، أرجو أن تكون بخير."],
+    [MessageType.RESCHEDULE]: ["Of course, we can find another time for the lesson.", "بالتأكيد، يمكننا إيجاد وقت آخر للدرس."],
+    [MessageType.PAYMENT]: ["Thank you for the update about the payment.", "شكرًا على إفادتك بخصوص الدفع."],
+    [MessageType.GENERAL]: ["Thank you for reaching out.", "شكرًا لتواصلك."],
+};
+
+// Letter by letter, ignoring vowels and context: readable enough to follow the flow offline.
+const ARABIC_TO_LATIN: Record<string, string> = {
+    'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'aa', 'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j', 'ح': 'h', 'خ': 'kh', 'د': 'd', 'ذ': 'dh',
+    'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z', 'ع': "'", 'غ': 'gh', 'ف': 'f', 'ق': 'q',
+    'ك': 'k', 'ل': 'l', 'م': 'm', 'ن': 'n', 'ه': 'h', 'ة': 'a', 'و': 'w', 'ي': 'y', 'ى': 'a', 'ء': "'", 'ئ': "'", 'ؤ': "'", '،': ',', '؟': '?',
+};
+
+const transliterate = (arabic: string): string =>
+    [...arabic.replace(/[\u064B-\u0652]/g, '')].map(ch => ARABIC_TO_LATIN[ch] ?? ch).join('');
+
+// Adds a reading to every sentence that is not a quotation, when the request asks for one.
+const withTransliteration = <T extends { arabicSentence: string; citationId?: string }>(input: Record<string, string>, sentence: T) =>
+    input.transliteration && !sentence.citationId ? { ...sentence, transliteration: transliterate(sentence.arabicSentence) } : sentence;
+
+// Only tells Arabic script from Latin script; anything outside the configured list is 'unknown'.
+const detectLanguage = (message: string, languages: string[]): string => {
+    const code = ARABIC_PATTERN.test(message) ? 'ar' : message.trim() ? 'en' : 'unknown';
+    return languages.includes(code) ? code : 'unknown';
+};
+
+const analyze = (input: Record<string, string>) => {
+    const message = input.studentMessage || '';
+    return {
+        messageType: firstMatch(message, MESSAGE_TYPE_RULES, MessageType.GENERAL),
+        sentiment: firstMatch(message, SENTIMENT_RULES, Sentiment.NEUTRAL),
+        detectedLanguage: detectLanguage(message, (input.languages || 'en,ar').split(',')),
+        sender: GUARDIAN_PATTERN.test(message) ? 'guardian' : 'student',
+    };
+};
+
+const reply = (input: Record<string, string>) => {
+    const student = input.studentName || 'student';
+    const name = input.recipientName || (input.recipient === 'guardian' ? 'parent' : student);
+    const [english, arabic] = REPLY_BODIES[input.messageType] || REPLY_BODIES[MessageType.GENERAL];
+    // Canned text is English; other reply languages are marked so the pairing can be followed offline.
+    const marker = input.language && input.language !== 'en' ? `[${input.language}] ` : '';
+    const sentences = [
+        { studentSentence: `${marker}Assalamu alaikum ${name},`, arabicSentence: `السلام عليكم ${name}،` },
+        { studentSentence: `${marker}${english}`, arabicSentence: arabic },
+        ...(input.recipient === 'guardian' ? [{ studentSentence: `${marker}${student} is making good progress in our lessons.`, arabicSentence: `${student} يتقدم بشكل جيد في دروسنا.` }] : []),
+        // The Islamic tone cites the verified library by id, as a real model is asked to.
+        ...(input.tone === ReplyTone.ISLAMIC ? [{ studentSentence: '', arabicSentence: '', citationId: 'quran-94-5' }] : []),
+        { studentSentence: `${marker}Best regards, ${input.teacherName || 'Teacher'}`, arabicSentence: `مع أطيب التحيات، ${input.teacherName || 'المعلم'}` },
+    ];
+    return {
+        sentences: sentences.map(s => withTransliteration(input, s)),
+        toneDescription: `🧪 ${input.tone || 'Fixture'} (offline demo)`,
+    };
+};
+
+// Editing tasks echo their input with visible markers so the flow can be followed offline.
+const revise = (input: Record<string, string>) => {
+    const sentences: { studentSentence: string; arabicSentence: string }[] = JSON.parse(input.sentences || '[]');
+    const locked = new Set<number>(JSON.parse(input.locked || '[]'));
+    return {
+        revisions: sentences
+            .map((s, index) => withTransliteration(input, { ...s, index, remove: input.revision === 'shorter' && index > 0 && index < sentences.length - 1 }))
+            .filter(r => !locked.has(r.index)),
+    };
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const PROPOSED_TIME_PATTERN = new RegExp(`\\b(tomorrow|${WEEKDAYS.join('|')})\\b[^.?!\\d]*?(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?`, 'gi');
+
+// Only "<weekday or tomorrow> ... <hour>" is recognised, relative to the date in the input.
+const proposeTimes = (input: Record<string, string>) => {
+    const [year, month, day] = (input.today || '').split('-').map(Number);
+    const today = new Date(Date.UTC(year, month - 1, day));
+    if (isNaN(today.getTime())) return { proposals: [] };
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return {
+        proposals: [...(input.studentMessage || '').matchAll(PROPOSED_TIME_PATTERN)].map(([text, dayWord, hour, minute, meridiem]) => {
+            const target = WEEKDAYS.indexOf(dayWord.toLowerCase());
+            const offset = target < 0 ? 1 : (target - today.getUTCDay() + 7) % 7 || 7;
+            const date = new Date(today.getTime() + offset * 86_400_000);
+            // Without am/pm, small hours are read as afternoon lessons.
+            const hours = meridiem
+                ? Number(hour) % 12 + (meridiem.toLowerCase() === 'pm' ? 12 : 0)
+                : Number(hour) < 8 ? Number(hour) + 12 : Number(hour);
+            return {
+                text,
+                date: `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`,
+                time: `${pad(hours)}:${minute || '00'}`,
+            };
+        }),
+    };
+};
+
+// A voice note in the hinted language, left unpunctuated so the transcript cleanup can be seen working.
+const transcribe = (input: Record<string, string>) => /^ar\b/i.test(input.voiceLanguage || '')
+    ? { transcript: 'السلام عليكم يا أستاذ لن أحضر الدرس غدا', language: 'ar' }
+    : { transcript: "assalamu alaikum teacher i can't come to the lesson tomorrow sorry", language: 'en' };
+
+const respond = ({ task, input }: JsonGenerationRequest): string => {
+    switch (task) {
+        case 'analyzeContext':
+            return JSON.stringify(analyze(input));
+        case 'generateReply':
+            return JSON.stringify(reply(input));
+        case 'translateSentence':
+            return JSON.stringify({ translation: `${input.from === 'student' ? '[ar]' : `[${input.language || 'en'}]`} ${input.text}` });
+        case 'regenerateSentence':
+            return JSON.stringify(withTransliteration(input, { studentSentence: `${input.studentSentence} (reworded)`, arabicSentence: `${input.arabicSentence} (معاد صياغتها)` }));
+        case 'reviseReply':
+            return JSON.stringify(revise(input));
+        case 'extractProposedTimes':
+            return JSON.stringify(proposeTimes(input));
+        case 'transcribeAudio':
+            return JSON.stringify(transcribe(input));
+        default:
+            throw new Error(`The fixture provider has no response for task "${task}".`);
+    }
+};
+
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 40;
+
+/**
+ * A deterministic, network-free provider for demos and automated tests. It
+ * classifies messages with keyword rules and returns canned bilingual replies.
+ */
+export const createFixtureProvider = (): ModelProvider => ({
+    id: ModelProviderId.FIXTURE,
+    model: 'fixture',
+    async generateJson(request) {
+        request.signal?.throwIfAborted();
+        return respond(request);
+    },
+    async *streamJson(request) {
+        const text = respond(request);
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+            // Simulated latency so the streaming UI can be exercised offline.
+            await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+            request.signal?.throwIfAborted();
+            yield text.slice(i, i + STREAM_CHUNK_SIZE);
+        }
+    },
+});
@@ -0,0 +1,67 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { ModelProviderId } from '../../types';
+import type { AudioAttachment, ModelProvider } from '../modelProvider';
+import { ModelError } from '../modelErrors';
+
+// The client is created on first use so that the app can start (and other
+// providers can run) without a Gemini API key.
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+    if (!client) {
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+    }
+    return client;
+};
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+    FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII, FinishReason.RECITATION,
+];
+
+// Gemini reports blocked prompts and responses in the payload rather than as an HTTP error.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new ModelError('safety', undefined, blockReason || finishReason);
+    }
+};
+
+// Audio goes inline after the prompt; Gemini accepts requests of up to 20 MB this way.
+const buildContents = (prompt: string, audio?: AudioAttachment) =>
+    audio ? [{ text: prompt }, { inlineData: { mimeType: audio.mimeType, data: audio.data } }] : prompt;
+
+export const createGeminiProvider = (model: string): ModelProvider => ({
+    id: ModelProviderId.GEMINI,
+    model,
+    async generateJson({ prompt, schema, temperature, audio, signal }) {
+        const response = await getClient().models.generateContent({
+            model,
+            contents: buildContents(prompt, audio),
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: schema,
+                temperature,
+                abortSignal: signal,
+            },
+        });
+        assertNotBlocked(response);
+        return (response.text || '').trim();
+    },
+    async *streamJson({ prompt, schema, temperature, audio, signal }) {
+        const stream = await getClient().models.generateContentStream({
+            model,
+            contents: buildContents(prompt, audio),
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: schema,
+                temperature,
+                abortSignal: signal,
+            },
+        });
+        for await (const chunk of stream) {
+            assertNotBlocked(chunk);
+            if (chunk.text) yield chunk.text;
+        }
+    },
+});
@@ -0,0 +1,119 @@
+import { Schema } from "@google/genai";
+import { ModelProviderId } from '../../types';
+import type { AudioAttachment, JsonGenerationRequest, ModelProvider } from '../modelProvider';
+import { ModelError } from '../modelErrors';
+
+/**
+ * Converts a Gemini response schema (upper-case `Type` names) into the plain
+ * JSON Schema expected by OpenAI-style `response_format` parameters.
+ */
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    if (schema.type) result.type = schema.type.toLowerCase();
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.enum;
+    if (schema.items) result.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        result.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        );
+        result.required = schema.required || [];
+        result.additionalProperties = false;
+    }
+    return result;
+};
+
+// The `input_audio` content part names the format rather than the MIME type, e.g. 'mp3' for audio/mpeg.
+const toAudioFormat = (mimeType: string): string => {
+    const subtype = mimeType.split(/[/;]/)[1]?.trim() || 'wav';
+    return subtype === 'mpeg' ? 'mp3' : subtype.replace(/^x-/, '');
+};
+
+const buildUserContent = (prompt: string, audio?: AudioAttachment) => audio
+    ? [{ type: 'text', text: prompt }, { type: 'input_audio', input_audio: { data: audio.data, format: toAudioFormat(audio.mimeType) } }]
+    : prompt;
+
+const buildRequestInit = (
+    { task, prompt, schema, temperature, audio, signal }: JsonGenerationRequest,
+    model: string,
+    apiKey: string | undefined,
+    stream: boolean
+): RequestInit => ({
+    method: 'POST',
+    signal,
+    headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+        model,
+        stream,
+        temperature,
+        messages: [
+            { role: 'system', content: 'You respond only with JSON that matches the provided schema.' },
+            { role: 'user', content: buildUserContent(prompt, audio) },
+        ],
+        response_format: {
+            type: 'json_schema',
+            json_schema: { name: task, schema: toJsonSchema(schema), strict: true },
+        },
+    }),
+});
+
+const assertOk = (response: Response) => {
+    if (response.status === 429) {
+        throw new ModelError('quota', undefined, `Local model endpoint returned 429 ${response.statusText}`);
+    }
+    if (!response.ok) {
+        throw Object.assign(new Error(`Local model endpoint returned ${response.status} ${response.statusText}`), { status: response.status });
+    }
+};
+
+const assertNotFiltered = (choice: { finish_reason?: string } | undefined) => {
+    if (choice?.finish_reason === 'content_filter') {
+        throw new ModelError('safety', undefined, 'finish_reason: content_filter');
+    }
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as
+ * Ollama (`http://localhost:11434/v1`) or the llama.cpp server.
+ */
+export const createOpenAiCompatibleProvider = (endpoint: string, model: string, apiKey?: string): ModelProvider => {
+    const url = `${endpoint.replace(/\/+$/, '')}/chat/completions`;
+    return {
+        id: ModelProviderId.OPENAI_COMPATIBLE,
+        model,
+        async generateJson(request) {
+            const response = await fetch(url, buildRequestInit(request, model, apiKey, false));
+            assertOk(response);
+            const data = await response.json();
+            assertNotFiltered(data.choices?.[0]);
+            return (data.choices?.[0]?.message?.content || '').trim();
+        },
+        async *streamJson(request) {
+            const response = await fetch(url, buildRequestInit(request, model, apiKey, true));
+            assertOk(response);
+            if (!response.body) return;
+
+            // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`.
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let pending = '';
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                pending += value;
+                const lines = pending.split('\n');
+                pending = lines.pop() || '';
+                for (const line of lines) {
+                    const data = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !data) continue;
+                    if (data === '[DONE]') return;
+                    const choice = JSON.parse(data).choices?.[0];
+                    assertNotFiltered(choice);
+                    if (choice?.delta?.content) yield choice.delta.content;
+                }
+            }
+        },
+    };
+};
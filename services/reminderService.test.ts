@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Reminder } from '../types';
+import { completeReminder, getNextOccurrence } from './reminderService';
+
+// Reminders repeat on the local calendar, so the dates are built in local time.
+const local = (year: number, month: number, day: number, hours = 9) => new Date(year, month - 1, day, hours).toISOString();
+
+const reminder = (remindAt: string, repeat: Reminder['repeat']): Reminder =>
+    ({ id: 'r1', studentId: 's1', studentName: 'Amina', remindAt, message: 'Lesson', done: false, repeat });
+
+describe('getNextOccurrence', () => {
+    it('moves daily and weekly reminders by whole days', () => {
+        expect(getNextOccurrence(local(2026, 1, 31), 'daily')).toBe(local(2026, 2, 1));
+        expect(getNextOccurrence(local(2026, 1, 31), 'weekly')).toBe(local(2026, 2, 7));
+    });
+
+    it('keeps monthly reminders in the next month, on its last day when needed', () => {
+        expect(getNextOccurrence(local(2026, 1, 31), 'monthly')).toBe(local(2026, 2, 28));
+        expect(getNextOccurrence(local(2028, 1, 31), 'monthly')).toBe(local(2028, 2, 29));
+        expect(getNextOccurrence(local(2026, 3, 31), 'monthly')).toBe(local(2026, 4, 30));
+        expect(getNextOccurrence(local(2026, 12, 31), 'monthly')).toBe(local(2027, 1, 31));
+        expect(getNextOccurrence(local(2026, 1, 15), 'monthly')).toBe(local(2026, 2, 15));
+    });
+
+    it('counts several repeats from the same start', () => {
+        expect(getNextOccurrence(local(2026, 1, 31), 'monthly', 2)).toBe(local(2026, 3, 31));
+    });
+
+    it('has no next occurrence for a one-off reminder', () => {
+        expect(getNextOccurrence(local(2026, 1, 31), 'none')).toBeNull();
+    });
+});
+
+describe('completeReminder', () => {
+    it('closes a one-off reminder', () => {
+        expect(completeReminder(reminder(local(2026, 1, 31), 'none'), new Date(local(2026, 2, 1)))).toMatchObject({ done: true, notified: true });
+    });
+
+    it('rolls a repeating reminder past occurrences that were missed', () => {
+        const next = completeReminder(reminder(local(2026, 1, 31), 'monthly'), new Date(local(2026, 3, 5)));
+        expect(next).toMatchObject({ remindAt: local(2026, 3, 31), done: false, notified: false });
+    });
+});
@@ -0,0 +1,115 @@
+import { MessageType, Reminder, ReminderRepeat, Student } from '../types';
+import { FOLLOW_UP_SUGGESTIONS } from '../constants';
+
+export const REMINDER_CHECK_INTERVAL_MS = 30 * 1000;
+
+export const isReminderDue = (reminder: Reminder, now: Date = new Date()): boolean =>
+    !reminder.done && !reminder.notified && new Date(reminder.remindAt).getTime() <= now.getTime();
+
+export const getDueReminders = (reminders: Reminder[], now: Date = new Date()): Reminder[] =>
+    reminders.filter(r => isReminderDue(r, now));
+
+// Keeps the day of the month where it can: Jan 31 plus one month is Feb 28 (or 29), not Mar 3.
+const addMonths = (date: Date, months: number): Date => {
+    const result = new Date(date);
+    const day = result.getDate();
+    result.setDate(1);
+    result.setMonth(result.getMonth() + months);
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(day, lastDay));
+    return result;
+};
+
+/** The occurrence `count` repeats after `remindAt`, or null for a one-off reminder. */
+export const getNextOccurrence = (remindAt: string, repeat: ReminderRepeat, count = 1): string | null => {
+    let next = new Date(remindAt);
+    switch (repeat) {
+        case 'daily':
+            next.setDate(next.getDate() + count);
+            break;
+        case 'weekly':
+            next.setDate(next.getDate() + 7 * count);
+            break;
+        case 'monthly':
+            next = addMonths(next, count);
+            break;
+        default:
+            return null;
+    }
+    return next.toISOString();
+};
+
+/**
+ * Marks a reminder as completed. Repeating reminders roll forward to their next
+ * occurrence (skipping any that are already in the past) instead of being closed.
+ * Occurrences are counted from the current one, so a monthly reminder on the
+ * 31st that was skipped past February still lands on the 31st in March.
+ */
+export const completeReminder = (reminder: Reminder, now: Date = new Date()): Reminder => {
+    const repeat = reminder.repeat || 'none';
+    let next = getNextOccurrence(reminder.remindAt, repeat);
+    if (!next) {
+        return { ...reminder, done: true, notified: true };
+    }
+    for (let count = 2; new Date(next).getTime() <= now.getTime(); count++) {
+        next = getNextOccurrence(reminder.remindAt, repeat, count)!;
+    }
+    return { ...reminder, remindAt: next, done: false, notified: false };
+};
+
+export const snoozeReminder = (reminder: Reminder, minutes: number, now: Date = new Date()): Reminder => ({
+    ...reminder,
+    remindAt: new Date(now.getTime() + minutes * 60 * 1000).toISOString(),
+    done: false,
+    notified: false,
+});
+
+/**
+ * Raises browser notifications for due reminders. When the app reopens with a
+ * backlog of missed reminders, they are collapsed into a single summary.
+ */
+export const notifyDueReminders = (due: Reminder[]): void => {
+    if (due.length === 0 || !("Notification" in window) || Notification.permission !== "granted") {
+        return;
+    }
+    if (due.length > 1) {
+        new Notification(`⏰ ${due.length} reminders are due`, {
+            body: due.map(r => `${r.studentName}: ${r.message}`).join('\n'),
+            tag: 'reminders-summary',
+        });
+        return;
+    }
+    const [reminder] = due;
+    new Notification(`⏰ Reminder: ${reminder.studentName}`, {
+        body: reminder.message,
+        tag: reminder.id,
+    });
+};
+
+/**
+ * Builds a pre-filled follow-up reminder for message types that warrant one,
+ * or returns null when no follow-up is suggested.
+ */
+export const buildFollowUpReminder = (
+    messageType: MessageType,
+    student: Student | null | undefined,
+    now: Date = new Date()
+): Reminder | null => {
+    const suggestion = FOLLOW_UP_SUGGESTIONS[messageType];
+    if (!suggestion) {
+        return null;
+    }
+    const remindAt = new Date(now);
+    remindAt.setDate(remindAt.getDate() + suggestion.daysLater);
+    const studentName = student?.name || 'student';
+    return {
+        id: crypto.randomUUID(),
+        studentId: student?.id || '',
+        studentName,
+        remindAt: remindAt.toISOString(),
+        message: suggestion.message.replace('{studentName}', studentName),
+        done: false,
+        repeat: 'none',
+        notified: false,
+    };
+};
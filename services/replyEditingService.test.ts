@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { EditableSentence, RevisionChange, applyRevisions, moveSentence } from './replyEditingService';
+
+const sentences: EditableSentence[] = [
+    { studentSentence: 'Assalamu alaikum Amina,', arabicSentence: 'السلام عليكم يا أمينة،' },
+    { studentSentence: 'Thank you for your message about the lesson.', arabicSentence: 'شكرًا على رسالتك بخصوص الدرس.', edited: true },
+    { studentSentence: 'Indeed, with hardship comes ease.', arabicSentence: 'فَإِنَّ مَعَ الْعُسْرِ يُسْرًا', citationId: 'quran-94-5' },
+    { studentSentence: 'See you on Friday.', arabicSentence: 'أراك يوم الجمعة.' },
+];
+
+const revise = (index: number, studentSentence: string, arabicSentence = 'عربي'): RevisionChange =>
+    ({ index, studentSentence, arabicSentence, remove: false });
+
+describe('applyRevisions', () => {
+    it('replaces revised sentences and keeps the rest', () => {
+        const result = applyRevisions(sentences, [revise(0, 'Salam Amina,', 'سلام يا أمينة،')]);
+        expect(result[0]).toEqual({ studentSentence: 'Salam Amina,', arabicSentence: 'سلام يا أمينة،', transliteration: undefined });
+        expect(result.slice(1)).toEqual(sentences.slice(1));
+    });
+
+    it('never touches sentences edited by hand or verified quotations', () => {
+        const result = applyRevisions(sentences, [revise(1, 'Thanks!'), revise(2, 'Ease follows hardship.'), { ...revise(1, ''), remove: true }]);
+        expect(result[1]).toBe(sentences[1]);
+        expect(result[2]).toBe(sentences[2]);
+    });
+
+    it('drops sentences the model removed', () => {
+        const result = applyRevisions(sentences, [{ ...revise(3, ''), remove: true }]);
+        expect(result).toHaveLength(3);
+        expect(result.map(s => s.studentSentence)).not.toContain('See you on Friday.');
+    });
+
+    it('ignores revisions for sentences that do not exist', () => {
+        expect(applyRevisions(sentences, [revise(9, 'Extra')])).toEqual(sentences);
+    });
+
+    it('keeps the transliteration of a revised sentence', () => {
+        const result = applyRevisions(sentences, [{ ...revise(3, 'Until Friday.', 'إلى الجمعة.'), transliteration: "ila al-jum'a" }]);
+        expect(result[3].transliteration).toBe("ila al-jum'a");
+    });
+});
+
+describe('moveSentence', () => {
+    it('swaps a sentence with its neighbour', () => {
+        expect(moveSentence(['a', 'b', 'c'], 1, -1)).toEqual(['b', 'a', 'c']);
+        expect(moveSentence(['a', 'b', 'c'], 1, 1)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('leaves the list alone at either end', () => {
+        const list = ['a', 'b'];
+        expect(moveSentence(list, 0, -1)).toBe(list);
+        expect(moveSentence(list, 1, 1)).toBe(list);
+    });
+});
@@ -0,0 +1,216 @@
+import { Schema, Type } from "@google/genai";
+import { ArabicStyle, CustomTone, IntegrationPlatform, LanguageCode, ReplyTone } from '../types';
+import { DEFAULT_REPLY_LANGUAGE } from '../constants';
+import { generateValidatedJson, invalid, isNonEmptyString, isRecord, validateSentencePair } from './outputValidation';
+import { BilingualReplySentence, TRANSLITERATION_PROPERTY, getToneName } from './geminiService';
+import { describeReplyLanguage, getLanguage } from './languageService';
+import { describeArabic, formatArabicStyleForPrompt } from './arabicStyleService';
+
+// 'student' is the non-Arabic side of the pair, in the student's language.
+export type SentenceLang = 'student' | 'ar';
+export type ReplyRevision = 'shorter' | 'warmer' | 'more formal';
+
+/** A sentence pair in the inline editor. */
+export interface EditableSentence extends BilingualReplySentence {
+    // Set once the teacher has changed the sentence by hand; revisions leave it alone.
+    edited?: boolean;
+    // The side edited since the pair was last translated, if any.
+    staleSide?: SentenceLang;
+}
+
+export interface RevisionChange {
+    index: number;
+    studentSentence: string;
+    arabicSentence: string;
+    transliteration?: string;
+    remove: boolean;
+}
+
+const buildSentencePairSchema = (transliteration?: boolean): Schema => ({
+    type: Type.OBJECT,
+    properties: {
+        studentSentence: { type: Type.STRING },
+        arabicSentence: { type: Type.STRING },
+        ...(transliteration ? { transliteration: TRANSLITERATION_PROPERTY } : {}),
+    },
+    required: ['studentSentence', 'arabicSentence', ...(transliteration ? ['transliteration'] : [])],
+});
+
+const translationSchema: Schema = {
+    type: Type.OBJECT,
+    properties: { translation: { type: Type.STRING } },
+    required: ['translation'],
+};
+
+const buildRevisionSchema = (transliteration?: boolean): Schema => ({
+    type: Type.OBJECT,
+    properties: {
+        revisions: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    index: { type: Type.INTEGER, description: "The index of the sentence pair being revised." },
+                    studentSentence: { type: Type.STRING },
+                    arabicSentence: { type: Type.STRING },
+                    ...(transliteration ? { transliteration: TRANSLITERATION_PROPERTY } : {}),
+                    remove: { type: Type.BOOLEAN, description: "True to drop this sentence pair entirely." },
+                },
+                required: ['index', 'studentSentence', 'arabicSentence', ...(transliteration ? ['transliteration'] : []), 'remove'],
+            },
+        },
+    },
+    required: ['revisions'],
+});
+
+const validateTranslation = (value: unknown): string => {
+    if (!isRecord(value) || !isNonEmptyString(value.translation)) return invalid("Translation is empty.");
+    return value.translation.trim();
+};
+
+const validateRevisions = (value: unknown): RevisionChange[] => {
+    if (!isRecord(value) || !Array.isArray(value.revisions)) return invalid("Revisions are missing.");
+    return value.revisions.map((r: unknown, i: number): RevisionChange => {
+        if (!isRecord(r) || typeof r.index !== 'number' || !Number.isInteger(r.index)) return invalid(`Revision ${i} has no index.`);
+        if (r.remove === true) return { index: r.index, studentSentence: '', arabicSentence: '', remove: true };
+        return { index: r.index, ...validateSentencePair(r, r.index), remove: false };
+    });
+};
+
+const numberSentences = (sentences: BilingualReplySentence[], language: LanguageCode) =>
+    sentences.map((s, i) => `${i}. ${language.toUpperCase()}: ${s.studentSentence}\n   AR: ${s.arabicSentence}`).join('\n');
+
+// === Pure editing helpers ===
+
+const isLocked = (sentence: EditableSentence): boolean => Boolean(sentence.edited || sentence.citationId);
+
+export const moveSentence = <T,>(sentences: T[], index: number, direction: -1 | 1): T[] => {
+    const target = index + direction;
+    if (target < 0 || target >= sentences.length) return sentences;
+    const next = [...sentences];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+};
+
+/**
+ * Merges model revisions into the reply. Sentences the teacher edited by hand
+ * and verified quotations are never touched, even if the model returned a
+ * change for them.
+ */
+export const applyRevisions = (sentences: EditableSentence[], revisions: RevisionChange[]): EditableSentence[] => {
+    const byIndex = new Map(revisions.map(r => [r.index, r]));
+    return sentences.flatMap((sentence, i) => {
+        const revision = byIndex.get(i);
+        if (isLocked(sentence) || !revision) return [sentence];
+        if (revision.remove) return [];
+        return [{ studentSentence: revision.studentSentence, arabicSentence: revision.arabicSentence, transliteration: revision.transliteration }];
+    });
+};
+
+// === Model calls ===
+
+export const translateSentence = async (
+    text: string,
+    from: SentenceLang,
+    context: BilingualReplySentence[],
+    language: LanguageCode = DEFAULT_REPLY_LANGUAGE,
+    arabicStyle?: ArabicStyle
+): Promise<string> => {
+    const languageName = getLanguage(language).name;
+    const [source, target] = from === 'student' ? [languageName, 'Arabic'] : ['Arabic', languageName];
+    const prompt = `
+      Translate one sentence of a teacher's reply from ${source} to ${target}.
+      Keep the meaning, tone, names and emojis. Use ${from === 'student' ? describeArabic(arabicStyle) : describeReplyLanguage(language)}.
+      ${from === 'student' ? formatArabicStyleForPrompt(arabicStyle && { ...arabicStyle, transliteration: false }) : ''}
+
+      Full reply, for context:
+      ${numberSentences(context, language)}
+
+      Sentence to translate: "${text}"
+
+      Provide a JSON object with the translation only.
+    `;
+    try {
+        return await generateValidatedJson({
+            task: 'translateSentence',
+            prompt,
+            schema: translationSchema,
+            input: { text, from, language },
+        }, validateTranslation, "Failed to translate the sentence. Please try again.");
+    } catch (error) {
+        console.error("Error translating sentence:", error);
+        throw error;
+    }
+};
+
+export const regenerateSentence = async (
+    sentences: BilingualReplySentence[],
+    index: number,
+    tone: ReplyTone | CustomTone,
+    platform: IntegrationPlatform,
+    language: LanguageCode = DEFAULT_REPLY_LANGUAGE,
+    arabicStyle?: ArabicStyle
+): Promise<BilingualReplySentence> => {
+    const current = sentences[index];
+    const prompt = `
+      You are helping a Qur'an and Arabic teacher polish a bilingual reply for ${platform}.
+      Rewrite ONLY sentence ${index} below with different wording, in the "${getToneName(tone)}" tone.
+      It must still fit naturally between the sentences around it.
+
+      Reply:
+      ${numberSentences(sentences, language)}
+
+      ${formatArabicStyleForPrompt(arabicStyle)}
+
+      Provide a JSON object with the new ${getLanguage(language).name} sentence (studentSentence) and its matching Arabic translation.
+    `;
+    try {
+        return await generateValidatedJson({
+            task: 'regenerateSentence',
+            prompt,
+            schema: buildSentencePairSchema(arabicStyle?.transliteration),
+            input: { studentSentence: current.studentSentence, arabicSentence: current.arabicSentence, transliteration: arabicStyle?.transliteration ? 'yes' : '' },
+        }, validateSentencePair, "Failed to regenerate the sentence. Please try again.");
+    } catch (error) {
+        console.error("Error regenerating sentence:", error);
+        throw error;
+    }
+};
+
+export const reviseReply = async (
+    sentences: EditableSentence[],
+    revision: ReplyRevision,
+    tone: ReplyTone | CustomTone,
+    platform: IntegrationPlatform,
+    language: LanguageCode = DEFAULT_REPLY_LANGUAGE,
+    arabicStyle?: ArabicStyle
+): Promise<EditableSentence[]> => {
+    const locked = sentences.map((s, i) => isLocked(s) ? i : -1).filter(i => i >= 0);
+    const prompt = `
+      You are helping a Qur'an and Arabic teacher polish a bilingual reply for ${platform}.
+      Make the reply ${revision}, keeping the "${getToneName(tone)}" tone and the original meaning.
+
+      Reply:
+      ${numberSentences(sentences, language)}
+
+      Rules:
+      - Sentences ${locked.length ? locked.join(', ') : '(none)'} were edited by the teacher or are verified quotations. Do NOT return revisions for them.
+      - For every other sentence you change, return its index with the new ${getLanguage(language).name} sentence (studentSentence) and matching Arabic.
+      - Set "remove" to true to drop a sentence (useful when making the reply shorter).
+      - Omit sentences that need no change.
+
+      ${formatArabicStyleForPrompt(arabicStyle)}
+    `;
+    try {
+        const revisions = await generateValidatedJson({
+            task: 'reviseReply',
+            prompt,
+            schema: buildRevisionSchema(arabicStyle?.transliteration),
+            input: { revision, sentences: JSON.stringify(sentences), locked: JSON.stringify(locked), transliteration: arabicStyle?.transliteration ? 'yes' : '' },
+        }, validateRevisions, `Failed to make the reply ${revision}. Please try again.`);
+        return applyRevisions(sentences, revisions);
+    } catch (error) {
+        console.error("Error revising reply:", error);
+        throw error;
+    }
+};
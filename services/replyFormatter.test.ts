@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { IntegrationPlatform, MessageType } from '../types';
+import { EMAIL_SUBJECTS } from '../constants';
+import { FormatOptions, WHATSAPP_MAX_LENGTH, buildEmlFile, buildMailtoLink, formatReply } from './replyFormatter';
+
+const sentences = [
+    { studentSentence: 'Assalamu alaikum Amina,', arabicSentence: 'السلام عليكم يا أمينة،' },
+    { studentSentence: 'Thank you for your message.', arabicSentence: 'شكرًا على رسالتك.' },
+    { studentSentence: 'See you on Friday.', arabicSentence: 'أراك يوم الجمعة.' },
+];
+
+const options = (overrides: Partial<FormatOptions> = {}): FormatOptions => ({
+    platform: IntegrationPlatform.GENERIC,
+    layout: 'arabic-student',
+    messageType: MessageType.RESCHEDULE,
+    teacherName: 'Ustadha Maryam',
+    signature: '',
+    studentName: 'Amina',
+    ...overrides,
+});
+
+describe('formatReply layouts', () => {
+    it('puts the Arabic first, then the student language, split by a divider', () => {
+        expect(formatReply(sentences, options()).body).toBe(
+            'السلام عليكم يا أمينة، شكرًا على رسالتك. أراك يوم الجمعة.\n\n---\n\nAssalamu alaikum Amina, Thank you for your message. See you on Friday.');
+    });
+
+    it('writes one language only', () => {
+        expect(formatReply(sentences, options({ layout: 'student' })).body).toBe('Assalamu alaikum Amina, Thank you for your message. See you on Friday.');
+        expect(formatReply(sentences, options({ layout: 'arabic' })).body).toBe('السلام عليكم يا أمينة، شكرًا على رسالتك. أراك يوم الجمعة.');
+    });
+
+    it('pairs each sentence with its translation when interleaved', () => {
+        expect(formatReply(sentences.slice(0, 2), options({ layout: 'interleaved' })).body).toBe(
+            'السلام عليكم يا أمينة،\nAssalamu alaikum Amina,\n\nشكرًا على رسالتك.\nThank you for your message.');
+    });
+
+    it('adds the transliteration under the Arabic', () => {
+        const withReading = [{ ...sentences[2], transliteration: "araka yawm al-jum'a." }];
+        expect(formatReply(withReading, options({ layout: 'arabic' })).body).toBe("أراك يوم الجمعة.\n\n(araka yawm al-jum'a.)");
+        expect(formatReply(withReading, options({ layout: 'interleaved' })).body).toBe("أراك يوم الجمعة.\n(araka yawm al-jum'a.)\nSee you on Friday.");
+    });
+});
+
+describe('formatReply for WhatsApp', () => {
+    const whatsapp = (overrides: Partial<FormatOptions> = {}) => options({ platform: IntegrationPlatform.WHATSAPP, ...overrides });
+
+    it('bolds the opening line and italicises the signature', () => {
+        const { body } = formatReply(sentences, whatsapp({ layout: 'student', signature: 'Ustadha Maryam\nAl Israa Academy' }));
+        expect(body).toBe('*Assalamu alaikum Amina,*\nThank you for your message. See you on Friday.\n\n_Ustadha Maryam_\n_Al Israa Academy_');
+    });
+
+    it('bolds the Arabic opening and uses a chat-friendly divider', () => {
+        const { body } = formatReply(sentences, whatsapp());
+        expect(body.startsWith('*السلام عليكم يا أمينة،*\n')).toBe(true);
+        expect(body).toContain('\n\n───────────\n\n');
+    });
+
+    it('warns when the message is long for a chat', () => {
+        const long = Array.from({ length: 20 }, () => sentences[1]);
+        const { body, warnings, subject } = formatReply(long, whatsapp());
+        expect(body.length).toBeGreaterThan(WHATSAPP_MAX_LENGTH);
+        expect(warnings).toEqual([expect.stringContaining(`${body.length} characters`)]);
+        expect(subject).toBeUndefined();
+        expect(formatReply(sentences, whatsapp()).warnings).toEqual([]);
+    });
+});
+
+describe('formatReply for email', () => {
+    const email = (overrides: Partial<FormatOptions> = {}) => options({ platform: IntegrationPlatform.EMAIL, layout: 'student', ...overrides });
+
+    it('gives the greeting its own line and groups the rest into paragraphs', () => {
+        const many = [sentences[0], ...Array.from({ length: 4 }, (_, i) => ({ studentSentence: `Sentence ${i + 1}.`, arabicSentence: `جملة ${i + 1}.` }))];
+        expect(formatReply(many, email()).body).toBe(
+            'Assalamu alaikum Amina,\n\nSentence 1. Sentence 2. Sentence 3.\n\nSentence 4.\n\n-- \nUstadha Maryam');
+    });
+
+    it('adds a greeting in the student language when the reply has none', () => {
+        const body = formatReply(sentences.slice(1), email({ language: 'id' })).body;
+        expect(body.startsWith('Halo Amina,\n\nThank you for your message.')).toBe(true);
+        expect(formatReply(sentences.slice(1), email({ layout: 'arabic-student' })).body.startsWith('عزيزي Amina، / Dear Amina,\n\n')).toBe(true);
+    });
+
+    it('signs with the signature, or the teacher name without one', () => {
+        expect(formatReply(sentences, email({ signature: '  Maryam\n\nAl Israa Academy ' })).body.endsWith('\n\n-- \nMaryam\nAl Israa Academy')).toBe(true);
+        expect(formatReply(sentences, email()).body.endsWith('\n\n-- \nUstadha Maryam')).toBe(true);
+    });
+
+    it('adds a subject for the message type', () => {
+        expect(formatReply(sentences, email()).subject).toBe(EMAIL_SUBJECTS[MessageType.RESCHEDULE]);
+    });
+});
+
+describe('buildMailtoLink', () => {
+    it('encodes the recipient, subject and body', () => {
+        const link = buildMailtoLink({ subject: 'Re: Lesson & homework?', body: 'Salam,\nسلام 100%', warnings: [] }, 'parent+amina@example.com');
+        expect(link).toBe('mailto:parent%2Bamina%40example.com?subject=Re%3A%20Lesson%20%26%20homework%3F&body=Salam%2C%0A%D8%B3%D9%84%D8%A7%D9%85%20100%25');
+        expect(decodeURIComponent(link.split('&body=')[1])).toBe('Salam,\nسلام 100%');
+    });
+
+    it('leaves the recipient empty when there is none', () => {
+        expect(buildMailtoLink({ body: 'Hi', warnings: [] })).toBe('mailto:?subject=&body=Hi');
+    });
+});
+
+const reply = { subject: 'Lesson on Friday', body: 'Salam Amina,\nSee you on Friday.', warnings: [] };
+
+const header = (eml: string, name: string) =>
+    eml.split('\r\n\r\n')[0].split('\r\n').find(line => line.startsWith(`${name}: `));
+
+describe('buildEmlFile', () => {
+    it('writes the teacher as a quoted mailbox', () => {
+        expect(header(buildEmlFile(reply, 'Maryam "Umm Yusuf" Ali', 'maryam@example.com'), 'From'))
+            .toBe('From: "Maryam \\"Umm Yusuf\\" Ali" <maryam@example.com>');
+        expect(header(buildEmlFile(reply, '  ', 'maryam@example.com'), 'From')).toBe('From: <maryam@example.com>');
+    });
+
+    it('encodes names outside ASCII without quoting them', () => {
+        expect(header(buildEmlFile(reply, 'مريم', 'maryam@example.com'), 'From')).toMatch(/^From: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?= <maryam@example\.com>$/);
+    });
+
+    it('leaves the From header out without a usable address', () => {
+        expect(header(buildEmlFile(reply, 'Maryam'), 'From')).toBeUndefined();
+        expect(header(buildEmlFile(reply, 'Maryam', 'Maryam Ali'), 'From')).toBeUndefined();
+        expect(header(buildEmlFile(reply, 'Maryam', 'maryam@example.com>\r\nBcc: x@y.z'), 'From')).toBeUndefined();
+    });
+
+    it('opens as an unsent draft with CRLF line endings', () => {
+        const eml = buildEmlFile(reply, 'Maryam');
+        expect(header(eml, 'X-Unsent')).toBe('X-Unsent: 1');
+        expect(eml.endsWith('\r\n\r\nSalam Amina,\r\nSee you on Friday.')).toBe(true);
+    });
+});
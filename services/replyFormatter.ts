@@ -0,0 +1,179 @@
+import { IntegrationPlatform, LanguageCode, MessageType, ReplyLayout } from '../types';
+import { DEFAULT_REPLY_LANGUAGE, EMAIL_SUBJECTS } from '../constants';
+import type { BilingualReplySentence } from './geminiService';
+import type { SentenceLang } from './replyEditingService';
+import { getLanguage } from './languageService';
+
+// Beyond this a WhatsApp message stops feeling conversational.
+export const WHATSAPP_MAX_LENGTH = 700;
+const EMAIL_SENTENCES_PER_PARAGRAPH = 3;
+const GREETING_PATTERN = /^(dear|hi|hello|hey|assalam|as-salam|salam|bonjour|salut|halo|hai|merhaba|selam|hola|hallo|السلام|مرحب|عزيز|محترم)/i;
+
+export interface FormatOptions {
+    platform: IntegrationPlatform;
+    layout: ReplyLayout;
+    messageType: MessageType;
+    teacherName: string;
+    signature: string;
+    studentName?: string;
+    // The language paired with Arabic; English when unset.
+    language?: LanguageCode;
+}
+
+export interface FormattedReply {
+    subject?: string;
+    body: string;
+    warnings: string[];
+}
+
+const pick = (s: BilingualReplySentence, lang: SentenceLang) => (lang === 'student' ? s.studentSentence : s.arabicSentence).trim();
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+    const result: T[][] = [];
+    for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size));
+    return result;
+};
+
+const formatLanguageBlock = (sentences: BilingualReplySentence[], lang: SentenceLang, platform: IntegrationPlatform): string => {
+    if (platform === IntegrationPlatform.EMAIL) {
+        // A greeting sentence gets its own line, as in a hand-written email.
+        const hasGreeting = sentences.length > 1 && GREETING_PATTERN.test(pick(sentences[0], lang));
+        const paragraphs = chunk(sentences.slice(hasGreeting ? 1 : 0), EMAIL_SENTENCES_PER_PARAGRAPH)
+            .map(group => group.map(s => pick(s, lang)).join(' '));
+        return (hasGreeting ? [pick(sentences[0], lang), ...paragraphs] : paragraphs).join('\n\n');
+    }
+    return sentences.map(s => pick(s, lang)).join(' ');
+};
+
+// The Arabic followed by its transliteration, when the reply has one.
+const formatArabicBlock = (sentences: BilingualReplySentence[], platform: IntegrationPlatform): string => {
+    const arabic = formatLanguageBlock(sentences, 'ar', platform);
+    const readings = sentences.map(s => s.transliteration?.trim()).filter(Boolean);
+    return readings.length ? `${arabic}\n\n(${readings.join(' ')})` : arabic;
+};
+
+const formatBody = (sentences: BilingualReplySentence[], layout: ReplyLayout, platform: IntegrationPlatform): string => {
+    switch (layout) {
+        case 'student':
+            return formatLanguageBlock(sentences, 'student', platform);
+        case 'arabic':
+            return formatArabicBlock(sentences, platform);
+        case 'interleaved':
+            return sentences.map(s => [pick(s, 'ar'), s.transliteration?.trim() && `(${s.transliteration.trim()})`, pick(s, 'student')].filter(Boolean).join('\n')).join('\n\n');
+        case 'arabic-student':
+        default: {
+            const arabic = formatArabicBlock(sentences, platform);
+            const translated = formatLanguageBlock(sentences, 'student', platform);
+            const divider = platform === IntegrationPlatform.WHATSAPP ? '\n\n───────────\n\n' : '\n\n---\n\n';
+            return `${arabic}${divider}${translated}`;
+        }
+    }
+};
+
+const formatGreeting = (layout: ReplyLayout, language: LanguageCode, studentName?: string): string => {
+    const name = studentName || 'Student';
+    const greeting = getLanguage(language).greeting.replace('{name}', name);
+    switch (layout) {
+        case 'student':
+            return greeting;
+        case 'arabic':
+            return `عزيزي ${name}،`;
+        default:
+            return `عزيزي ${name}، / ${greeting}`;
+    }
+};
+
+const formatSignature = (platform: IntegrationPlatform, signature: string, teacherName: string): string => {
+    const lines = signature.trim().split('\n').map(l => l.trim()).filter(Boolean);
+    switch (platform) {
+        case IntegrationPlatform.EMAIL:
+            return `-- \n${(lines.length ? lines : [teacherName]).join('\n')}`;
+        case IntegrationPlatform.WHATSAPP:
+            return lines.map(l => `_${l}_`).join('\n');
+        case IntegrationPlatform.GENERIC:
+        default:
+            return lines.join('\n');
+    }
+};
+
+/**
+ * Turns generated sentence pairs into text ready to paste into the target
+ * platform, including the teacher's signature and (for email) a subject line.
+ */
+export const formatReply = (sentences: BilingualReplySentence[], options: FormatOptions): FormattedReply => {
+    const { platform, layout, messageType, teacherName, signature, studentName, language = DEFAULT_REPLY_LANGUAGE } = options;
+    const warnings: string[] = [];
+    const parts: string[] = [];
+
+    if (platform === IntegrationPlatform.EMAIL && sentences.length > 0 && !GREETING_PATTERN.test(pick(sentences[0], 'student'))) {
+        parts.push(formatGreeting(layout, language, studentName));
+    }
+
+    let body = formatBody(sentences, layout, platform);
+    if (platform === IntegrationPlatform.WHATSAPP && sentences.length > 0 && layout !== 'interleaved') {
+        // Bold the opening line so the greeting stands out in the chat bubble.
+        const [first, ...rest] = sentences;
+        const opening = layout === 'student' ? pick(first, 'student') : pick(first, 'ar');
+        if (body.startsWith(opening)) {
+            body = `*${opening}*${rest.length ? '\n' : ''}${body.slice(opening.length).trimStart()}`;
+        }
+    }
+    parts.push(body);
+
+    const signatureBlock = formatSignature(platform, signature, teacherName);
+    if (signatureBlock) parts.push(signatureBlock);
+
+    const text = parts.join('\n\n');
+    if (platform === IntegrationPlatform.WHATSAPP && text.length > WHATSAPP_MAX_LENGTH) {
+        warnings.push(`This message is ${text.length} characters — long for WhatsApp. Consider a single language or the "Brief & Direct" tone.`);
+    }
+
+    return {
+        subject: platform === IntegrationPlatform.EMAIL ? EMAIL_SUBJECTS[messageType] : undefined,
+        body: text,
+        warnings,
+    };
+};
+
+export const buildMailtoLink = ({ subject = '', body }: FormattedReply, to = ''): string =>
+    `mailto:${encodeURIComponent(to)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+
+// RFC 2047 encoded-word so non-ASCII subjects survive in the message headers.
+const encodeHeader = (value: string): string => {
+    if (/^[\x20-\x7E]*$/.test(value)) return value;
+    const bytes = new TextEncoder().encode(value);
+    return `=?UTF-8?B?${btoa(String.fromCharCode(...bytes))}?=`;
+};
+
+// A bare address that can go inside <…>; anything else is left out rather than producing a header mail clients reject.
+const EMAIL_ADDRESS = /^[^\s@<>()",;:]+@[^\s@<>()",;:]+\.[^\s@<>()",;:]+$/;
+
+/** An RFC 5322 mailbox such as `"Amina Khan" <amina@example.com>`, or undefined without a usable address. */
+const formatMailbox = (name: string, address?: string): string | undefined => {
+    if (!address || !EMAIL_ADDRESS.test(address)) return undefined;
+    const displayName = name.trim();
+    if (!displayName) return `<${address}>`;
+    // Encoded words may not sit inside quotes, so only plain ASCII names are quoted.
+    const phrase = /^[\x20-\x7E]*$/.test(displayName) ? `"${displayName.replace(/(["\\])/g, '\\$1')}"` : encodeHeader(displayName);
+    return `${phrase} <${address}>`;
+};
+
+/**
+ * Builds an unsent .eml draft that mail clients open ready to edit and send.
+ * The From header is only written when the teacher has set an email address.
+ */
+export const buildEmlFile = ({ subject = '', body }: FormattedReply, fromName: string, fromAddress?: string): string => {
+    const from = formatMailbox(fromName, fromAddress);
+    return [
+        ...(from ? [`From: ${from}`] : []),
+        'To: ',
+        `Subject: ${encodeHeader(subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        'X-Unsent: 1',
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: 8bit',
+        '',
+        body.replace(/\r?\n/g, '\r\n'),
+    ].join('\r\n');
+};
@@ -0,0 +1,118 @@
+import { AppSettings, CustomTone, LanguageCode, MessageSender, MessageType, ReplyTone, Student } from '../types';
+import { DEFAULT_FEW_SHOT_EXAMPLES } from '../constants';
+import { AnalyzedContext, GeneratedReply, analyzeContext, generateBilingualReply, streamBilingualReply } from './geminiService';
+import { PartialReply } from './replyStreamParser';
+import { ConversationContext } from './conversationService';
+import { ExampleBank, selectFeedback } from './feedbackService';
+import { getDetectionLanguages } from './languageService';
+import { ReschedulePlan, needsReschedulePlan, planReschedule } from './scheduleService';
+import { PaymentContext, PaymentIntent, hasLedger, summarizeLedger } from './ledgerService';
+import { resolveArabicStyle } from './arabicStyleService';
+import { ReplyRecipient, findGuardian, getRecipientPlatform, resolveRecipientLanguage } from './guardianService';
+
+export interface DraftReplyRequest {
+    message: string;
+    tone: ReplyTone | CustomTone;
+    settings: AppSettings;
+    student?: Student | null;
+    conversation?: ConversationContext;
+    // Pairs Arabic with this language instead of the one worked out from the student and message.
+    language?: LanguageCode;
+    // Rated replies to learn from; omitted when learning from ratings is off.
+    exampleBank?: ExampleBank;
+    paymentIntent?: PaymentIntent;
+    signal?: AbortSignal;
+    // Called once the message is analysed and any schedule or ledger context is ready.
+    onContext?: (prepared: PreparedReply) => void;
+    // Streams the reply when given; otherwise it is generated in one request.
+    onUpdate?: (partial: PartialReply) => void;
+}
+
+/** Everything worked out about a message before the reply is written. */
+export interface PreparedReply {
+    context: AnalyzedContext;
+    // Whoever wrote the message, which is who the reply goes to unless a variant says otherwise.
+    recipient: ReplyRecipient;
+    language: LanguageCode;
+    schedule?: ReschedulePlan;
+    payment?: PaymentContext;
+}
+
+export interface DraftedReply extends PreparedReply {
+    reply: GeneratedReply;
+}
+
+// Analysis, sender, reply language and the reschedule and ledger context.
+const prepareReply = async ({
+    message, settings, student, language: languageOverride, paymentIntent, signal,
+}: DraftReplyRequest): Promise<PreparedReply> => {
+    const context = await analyzeContext(message, getDetectionLanguages(settings), signal);
+    const recipient: ReplyRecipient = { audience: context.sender, guardian: findGuardian(student, message) };
+    const language = languageOverride || resolveRecipientLanguage(settings, student, recipient, context);
+    const schedule = needsReschedulePlan(context.messageType) ? await planReschedule(message, student, settings, signal) : undefined;
+    const payment = context.messageType === MessageType.PAYMENT && hasLedger(student)
+        ? { summary: summarizeLedger(student, settings), intent: paymentIntent }
+        : undefined;
+    return { context, recipient, language, schedule, payment };
+};
+
+// Generation in one tone for one recipient, with the rated examples that match it and the student's Arabic style.
+const writeReply = (
+    { message, settings, student, conversation, language: languageOverride, exampleBank, signal }: DraftReplyRequest,
+    { context, recipient: sender, language, schedule, payment }: PreparedReply,
+    { tone, temperature, audience }: VariantSpec,
+    onUpdate?: (partial: PartialReply) => void
+): Promise<GeneratedReply> => {
+    const recipient = audience ? { ...sender, audience } : sender;
+    const platform = getRecipientPlatform(settings, recipient);
+    const recipientLanguage = audience && audience !== sender.audience && !languageOverride
+        ? resolveRecipientLanguage(settings, student, recipient, context)
+        : language;
+    const toneId = typeof tone === 'string' ? tone : tone.id;
+    const feedback = exampleBank && selectFeedback(
+        exampleBank, { messageType: context.messageType, tone: toneId, sentiment: context.sentiment }, settings.fewShotExamples ?? DEFAULT_FEW_SHOT_EXAMPLES);
+    const options = { conversation, feedback, language: recipientLanguage, schedule, payment, arabicStyle: resolveArabicStyle(settings, student), recipient, temperature, signal };
+    return onUpdate
+        ? streamBilingualReply(message, context, tone, platform, settings.teacherName, student, { ...options, onUpdate })
+        : generateBilingualReply(message, context, tone, platform, settings.teacherName, student, options);
+};
+
+/**
+ * The whole reply engine for one message: analysis, reply language, rated
+ * examples, reschedule and ledger context, then generation. It has no UI
+ * state, so the app, the batch inbox and the command line all share it.
+ */
+export const draftReply = async (request: DraftReplyRequest): Promise<DraftedReply> => {
+    const prepared = await prepareReply(request);
+    request.onContext?.(prepared);
+    const reply = await writeReply(request, prepared, { tone: request.tone }, request.onUpdate);
+    return { ...prepared, reply };
+};
+
+export interface VariantSpec {
+    tone: ReplyTone | CustomTone;
+    // Sampling temperature; the provider's default when unset.
+    temperature?: number;
+    // Writes to the child or the parent instead of whoever sent the message.
+    audience?: MessageSender;
+}
+
+export interface DraftVariantsRequest extends Omit<DraftReplyRequest, 'tone' | 'onUpdate'> {
+    variants: VariantSpec[];
+    onVariantUpdate?: (index: number, partial: PartialReply) => void;
+}
+
+export interface DraftedVariants extends PreparedReply {
+    // In the order of `variants`; one failed variant doesn't fail the others.
+    results: PromiseSettledResult<GeneratedReply>[];
+}
+
+/** Analyses the message once, then writes every variant in parallel. */
+export const draftReplyVariants = async (request: DraftVariantsRequest): Promise<DraftedVariants> => {
+    const base = { ...request, tone: request.variants[0].tone };
+    const prepared = await prepareReply(base);
+    request.onContext?.(prepared);
+    const results = await Promise.allSettled(request.variants.map((variant, index) =>
+        writeReply(base, prepared, variant, request.onVariantUpdate && (partial => request.onVariantUpdate!(index, partial)))));
+    return { ...prepared, results };
+};
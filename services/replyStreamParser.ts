@@ -0,0 +1,72 @@
+import type { BilingualReplySentence } from './geminiService';
+
+export type StreamStage = 'drafting' | 'translating';
+
+export interface PartialReply {
+    sentences: BilingualReplySentence[];
+    // Which half of the in-flight sentence pair the model is currently writing.
+    stage: StreamStage | null;
+    toneDescription?: string;
+}
+
+/**
+ * Extracts every complete sentence pair from a partially streamed reply JSON
+ * document such as `{"sentences":[{"studentSentence":"…","arabicSentence":"…"},{"stud`.
+ * The buffer is re-scanned on each call; replies are short enough that this is cheap.
+ */
+export const parsePartialReply = (buffer: string): PartialReply => {
+    const result: PartialReply = { sentences: [], stage: null };
+
+    const arrayStart = buffer.search(/"sentences"\s*:\s*\[/);
+    if (arrayStart !== -1) {
+        let i = buffer.indexOf('[', arrayStart) + 1;
+        let depth = 0;
+        let inString = false;
+        let objectStart = -1;
+
+        for (; i < buffer.length; i++) {
+            const ch = buffer[i];
+            if (inString) {
+                if (ch === '\\') i++;
+                else if (ch === '"') inString = false;
+                continue;
+            }
+            if (ch === '"') {
+                inString = true;
+            } else if (ch === '{') {
+                if (depth === 0) objectStart = i;
+                depth++;
+            } else if (ch === '}') {
+                depth--;
+                if (depth === 0 && objectStart !== -1) {
+                    try {
+                        const sentence = JSON.parse(buffer.slice(objectStart, i + 1));
+                        if (typeof sentence.studentSentence === 'string' && typeof sentence.arabicSentence === 'string') {
+                            result.sentences.push(sentence);
+                        }
+                    } catch {
+                        // Ignore a malformed pair; the final parse will surface real errors.
+                    }
+                    objectStart = -1;
+                }
+            } else if (ch === ']' && depth === 0) {
+                break;
+            }
+        }
+
+        if (objectStart !== -1) {
+            result.stage = buffer.slice(objectStart).includes('"arabicSentence"') ? 'translating' : 'drafting';
+        }
+    }
+
+    const toneMatch = buffer.match(/"toneDescription"\s*:\s*"((?:[^"\\]|\\.)*)"/);
+    if (toneMatch) {
+        try {
+            result.toneDescription = JSON.parse(`"${toneMatch[1]}"`);
+        } catch {
+            // Leave the tone description unset until it parses.
+        }
+    }
+
+    return result;
+};
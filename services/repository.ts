@@ -0,0 +1,194 @@
+import { AppSettings, CollectionName, PendingGeneration } from '../types';
+import { DEFAULT_SETTINGS, SYNC_CHANNEL_NAME } from '../constants';
+import { PENDING_STORE, SETTINGS_KEY, SETTINGS_STORE, openDatabase, requestToPromise, transactionDone } from './database';
+
+type Identified = { id: string };
+
+/** The records written and the ids deleted by one update of a collection. */
+export interface ChangeSet<T> {
+    put: T[];
+    remove: string[];
+}
+
+type SyncMessage =
+    | { kind: 'collection'; name: CollectionName; changes: ChangeSet<Identified> }
+    | { kind: 'settings'; settings: AppSettings };
+
+export interface CollectionRepository<T extends Identified> {
+    name: CollectionName;
+    getAll(): Promise<T[]>;
+    getByStudent(studentId: string): Promise<T[]>;
+    getBetween(from: string, to: string): Promise<T[]>;
+    applyChanges(changes: ChangeSet<T>): Promise<void>;
+}
+
+// Default order when items are loaded or merged from another tab. Views that
+// need a specific order sort for themselves; these only matter where they don't.
+const COLLECTION_ORDER: Partial<Record<CollectionName, (a: any, b: any) => number>> = {
+    savedReplies: (a, b) => b.date.localeCompare(a.date),
+    customTones: (a, b) => a.name.localeCompare(b.name),
+};
+
+const DATE_INDEX: Partial<Record<CollectionName, string>> = {
+    savedReplies: 'date',
+    reminders: 'remindAt',
+    conversations: 'date',
+    analyses: 'date',
+};
+
+const sortCollection = <T,>(name: CollectionName, items: T[]): T[] => {
+    const compare = COLLECTION_ORDER[name];
+    return compare ? [...items].sort(compare) : items;
+};
+
+// === Change sets ===
+
+/**
+ * Compares two versions of a collection. State updates are immutable, so an
+ * unchanged record keeps its identity and only touched records are written.
+ */
+export const diffCollection = <T extends Identified>(previous: T[], next: T[]): ChangeSet<T> => {
+    const previousById = new Map(previous.map(item => [item.id, item]));
+    const nextIds = new Set(next.map(item => item.id));
+    return {
+        put: next.filter(item => previousById.get(item.id) !== item),
+        remove: previous.filter(item => !nextIds.has(item.id)).map(item => item.id),
+    };
+};
+
+export const isEmptyChangeSet = (changes: ChangeSet<unknown>) => changes.put.length === 0 && changes.remove.length === 0;
+
+/** Applies a change set from another tab: updates in place, appends new records, drops removed ones. */
+export const applyChangeSet = <T extends Identified>(name: CollectionName, items: T[], changes: ChangeSet<T>): T[] => {
+    const removed = new Set(changes.remove);
+    const updates = new Map(changes.put.map(item => [item.id, item]));
+    const kept = items.filter(item => !removed.has(item.id)).map(item => {
+        const update = updates.get(item.id);
+        updates.delete(item.id);
+        return update || item;
+    });
+    return sortCollection(name, [...kept, ...updates.values()]);
+};
+
+// === Cross-tab sync ===
+
+let channel: BroadcastChannel | null | undefined;
+const listeners = new Set<(message: SyncMessage) => void>();
+
+// One channel per tab: a BroadcastChannel never receives its own messages,
+// so every tab hears each write exactly once, from the other tabs.
+const getChannel = (): BroadcastChannel | null => {
+    if (channel === undefined) {
+        channel = 'BroadcastChannel' in window ? new BroadcastChannel(SYNC_CHANNEL_NAME) : null;
+        if (channel) channel.onmessage = event => listeners.forEach(listener => listener(event.data));
+    }
+    return channel;
+};
+
+const broadcast = (message: SyncMessage) => getChannel()?.postMessage(message);
+
+export const subscribeToCollection = <T extends Identified>(name: CollectionName, onChange: (changes: ChangeSet<T>) => void) => {
+    const listener = (message: SyncMessage) => {
+        if (message.kind === 'collection' && message.name === name) onChange(message.changes as ChangeSet<T>);
+    };
+    getChannel();
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const subscribeToSettings = (onChange: (settings: AppSettings) => void) => {
+    const listener = (message: SyncMessage) => {
+        if (message.kind === 'settings') onChange(message.settings);
+    };
+    getChannel();
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// === Repositories ===
+
+const createCollectionRepository = <T extends Identified>(name: CollectionName): CollectionRepository<T> => {
+    const readAll = async (query: (store: IDBObjectStore) => IDBRequest<any[]>): Promise<T[]> => {
+        const db = await openDatabase();
+        const store = db.transaction(name, 'readonly').objectStore(name);
+        return sortCollection(name, await requestToPromise(query(store)));
+    };
+
+    return {
+        name,
+        getAll: () => readAll(store => store.getAll()),
+        getByStudent: studentId => readAll(store => store.index('studentId').getAll(studentId)),
+        getBetween: (from, to) => {
+            const index = DATE_INDEX[name];
+            if (!index) return Promise.reject(new Error(`${name} has no date index.`));
+            return readAll(store => store.index(index).getAll(IDBKeyRange.bound(from, to)));
+        },
+        applyChanges: async changes => {
+            if (isEmptyChangeSet(changes)) return;
+            const db = await openDatabase();
+            const transaction = db.transaction(name, 'readwrite');
+            const store = transaction.objectStore(name);
+            changes.remove.forEach(id => store.delete(id));
+            changes.put.forEach(item => store.put(item));
+            await transactionDone(transaction);
+            broadcast({ kind: 'collection', name, changes });
+        },
+    };
+};
+
+const repositories = new Map<CollectionName, CollectionRepository<any>>();
+
+export const getCollectionRepository = <T extends Identified>(name: CollectionName): CollectionRepository<T> => {
+    if (!repositories.has(name)) repositories.set(name, createCollectionRepository<T>(name));
+    return repositories.get(name)!;
+};
+
+export const settingsRepository = {
+    get: async (): Promise<AppSettings> => {
+        const db = await openDatabase();
+        const stored = await requestToPromise(db.transaction(SETTINGS_STORE, 'readonly').objectStore(SETTINGS_STORE).get(SETTINGS_KEY));
+        return { ...DEFAULT_SETTINGS, ...(stored || {}) };
+    },
+    save: async (settings: AppSettings): Promise<void> => {
+        const db = await openDatabase();
+        const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+        transaction.objectStore(SETTINGS_STORE).put(settings, SETTINGS_KEY);
+        await transactionDone(transaction);
+        broadcast({ kind: 'settings', settings });
+    },
+};
+
+/**
+ * Replies queued while offline. The store is shared by every open tab, so a
+ * tab claims an entry before drafting it and no reply is generated twice.
+ */
+export const pendingGenerationRepository = {
+    getAll: async (): Promise<PendingGeneration[]> => {
+        const db = await openDatabase();
+        const items: PendingGeneration[] = await requestToPromise(db.transaction(PENDING_STORE, 'readonly').objectStore(PENDING_STORE).getAll());
+        return items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+    },
+    put: async (item: PendingGeneration): Promise<void> => {
+        const db = await openDatabase();
+        const transaction = db.transaction(PENDING_STORE, 'readwrite');
+        transaction.objectStore(PENDING_STORE).put(item);
+        await transactionDone(transaction);
+    },
+    remove: async (id: string): Promise<void> => {
+        const db = await openDatabase();
+        const transaction = db.transaction(PENDING_STORE, 'readwrite');
+        transaction.objectStore(PENDING_STORE).delete(id);
+        await transactionDone(transaction);
+    },
+    /** Takes the entry out of the store and returns it, or undefined when another tab already took it. */
+    claim: async (id: string): Promise<PendingGeneration | undefined> => {
+        const db = await openDatabase();
+        // Read and delete in one readwrite transaction: IndexedDB runs these one at a time across tabs.
+        const transaction = db.transaction(PENDING_STORE, 'readwrite');
+        const store = transaction.objectStore(PENDING_STORE);
+        const item: PendingGeneration | undefined = await requestToPromise(store.get(id));
+        if (item) store.delete(id);
+        await transactionDone(transaction);
+        return item;
+    },
+};
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ModelProviderId } from '../types';
+import { QUOTA_RETRY_DELAY_MS } from '../constants';
+import type { JsonGenerationRequest, ModelProvider } from './modelProvider';
+
+// The status and the limiters live at module level, so each test loads a fresh copy.
+const loadRequestLayer = async () => {
+    vi.resetModules();
+    return import('./requestLayer');
+};
+
+const request: JsonGenerationRequest = { task: 'generateReply', prompt: 'Hi', schema: {}, input: {} };
+
+const fakeProvider = (generateJson: () => Promise<string> = async () => '{}'): ModelProvider => ({
+    id: ModelProviderId.FIXTURE,
+    model: 'test',
+    generateJson: vi.fn(generateJson),
+    streamJson: async function* () { yield '{}'; },
+});
+
+// Lets pending promise callbacks run without moving the clock.
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('createRateLimiter', () => {
+    it('holds requests over the limit until the minute has passed', async () => {
+        const { createRateLimiter, getRequestStatus } = await loadRequestLayer();
+        const limiter = createRateLimiter(2);
+        const started: number[] = [];
+        [1, 2, 3].forEach(n => limiter.acquire().then(() => started.push(n)));
+
+        await settle();
+        expect(started).toEqual([1, 2]);
+        expect(getRequestStatus().throttled).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(59_999);
+        expect(started).toEqual([1, 2]);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(started).toEqual([1, 2, 3]);
+        expect(getRequestStatus().throttled).toBe(0);
+    });
+
+    it('lets an aborted request give up its place', async () => {
+        const { createRateLimiter } = await loadRequestLayer();
+        const limiter = createRateLimiter(1);
+        await limiter.acquire();
+        const controller = new AbortController();
+        const waiting = limiter.acquire(controller.signal);
+        const behind = vi.fn();
+        limiter.acquire().then(behind);
+
+        controller.abort(new Error('cancelled'));
+        await expect(waiting).rejects.toThrow('cancelled');
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(behind).toHaveBeenCalled();
+    });
+
+    it('never waits when the limit is 0', async () => {
+        const { createRateLimiter } = await loadRequestLayer();
+        const limiter = createRateLimiter(0);
+        const started = vi.fn();
+        for (let i = 0; i < 100; i++) limiter.acquire().then(started);
+        await settle();
+        expect(started).toHaveBeenCalledTimes(100);
+    });
+});
+
+describe('createRequestLayer', () => {
+    it('shares one count between layers for the same provider and endpoint', async () => {
+        const { createRequestLayer } = await loadRequestLayer();
+        const first = createRequestLayer(fakeProvider(), { rateLimitKey: 'openai:http://a', requestsPerMinute: 1 });
+        const rebuilt = createRequestLayer(fakeProvider(), { rateLimitKey: 'openai:http://a', requestsPerMinute: 1 });
+        const elsewhere = createRequestLayer(fakeProvider(), { rateLimitKey: 'openai:http://b', requestsPerMinute: 1 });
+
+        await first.generateJson(request);
+        const done = vi.fn();
+        rebuilt.generateJson(request).then(done);
+        await expect(elsewhere.generateJson(request)).resolves.toBe('{}');
+        await settle();
+        expect(done).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(done).toHaveBeenCalled();
+    });
+
+    it('retries quota errors with backoff, then gives up', async () => {
+        const { createRequestLayer } = await loadRequestLayer();
+        const provider = fakeProvider(() => Promise.reject(new Error('429 Too Many Requests')));
+        const layer = createRequestLayer(provider, { rateLimitKey: 'fixture', requestsPerMinute: 0 });
+        const result = layer.generateJson(request);
+        const failed = expect(result).rejects.toThrow('429');
+
+        await settle();
+        expect(provider.generateJson).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(QUOTA_RETRY_DELAY_MS);
+        expect(provider.generateJson).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(QUOTA_RETRY_DELAY_MS * 2);
+        expect(provider.generateJson).toHaveBeenCalledTimes(3);
+        await failed;
+    });
+
+    it('does not retry other errors', async () => {
+        const { createRequestLayer } = await loadRequestLayer();
+        const provider = fakeProvider(() => Promise.reject(new Error('Invalid API key')));
+        const layer = createRequestLayer(provider, { rateLimitKey: 'fixture', requestsPerMinute: 0 });
+        await expect(layer.generateJson(request)).rejects.toThrow('Invalid API key');
+        expect(provider.generateJson).toHaveBeenCalledTimes(1);
+    });
+
+    it('queues requests while offline and sends them once the connection is back', async () => {
+        const connection = { onLine: false };
+        const events = new EventTarget();
+        vi.stubGlobal('navigator', connection);
+        vi.stubGlobal('window', events);
+        const { createRequestLayer, getRequestStatus } = await loadRequestLayer();
+        const provider = fakeProvider();
+        const layer = createRequestLayer(provider, { rateLimitKey: 'fixture', requestsPerMinute: 0 });
+
+        const result = layer.generateJson(request);
+        await settle();
+        expect(provider.generateJson).not.toHaveBeenCalled();
+        expect(getRequestStatus()).toMatchObject({ offline: true, queued: 1 });
+
+        connection.onLine = true;
+        events.dispatchEvent(new Event('online'));
+        await expect(result).resolves.toBe('{}');
+        expect(getRequestStatus()).toMatchObject({ offline: false, queued: 0 });
+    });
+});
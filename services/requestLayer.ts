@@ -0,0 +1,178 @@
+import { QUOTA_MAX_RETRIES, QUOTA_RETRY_DELAY_MS } from '../constants';
+import type { JsonGenerationRequest, ModelProvider } from './modelProvider';
+import { toModelError } from './modelErrors';
+import { delay } from './retry';
+
+/** What the request layer is waiting on, for the banner in the app. */
+export interface RequestStatus {
+    offline: boolean;
+    // Requests held until the connection comes back.
+    queued: number;
+    // Requests held back by the rate limit or a quota error.
+    throttled: number;
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+let status: RequestStatus = { offline: isOffline(), queued: 0, throttled: 0 };
+const listeners = new Set<(status: RequestStatus) => void>();
+
+const updateStatus = (change: Partial<RequestStatus>) => {
+    status = { ...status, ...change };
+    listeners.forEach(listener => listener(status));
+};
+
+if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => updateStatus({ offline: false }));
+    window.addEventListener('offline', () => updateStatus({ offline: true }));
+}
+
+export const getRequestStatus = (): RequestStatus => status;
+
+export const subscribeToRequestStatus = (onChange: (status: RequestStatus) => void) => {
+    listeners.add(onChange);
+    return () => { listeners.delete(onChange); };
+};
+
+/** Resolves once the browser is online; at once when it already is, or outside a browser. */
+const waitUntilOnline = (signal?: AbortSignal): Promise<void> => {
+    if (!isOffline()) return Promise.resolve();
+    updateStatus({ offline: true, queued: status.queued + 1 });
+    return new Promise<void>((resolve, reject) => {
+        const finish = () => {
+            window.removeEventListener('online', onOnline);
+            signal?.removeEventListener('abort', onAbort);
+            updateStatus({ queued: status.queued - 1 });
+        };
+        const onOnline = () => { finish(); resolve(); };
+        const onAbort = () => { finish(); reject(signal!.reason); };
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        window.addEventListener('online', onOnline);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+const WINDOW_MS = 60_000;
+
+export interface RateLimiter {
+    // Changing the limit keeps the requests already counted in the current minute.
+    perMinute: number;
+    acquire(signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * Lets at most `perMinute` requests start in any rolling minute. Waiting
+ * requests start in the order they asked; 0 or less disables the limit.
+ */
+export const createRateLimiter = (perMinute: number): RateLimiter => {
+    const started: number[] = [];
+    let queue: Promise<void> = Promise.resolve();
+
+    const takeSlot = async (signal?: AbortSignal) => {
+        let throttled = false;
+        try {
+            for (;;) {
+                signal?.throwIfAborted();
+                const now = Date.now();
+                while (started.length > 0 && started[0] <= now - WINDOW_MS) started.shift();
+                if (limiter.perMinute <= 0 || started.length < limiter.perMinute) {
+                    started.push(now);
+                    return;
+                }
+                if (!throttled) {
+                    throttled = true;
+                    updateStatus({ throttled: status.throttled + 1 });
+                }
+                await delay(started[0] + WINDOW_MS - now, signal);
+            }
+        } finally {
+            if (throttled) updateStatus({ throttled: status.throttled - 1 });
+        }
+    };
+
+    const limiter: RateLimiter = {
+        perMinute,
+        acquire: signal => {
+            if (limiter.perMinute <= 0) return Promise.resolve();
+            const turn = queue.then(() => takeSlot(signal));
+            // An aborted request gives up its place without holding up the ones behind it.
+            queue = turn.catch(() => undefined);
+            return turn;
+        },
+    };
+    return limiter;
+};
+
+// One limiter per provider and endpoint for the life of the page, so changing
+// settings never resets the count of requests already sent this minute.
+const rateLimiters = new Map<string, RateLimiter>();
+
+const getRateLimiter = (key: string, perMinute: number): RateLimiter => {
+    let limiter = rateLimiters.get(key);
+    if (!limiter) {
+        limiter = createRateLimiter(perMinute);
+        rateLimiters.set(key, limiter);
+    }
+    limiter.perMinute = perMinute;
+    return limiter;
+};
+
+export interface RequestLayerOptions {
+    // Identifies the quota the requests count against, e.g. the provider and endpoint.
+    rateLimitKey: string;
+    requestsPerMinute: number;
+}
+
+const isQuotaError = (error: unknown) => toModelError(error, '').kind === 'quota';
+
+/**
+ * Wraps a provider so every call waits for a connection and a free slot under
+ * the rate limit, is retried with backoff after a quota error, and is sent
+ * again if the connection drops while it is in flight. Malformed output and
+ * other network errors are still retried by the callers.
+ */
+export const createRequestLayer = (provider: ModelProvider, { rateLimitKey, requestsPerMinute }: RequestLayerOptions): ModelProvider => {
+    const limiter = getRateLimiter(rateLimitKey, requestsPerMinute);
+
+    const send = async <T,>(request: JsonGenerationRequest, call: () => Promise<T>): Promise<T> => {
+        const { signal } = request;
+        let attempt = 0;
+        for (;;) {
+            await waitUntilOnline(signal);
+            await limiter.acquire(signal);
+            try {
+                return await call();
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                // Went offline mid-request: hold it until the connection is back, then send it again.
+                if (isOffline()) continue;
+                if (attempt >= QUOTA_MAX_RETRIES || !isQuotaError(error)) throw error;
+                console.warn(`Quota reached (attempt ${attempt + 1}), retrying:`, error);
+                updateStatus({ throttled: status.throttled + 1 });
+                try {
+                    await delay(QUOTA_RETRY_DELAY_MS * 2 ** attempt, signal);
+                } finally {
+                    updateStatus({ throttled: status.throttled - 1 });
+                }
+                attempt++;
+            }
+        }
+    };
+
+    return {
+        id: provider.id,
+        model: provider.model,
+        generateJson: request => send(request, () => provider.generateJson(request)),
+        // Only opening the stream is retried; once text has arrived, a failure goes back to the caller.
+        async *streamJson(request) {
+            const { chunks, first } = await send(request, async () => {
+                const chunks = provider.streamJson(request)[Symbol.asyncIterator]();
+                return { chunks, first: await chunks.next() };
+            });
+            for (let next = first; !next.done; next = await chunks.next()) yield next.value;
+        },
+    };
+};
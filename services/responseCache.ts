@@ -0,0 +1,67 @@
+import { RESPONSE_CACHE_SIZE, RESPONSE_CACHE_TTL_MS } from '../constants';
+import { JsonGenerationRequest, getModelProvider } from './modelProvider';
+import { hashText } from './textHash';
+
+interface CacheEntry {
+    // The full key, since two fingerprints can share a hash.
+    fingerprint: string;
+    value: unknown;
+    expiresAt: number;
+}
+
+// Map order doubles as recency: entries are moved to the end when read.
+const entries = new Map<string, CacheEntry>();
+let enabled = true;
+
+/** Turns the cache on or off. Turning it off also empties it. */
+export const setResponseCacheEnabled = (value: boolean) => {
+    enabled = value;
+    if (!value) entries.clear();
+};
+
+export const clearResponseCache = () => entries.clear();
+
+// Untrusted text is wrapped in tags with a random suffix (see promptSafety), which would make every prompt unique.
+const normalizePrompt = (prompt: string) => prompt.replace(/\b([a-z_]+)_[0-9a-f]{8}\b/g, '$1');
+
+/**
+ * Identifies a request by everything that shapes the answer: provider, model,
+ * task, temperature and the prompt, which already holds the message and
+ * every reply option.
+ */
+const fingerprintOf = (request: JsonGenerationRequest): string => {
+    const provider = getModelProvider();
+    return [provider.id, provider.model, request.task, request.temperature ?? '', normalizePrompt(request.prompt)].join('\n');
+};
+
+/** A validated response from an identical earlier request, if one is still cached. */
+export const readCachedResponse = <T,>(request: JsonGenerationRequest): T | undefined => {
+    if (!enabled) return undefined;
+    const fingerprint = fingerprintOf(request);
+    const key = hashText(fingerprint);
+    const entry = entries.get(key);
+    if (!entry || entry.fingerprint !== fingerprint) return undefined;
+    entries.delete(key);
+    if (entry.expiresAt < Date.now()) return undefined;
+    entries.set(key, entry);
+    // A copy, so editing a reply never changes what the next cache hit returns.
+    return structuredClone(entry.value) as T;
+};
+
+export const writeCachedResponse = (request: JsonGenerationRequest, value: unknown) => {
+    if (!enabled) return;
+    const fingerprint = fingerprintOf(request);
+    const key = hashText(fingerprint);
+    entries.delete(key);
+    entries.set(key, { fingerprint, value: structuredClone(value), expiresAt: Date.now() + RESPONSE_CACHE_TTL_MS });
+    while (entries.size > RESPONSE_CACHE_SIZE) entries.delete(entries.keys().next().value!);
+};
+
+/** Returns the cached response for the request, or produces and caches a new one. */
+export const withResponseCache = async <T,>(request: JsonGenerationRequest, produce: () => Promise<T>): Promise<T> => {
+    const cached = readCachedResponse<T>(request);
+    if (cached !== undefined) return cached;
+    const value = await produce();
+    writeCachedResponse(request, value);
+    return value;
+};
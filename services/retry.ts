@@ -0,0 +1,40 @@
+export interface RetryOptions {
+    retries: number;
+    baseDelayMs: number;
+    shouldRetry: (error: unknown) => boolean;
+    signal?: AbortSignal;
+}
+
+/** Resolves after `ms`, or rejects as soon as `signal` is aborted. */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Runs `task`, retrying failures that `shouldRetry` accepts with exponential
+ * backoff (baseDelayMs, then 2×, 4×, …). The attempt number starts at 0.
+ */
+export const withRetry = async <T,>(task: (attempt: number) => Promise<T>, { retries, baseDelayMs, shouldRetry, signal }: RetryOptions): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task(attempt);
+        } catch (error) {
+            if (signal?.aborted || attempt >= retries || !shouldRetry(error)) throw error;
+            console.warn(`Attempt ${attempt + 1} failed, retrying:`, error);
+            await delay(baseDelayMs * 2 ** attempt, signal);
+        }
+    }
+};
@@ -0,0 +1,386 @@
+import { Schema, Type } from "@google/genai";
+import { AppSettings, AvailabilityWindow, BookedLesson, MessageType, Student, Weekday } from '../types';
+import { DEFAULT_LESSON_MINUTES, MAX_OFFERED_SLOTS, RESCHEDULE_SEARCH_DAYS, SLOT_STEP_MINUTES } from '../constants';
+import { generateValidatedJson, invalid, isRecord } from './outputValidation';
+import { isolateUntrusted, untrustedInputRule } from './promptSafety';
+
+export interface TimeSlot {
+    start: Date;
+    end: Date;
+}
+
+export type SlotStatus = 'free' | 'booked' | 'unavailable' | 'past';
+
+export interface ProposedTime extends TimeSlot {
+    // The student's own wording, e.g. "Thursday after 6".
+    text: string;
+    status: SlotStatus;
+}
+
+/** Everything the reschedule assistant worked out for one message. */
+export interface ReschedulePlan {
+    studentTimeZone: string;
+    teacherTimeZone: string;
+    durationMinutes: number;
+    proposals: ProposedTime[];
+    freeSlots: TimeSlot[];
+}
+
+export const SLOT_STATUS_LABELS: Record<SlotStatus, string> = {
+    free: "Available",
+    booked: "Already booked",
+    unavailable: "Outside your hours",
+    past: "Already passed",
+};
+
+// === Time zones ===
+
+interface ZonedParts {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    weekday: Weekday;
+}
+
+const WEEKDAY_INDEX: Record<string, Weekday> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const MINUTE_MS = 60_000;
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = partsFormatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone, hourCycle: 'h23', weekday: 'short', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+        });
+        partsFormatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+/** The wall-clock date and time at `date` in `timeZone`. */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+    const parts = Object.fromEntries(getPartsFormatter(timeZone).formatToParts(date).map(p => [p.type, p.value]));
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour) % 24,
+        minute: Number(parts.minute),
+        weekday: WEEKDAY_INDEX[parts.weekday],
+    };
+};
+
+// Minutes `timeZone` is ahead of UTC at `date`.
+const offsetMinutes = (date: Date, timeZone: string): number => {
+    const p = getZonedParts(date, timeZone);
+    const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+    return (wallClock - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS;
+};
+
+/** The instant at which the clock in `timeZone` reads the given date and time. */
+export const zonedTimeToUtc = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date => {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    const firstGuess = wallClock - offsetMinutes(new Date(wallClock), timeZone) * MINUTE_MS;
+    // The second pass corrects times near a daylight-saving change, where the offset differs.
+    return new Date(wallClock - offsetMinutes(new Date(firstGuess), timeZone) * MINUTE_MS);
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        getPartsFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/** Every IANA zone the browser knows, for pickers. */
+export const getTimeZoneOptions = (): string[] => {
+    try {
+        return Intl.supportedValuesOf('timeZone');
+    } catch {
+        return [getLocalTimeZone()];
+    }
+};
+
+export const getTeacherTimeZone = (settings: AppSettings): string =>
+    settings.timeZone && isValidTimeZone(settings.timeZone) ? settings.timeZone : getLocalTimeZone();
+
+export const getStudentTimeZone = (settings: AppSettings, student?: Student | null): string =>
+    student?.timeZone && isValidTimeZone(student.timeZone) ? student.timeZone : getTeacherTimeZone(settings);
+
+/** E.g. "Tuesday 5 March, 17:00 GMT+5". */
+export const formatInTimeZone = (date: Date, timeZone: string): string =>
+    new Intl.DateTimeFormat('en-GB', {
+        timeZone, weekday: 'long', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit', timeZoneName: 'short',
+    }).format(date);
+
+/** A slot in the student's time, with the teacher's added when the zones differ. */
+export const describeSlot = (slot: TimeSlot, studentTimeZone: string, teacherTimeZone: string): string => {
+    const studentTime = formatInTimeZone(slot.start, studentTimeZone);
+    if (offsetMinutes(slot.start, studentTimeZone) === offsetMinutes(slot.start, teacherTimeZone)) return studentTime;
+    return `${studentTime} (student's time) = ${formatInTimeZone(slot.start, teacherTimeZone)} (teacher's time)`;
+};
+
+// === Availability ===
+
+const toMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+};
+
+const overlaps = (startA: number, endA: number, startB: number, endB: number) => startA < endB && startB < endA;
+
+const isBooked = (lessons: BookedLesson[], weekday: Weekday, start: number, end: number): boolean =>
+    lessons.some(l => l.weekday === weekday && overlaps(start, end, toMinutes(l.start), toMinutes(l.start) + l.durationMinutes));
+
+const isWithinAvailability = (windows: AvailabilityWindow[], weekday: Weekday, start: number, end: number): boolean =>
+    windows.some(w => w.weekday === weekday && start >= toMinutes(w.start) && end <= toMinutes(w.end));
+
+/** Whether a lesson starting at `start` fits the teacher's week. */
+export const checkSlot = (start: Date, settings: AppSettings, now = new Date()): SlotStatus => {
+    if (start.getTime() < now.getTime()) return 'past';
+    const durationMinutes = settings.lessonMinutes || DEFAULT_LESSON_MINUTES;
+    const local = getZonedParts(start, getTeacherTimeZone(settings));
+    const from = local.hour * 60 + local.minute;
+    if (!isWithinAvailability(settings.availability || [], local.weekday, from, from + durationMinutes)) return 'unavailable';
+    if (isBooked(settings.bookedLessons || [], local.weekday, from, from + durationMinutes)) return 'booked';
+    return 'free';
+};
+
+/**
+ * The earliest free lesson slots over the next RESCHEDULE_SEARCH_DAYS, at most
+ * one per day so that the student gets a real choice.
+ */
+export const findFreeSlots = (settings: AppSettings, now = new Date(), limit = MAX_OFFERED_SLOTS): TimeSlot[] => {
+    const timeZone = getTeacherTimeZone(settings);
+    const durationMinutes = settings.lessonMinutes || DEFAULT_LESSON_MINUTES;
+    const windows = settings.availability || [];
+    const lessons = settings.bookedLessons || [];
+    const today = getZonedParts(now, timeZone);
+    const slots: TimeSlot[] = [];
+
+    for (let offset = 0; offset < RESCHEDULE_SEARCH_DAYS && slots.length < limit; offset++) {
+        const day = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+        const weekday = day.getUTCDay() as Weekday;
+        const starts = windows
+            .filter(w => w.weekday === weekday)
+            .flatMap(w => {
+                const times: number[] = [];
+                for (let t = toMinutes(w.start); t + durationMinutes <= toMinutes(w.end); t += SLOT_STEP_MINUTES) times.push(t);
+                return times;
+            })
+            .sort((a, b) => a - b);
+
+        const free = starts
+            .filter(t => !isBooked(lessons, weekday, t, t + durationMinutes))
+            .map(t => zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), Math.floor(t / 60), t % 60, timeZone))
+            .find(start => start.getTime() > now.getTime());
+        if (free) slots.push({ start: free, end: new Date(free.getTime() + durationMinutes * MINUTE_MS) });
+    }
+    return slots;
+};
+
+// === Extracting proposed times ===
+
+const proposedTimesSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        proposals: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    text: { type: Type.STRING, description: "The student's words for this time." },
+                    date: { type: Type.STRING, description: "YYYY-MM-DD in the student's time zone." },
+                    time: { type: Type.STRING, description: "HH:MM (24-hour) in the student's time zone." },
+                },
+                required: ['text', 'date', 'time'],
+            },
+        },
+    },
+    required: ['proposals'],
+};
+
+interface ExtractedTime {
+    text: string;
+    date: string;
+    time: string;
+}
+
+// Date.UTC rolls "2025-13-45" or "25:99" over into another day, so out-of-range values are rejected first.
+const isCalendarDate = (text: string): boolean => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+    if (!match) return false;
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const isClockTime = (text: string): boolean => {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(text);
+    return !!match && Number(match[1]) < 24 && Number(match[2]) < 60;
+};
+
+const isExtractedTime = (value: unknown): value is ExtractedTime =>
+    isRecord(value) && typeof value.text === 'string'
+    && typeof value.date === 'string' && isCalendarDate(value.date)
+    && typeof value.time === 'string' && isClockTime(value.time);
+
+const validateProposedTimes = (value: unknown): ExtractedTime[] => {
+    if (!isRecord(value) || !Array.isArray(value.proposals)) return invalid("Proposed times are missing.");
+    return value.proposals.filter(isExtractedTime);
+};
+
+/** Finds the specific lesson times a student suggests, as instants. Vague wishes are left out. */
+export const extractProposedTimes = async (
+    message: string,
+    studentTimeZone: string,
+    now = new Date(),
+    signal?: AbortSignal
+): Promise<{ text: string; start: Date }[]> => {
+    const isolated = isolateUntrusted(message);
+    const today = getZonedParts(now, studentTimeZone);
+    const todayText = `${today.year}-${String(today.month).padStart(2, '0')}-${String(today.day).padStart(2, '0')}`;
+    const prompt = `
+        A student wrote to their Arabic & Qur'an teacher about moving or missing a lesson.
+        It is now ${formatInTimeZone(now, studentTimeZone)} (${todayText}) in the student's time zone, ${studentTimeZone}.
+        List every specific date and time the student proposes for a lesson, resolving words like "tomorrow" or "next Monday".
+        Leave out vague wishes such as "sometime next week". Return an empty list if there are none.
+
+        ${untrustedInputRule(isolated.tag)}
+
+        ${isolated.block}
+    `;
+    const extracted = await generateValidatedJson({
+        task: 'extractProposedTimes',
+        prompt,
+        schema: proposedTimesSchema,
+        input: { studentMessage: message, today: todayText },
+        signal,
+    }, validateProposedTimes, "Failed to read the proposed times.");
+
+    return extracted.map(p => {
+        const [year, month, day] = p.date.split('-').map(Number);
+        const [hour, minute] = p.time.split(':').map(Number);
+        return { text: p.text, start: zonedTimeToUtc(year, month, day, hour, minute, studentTimeZone) };
+    });
+};
+
+/** Reschedule requests and absences are answered with concrete times to make up the lesson. */
+export const needsReschedulePlan = (messageType: MessageType): boolean =>
+    messageType === MessageType.RESCHEDULE || messageType === MessageType.ABSENT_STUDENT;
+
+/**
+ * Checks the times proposed in a message against the teacher's week and
+ * finds free slots to offer instead. Returns undefined when no availability
+ * has been set up. Reading the proposed times is best-effort: if it fails,
+ * the plan still offers free slots.
+ */
+export const planReschedule = async (
+    message: string,
+    student: Student | null | undefined,
+    settings: AppSettings,
+    signal?: AbortSignal,
+    now = new Date()
+): Promise<ReschedulePlan | undefined> => {
+    if (!settings.availability?.length) return undefined;
+    const studentTimeZone = getStudentTimeZone(settings, student);
+    const durationMinutes = settings.lessonMinutes || DEFAULT_LESSON_MINUTES;
+
+    let proposed: { text: string; start: Date }[] = [];
+    try {
+        proposed = await extractProposedTimes(message, studentTimeZone, now, signal);
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn("Could not read proposed times:", error);
+    }
+
+    return {
+        studentTimeZone,
+        teacherTimeZone: getTeacherTimeZone(settings),
+        durationMinutes,
+        proposals: proposed.map(p => ({
+            ...p,
+            end: new Date(p.start.getTime() + durationMinutes * MINUTE_MS),
+            status: checkSlot(p.start, settings, now),
+        })),
+        freeSlots: findFreeSlots(settings, now),
+    };
+};
+
+const PROMPT_STATUS: Record<SlotStatus, string> = {
+    free: "available",
+    booked: "not available, another lesson is booked then",
+    unavailable: "not available, outside the teacher's teaching hours",
+    past: "not possible, this time has already passed",
+};
+
+/** Renders the plan as a prompt section, or '' when there is none. */
+export const formatScheduleForPrompt = (plan?: ReschedulePlan): string => {
+    if (!plan) return '';
+    const describe = (slot: TimeSlot) => describeSlot(slot, plan.studentTimeZone, plan.teacherTimeZone);
+    // The proposals quote the student's own wording, so they are isolated like the message itself.
+    const proposals = plan.proposals.length
+        ? isolateUntrusted(plan.proposals.map(p => `- "${p.text}" = ${describe(p)}: ${PROMPT_STATUS[p.status]}`).join('\n'), 'proposed_times')
+        : undefined;
+    const slots = plan.freeSlots.map((s, i) => `${i + 1}. ${describe(s)}`);
+    return `**Scheduling (checked by the app against the teacher's calendar):**
+      Lessons are ${plan.durationMinutes} minutes. The student's time zone is ${plan.studentTimeZone}; the teacher's is ${plan.teacherTimeZone}.
+      ${proposals ? `Times the student proposed:\n${proposals.block}\n      ${untrustedInputRule(proposals.tag)}` : 'The student did not propose a specific time.'}
+      ${slots.length ? `Free slots to offer:\n      ${slots.join('\n      ')}` : 'There are no free slots in the next two weeks; ask the student for other times that suit them.'}
+      If a proposed time is available, confirm it. Otherwise say so kindly and offer the free slots.
+      Write every time exactly as given above, in both time zones where both are shown. Never invent other times.`;
+};
+
+// === Calendar invites ===
+
+const icsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeIcsText = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 limits lines to 75 octets; longer ones continue on lines starting with a space.
+const foldIcsLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const lines: string[] = [];
+    let current = '';
+    for (const char of line) {
+        if (encoder.encode(current + char).length > (lines.length ? 74 : 75)) {
+            lines.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    lines.push(current);
+    return lines.join('\r\n ');
+};
+
+export interface IcsEvent {
+    slot: TimeSlot;
+    summary: string;
+    description?: string;
+}
+
+/** A single-event calendar file that calendar apps can import. Times are written in UTC. */
+export const buildIcsEvent = ({ slot, summary, description }: IcsEvent): string => [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Al Israa Academy//AI Reply Assistant//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${crypto.randomUUID()}@reply-assistant`,
+    `DTSTAMP:${icsDate(new Date())}`,
+    `DTSTART:${icsDate(slot.start)}`,
+    `DTEND:${icsDate(slot.end)}`,
+    `SUMMARY:${escapeIcsText(summary)}`,
+    ...(description ? [`DESCRIPTION:${escapeIcsText(description)}`] : []),
+    'END:VEVENT',
+    'END:VCALENDAR',
+].map(foldIcsLine).join('\r\n') + '\r\n';
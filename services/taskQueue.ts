@@ -0,0 +1,20 @@
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight, in order.
+ * Once `signal` is aborted no new items are started; running ones finish.
+ * The worker is expected to handle its own errors.
+ */
+export const runWithConcurrency = async <T,>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<void>,
+    signal?: AbortSignal
+): Promise<void> => {
+    let next = 0;
+    const runLane = async () => {
+        while (next < items.length && !signal?.aborted) {
+            const index = next++;
+            await worker(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, runLane));
+};
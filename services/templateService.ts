@@ -0,0 +1,68 @@
+import { CustomTone, QuickReplyTemplate, ReplyTone, Student, ToneId } from '../types';
+import { TONE_OPTIONS } from '../constants';
+
+export interface ToneOption {
+    value: ToneId;
+    label: string;
+}
+
+export const getToneOptions = (customTones: CustomTone[]): ToneOption[] => [
+    ...TONE_OPTIONS,
+    ...customTones.map(t => ({ value: t.id, label: `${t.emoji || '🎨'} ${t.name}` })),
+];
+
+export const getToneLabel = (tone: ToneId, customTones: CustomTone[]): string =>
+    getToneOptions(customTones).find(o => o.value === tone)?.label || tone;
+
+/**
+ * Resolves a tone id to what the reply engine needs: the built-in ReplyTone, or
+ * the full custom tone with its instructions. Unknown ids (e.g. a deleted custom
+ * tone) fall back to Friendly.
+ */
+export const resolveTone = (tone: ToneId, customTones: CustomTone[]): ReplyTone | CustomTone => {
+    if ((Object.values(ReplyTone) as string[]).includes(tone)) {
+        return tone as ReplyTone;
+    }
+    return customTones.find(t => t.id === tone) || ReplyTone.FRIENDLY;
+};
+
+export const sortTemplates = (templates: QuickReplyTemplate[]): QuickReplyTemplate[] =>
+    [...templates].sort((a, b) => a.order - b.order);
+
+/** Swaps a template with its neighbour and renumbers `order` to stay contiguous. */
+export const moveTemplate = (templates: QuickReplyTemplate[], id: string, direction: -1 | 1): QuickReplyTemplate[] => {
+    const sorted = sortTemplates(templates);
+    const index = sorted.findIndex(t => t.id === id);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= sorted.length) return templates;
+    [sorted[index], sorted[target]] = [sorted[target], sorted[index]];
+    return sorted.map((t, i) => ({ ...t, order: i }));
+};
+
+export interface TemplateVariables {
+    studentName?: string;
+    teacherName?: string;
+    nextLesson?: string;
+}
+
+export const buildTemplateVariables = (student: Student | null | undefined, teacherName: string): TemplateVariables => ({
+    studentName: student?.name,
+    teacherName,
+    nextLesson: student?.nextLesson,
+});
+
+/** Replaces `{variable}` placeholders; unknown or empty variables get a neutral fallback. */
+export const fillTemplate = (message: string, variables: TemplateVariables): string => {
+    const fallbacks: Required<TemplateVariables> = {
+        studentName: 'my student',
+        teacherName: 'the teacher',
+        nextLesson: 'not yet scheduled',
+    };
+    const filled = message.replace(/\{(\w+)\}/g, (match, key: string) => {
+        if (!(key in fallbacks)) return match;
+        const k = key as keyof TemplateVariables;
+        return variables[k]?.trim() || fallbacks[k];
+    });
+    // A fallback at the start of the message still needs a capital letter.
+    return filled.charAt(0).toUpperCase() + filled.slice(1);
+};
@@ -0,0 +1,12 @@
+/**
+ * A short, stable FNV-1a hash of some text, for recognising repeats. Not for
+ * security: different texts can share a hash.
+ */
+export const hashText = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
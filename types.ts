@@ -16,6 +16,25 @@ export enum ReplyTone {
     FOR_KIDS = "For Kids",
 }
 
+// A built-in ReplyTone value, or the id of a teacher-defined CustomTone.
+export type ToneId = ReplyTone | string;
+
+export interface CustomTone {
+    id: string;
+    name: string;
+    emoji: string;
+    instructions: string;
+    examples: string[];
+}
+
+export interface QuickReplyTemplate {
+    id: string;
+    label: string;
+    message: string;
+    category: MessageType;
+    order: number;
+}
+
 export enum IntegrationPlatform {
     WHATSAPP = "WhatsApp",
     EMAIL = "Email",
@@ -31,21 +50,166 @@ export enum Sentiment {
     INQUIRY = "Inquiry",
 }
 
+// ISO 639-1 code, e.g. 'en', 'ur' or 'id'.
+export type LanguageCode = string;
+
+export interface LanguageInfo {
+    code: LanguageCode;
+    name: string;
+    nativeName: string;
+    flag: string;
+    // BCP 47 tag for speech synthesis.
+    voice: string;
+    rtl: boolean;
+    // Email greeting; {name} is replaced with the student's name.
+    greeting: string;
+}
+
 export interface Student {
     id: string;
     name: string;
     lastContactedAt: string;
-    preferredTone: ReplyTone;
+    preferredTone: ToneId;
+    // The language replies are paired with Arabic in. Defaults to the detected language.
+    preferredLanguage?: LanguageCode;
+    // IANA time zone, e.g. 'Asia/Karachi'. Defaults to the teacher's.
+    timeZone?: string;
+    // ISO 4217 code for the ledger. Defaults to the teacher's currency.
+    currency?: string;
+    ledger?: LedgerEntry[];
+    // How the Arabic side is written for this student. Each defaults to the teacher's setting.
+    arabicVariety?: ArabicVariety;
+    diacritics?: DiacritizationLevel;
+    transliteration?: boolean;
+    // Parents or guardians who write on behalf of a child student.
+    guardians?: GuardianContact[];
     totalMessages: number;
+    nextLesson?: string;
+    notes?: string;
+    archived?: boolean;
+    createdAt?: string;
+}
+
+export interface GuardianContact {
+    id: string;
+    name: string;
+    // e.g. 'Mother', 'Father', 'Aunt'.
+    relation: string;
+    // Defaults to the language their message is written in.
+    preferredLanguage?: LanguageCode;
+    // Defaults to the teacher's platform.
+    platform?: IntegrationPlatform;
+}
+
+// Who wrote a message, or who a reply is written to.
+export type MessageSender = 'student' | 'guardian';
+
+export type ArabicVariety = 'msa' | 'egyptian' | 'levantine' | 'gulf';
+
+// How much tashkeel (vowel marks) the Arabic carries.
+export type DiacritizationLevel = 'none' | 'partial' | 'full';
+
+/** How the Arabic side of a reply is written, after student overrides. */
+export interface ArabicStyle {
+    variety: ArabicVariety;
+    diacritics: DiacritizationLevel;
+    // Adds a Latin-script reading of each Arabic sentence, for new learners.
+    transliteration: boolean;
+}
+
+// A package charges for a block of lessons, a lesson uses one up, a payment settles the charges.
+export type LedgerEntryKind = 'package' | 'lesson' | 'payment';
+
+/** One line of a student's account, in the student's currency. */
+export interface LedgerEntry {
+    id: string;
+    kind: LedgerEntryKind;
+    date: string; // YYYY-MM-DD
+    // Lessons bought (package) or taken (lesson).
+    lessons?: number;
+    // Price charged (package) or amount received (payment).
+    amount?: number;
+    note?: string;
+}
+
+export interface ConversationTurn {
+    id: string;
+    studentId: string;
+    role: 'student' | 'teacher';
+    text: string;
+    arabicText?: string;
+    // When the turn was recorded.
+    date: string;
+    // When the message was actually sent, for messages imported from a chat export.
+    receivedAt?: string;
+}
+
+export type StudentSortKey = 'name' | 'lastContactedAt' | 'totalMessages';
+
+// 'student' is the student's language, which is paired with Arabic in every reply.
+export type ReplyLayout = 'student' | 'arabic' | 'arabic-student' | 'interleaved';
+
+export enum ModelProviderId {
+    GEMINI = "gemini",
+    OPENAI_COMPATIBLE = "openai-compatible",
+    FIXTURE = "fixture",
 }
 
 export interface AppSettings {
     teacherName: string;
+    // Used as the sender of .eml drafts; they have no From header without it.
+    teacherEmail?: string;
     signature: string;
     platform: IntegrationPlatform;
     theme: 'light' | 'dark';
+    replyLayout?: ReplyLayout;
+    // Languages the analysis may detect; replies pair Arabic with one of them.
+    detectionLanguages?: LanguageCode[];
+    defaultReplyLanguage?: LanguageCode;
+    threadWindow?: number;
+    provider?: ModelProviderId;
+    model?: string;
+    localEndpoint?: string;
+    localApiKey?: string;
+    // Requests sent to the provider per minute; 0 for no limit.
+    requestsPerMinute?: number;
+    cacheResponses?: boolean;
+    timeZone?: string;
+    lessonMinutes?: number;
+    availability?: AvailabilityWindow[];
+    bookedLessons?: BookedLesson[];
+    currency?: string;
+    arabicVariety?: ArabicVariety;
+    diacritics?: DiacritizationLevel;
+    transliteration?: boolean;
+    // BCP 47 tag for voice input, or 'auto' to follow the student's language.
+    voiceLanguage?: string;
+    learnFromRatings?: boolean;
+    fewShotExamples?: number;
+}
+
+// 0 = Sunday … 6 = Saturday, as in Date.getDay().
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/** A weekly window, in the teacher's time zone, when lessons can be booked. */
+export interface AvailabilityWindow {
+    id: string;
+    weekday: Weekday;
+    start: string; // HH:MM
+    end: string;   // HH:MM
 }
 
+/** A lesson that repeats every week, in the teacher's time zone. */
+export interface BookedLesson {
+    id: string;
+    weekday: Weekday;
+    start: string; // HH:MM
+    durationMinutes: number;
+    studentId?: string;
+}
+
+export type ReminderRepeat = 'none' | 'daily' | 'weekly' | 'monthly';
+
 export interface Reminder {
     id: string;
     studentId: string;
@@ -53,17 +217,56 @@ export interface Reminder {
     remindAt: string;
     message: string;
     done: boolean;
+    repeat?: ReminderRepeat;
+    notified?: boolean;
 }
 
 export interface SavedReply {
     id: string;
     studentId?: string;
     arabicReply: string;
-    englishReply: string;
+    // The reply in the student's language (`language`).
+    studentReply: string;
+    language?: LanguageCode;
     messageType: MessageType;
-    tone: ReplyTone;
+    tone: ToneId;
     date: string;
     studentMessage: string;
+    studentName?: string;
+    toneDescription?: string;
+    sentences?: { studentSentence: string; arabicSentence: string; citationId?: string }[];
+    rating?: ReplyRating;
+    sentiment?: Sentiment;
+    // Set when the reply was picked or merged from compared variants.
+    comparison?: ReplyComparison;
+    // 'guardian' when the reply was written to the student's parent or guardian.
+    audience?: MessageSender;
+}
+
+export type ReplyRating = 'up' | 'down';
+
+export interface ReplyVariantSummary {
+    tone: ToneId;
+    temperature?: number;
+    // Set for paired child and parent replies.
+    audience?: MessageSender;
+    toneDescription: string;
+}
+
+/** The variants a reply was chosen from, and which one each sentence came from. */
+export interface ReplyComparison {
+    variants: ReplyVariantSummary[];
+    // Index into `variants` for every sentence of the chosen reply.
+    sources: number[];
+}
+
+export interface HistoryFilters {
+    query: string;
+    studentId: string;
+    messageType: MessageType | '';
+    tone: ToneId | '';
+    from: string; // yyyy-mm-dd, inclusive
+    to: string;   // yyyy-mm-dd, inclusive
 }
 
 export interface GenerationProgress {
@@ -74,3 +277,62 @@ export interface GenerationProgress {
     done?: boolean;
     error?: string;
 }
+
+export type CitationKind = 'quran' | 'hadith' | 'dua';
+
+/** A verified quotation from the bundled library. Its text is never generated by the model. */
+export interface Citation {
+    id: string;
+    kind: CitationKind;
+    arabic: string;
+    translation: string;
+    reference: string;
+    referenceArabic: string;
+    themes: string[];
+}
+
+/** The analysis of one incoming message, kept for the insights dashboard. */
+export interface MessageAnalysis {
+    id: string;
+    studentId?: string;
+    date: string; // when the message arrived, or when it was analysed if unknown
+    messageType: MessageType;
+    sentiment: Sentiment;
+    language?: LanguageCode;
+    // Hash of the message text, so analysing the same message again updates its record.
+    messageKey: string;
+}
+
+/**
+ * A reply the teacher asked for while offline, kept until it has been drafted
+ * so that closing or reloading the app does not lose it. Not part of backups.
+ */
+export interface PendingGeneration {
+    id: string;
+    message: string;
+    studentId?: string;
+    queuedAt: string;
+}
+
+export interface AppDataSnapshot {
+    settings: AppSettings;
+    students: Student[];
+    savedReplies: SavedReply[];
+    reminders: Reminder[];
+    conversations: ConversationTurn[];
+    customTones: CustomTone[];
+    quickReplyTemplates: QuickReplyTemplate[];
+    analyses: MessageAnalysis[];
+}
+
+export interface BackupFile {
+    app: string;
+    schemaVersion: number;
+    exportedAt: string;
+    data: Partial<AppDataSnapshot>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+// Record collections persisted one row per item; settings are stored separately.
+export type CollectionName = Exclude<keyof AppDataSnapshot, 'settings'>;